@@ -0,0 +1,42 @@
+-- Create customizer_design_templates table: staff-curated overlays (frames, stickers,
+-- seasonal borders, text art) customers layer over their photo inside a shape.
+-- Assets live in the customizer-uploads bucket under templates/<id>/asset.png|svg
+CREATE TABLE IF NOT EXISTS customizer_design_templates (
+  id VARCHAR(40) PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('frame', 'sticker', 'border', 'text-art')),
+  tags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  asset_path TEXT NOT NULL,
+  asset_type VARCHAR(20) NOT NULL,
+  asset_width INTEGER NOT NULL,
+  asset_height INTEGER NOT NULL,
+  anchor JSONB NOT NULL,
+  shapes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE customizer_design_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow public read access (storefront lists the catalog)
+CREATE POLICY "Allow public read access on customizer_design_templates"
+  ON customizer_design_templates FOR SELECT
+  USING (true);
+
+-- Reuse the updated_at trigger function from the uploads migration
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_customizer_design_templates_updated_at BEFORE UPDATE ON customizer_design_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment to table
+COMMENT ON TABLE customizer_design_templates IS 'Design template catalog: overlays composited over the shaped customer photo';
+COMMENT ON COLUMN customizer_design_templates.anchor IS 'Placement {position, width, offsetX, offsetY, clip}; position fill or a 9-point anchor, sizes in percentages of the trim area';
+COMMENT ON COLUMN customizer_design_templates.shapes IS 'Shape ids the template is made for; empty = any shape';
@@ -0,0 +1,39 @@
+-- Create customizer_mockup_templates table with the product photo used for mockup previews
+-- Photos live in the customizer-uploads bucket under mockups/<product_id>/
+CREATE TABLE IF NOT EXISTS customizer_mockup_templates (
+  product_id VARCHAR(255) PRIMARY KEY,
+  base_image_path TEXT NOT NULL,
+  overlay_image_path TEXT,
+  quad JSONB NOT NULL,
+  cutout BOOLEAN NOT NULL DEFAULT TRUE,
+  base_width INTEGER NOT NULL,
+  base_height INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE customizer_mockup_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow public read access (storefront can show mockups)
+CREATE POLICY "Allow public read access on customizer_mockup_templates"
+  ON customizer_mockup_templates FOR SELECT
+  USING (true);
+
+-- Reuse the updated_at trigger function from the uploads migration
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_customizer_mockup_templates_updated_at BEFORE UPDATE ON customizer_mockup_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment to table
+COMMENT ON TABLE customizer_mockup_templates IS 'Product photo and design placement per product for customizer mockup previews';
+COMMENT ON COLUMN customizer_mockup_templates.quad IS 'Design corners [{x,y}] top-left, top-right, bottom-right, bottom-left, in percentages of the base photo';
+COMMENT ON COLUMN customizer_mockup_templates.overlay_image_path IS 'Optional PNG drawn over the design (glass reflection, frame edge), same size as the base photo';
+COMMENT ON COLUMN customizer_mockup_templates.cutout IS 'Place only the shape (transparent outside) instead of the customer background';
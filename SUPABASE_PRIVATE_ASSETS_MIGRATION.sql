@@ -0,0 +1,17 @@
+-- Make the customizer-uploads bucket private for private-assets mode
+-- Customer photos, renders and QR codes are then only handed out as signed URLs that
+-- expire after CUSTOMIZER_ASSET_URL_TTL seconds (default 3600). Storefront pages renew
+-- them with POST /customizer/session/:sessionId/asset-urls.
+-- Set CUSTOMIZER_PRIVATE_ASSETS=true on the backend before running this, or every URL
+-- it hands out stops loading.
+UPDATE storage.buckets SET public = false WHERE id = 'customizer-uploads';
+
+-- No policies are added on storage.objects for this bucket: anon and authenticated
+-- clients get no access, and the backend uses the service role key, which bypasses RLS.
+
+-- uploads.image_url keeps the unsigned URL of each product image; the API signs it when
+-- the record is read. Links to public URLs shared before this migration stop working.
+
+-- To go back to public assets:
+-- UPDATE storage.buckets SET public = true WHERE id = 'customizer-uploads';
+-- and unset CUSTOMIZER_PRIVATE_ASSETS.
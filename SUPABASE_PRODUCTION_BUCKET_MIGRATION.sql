@@ -0,0 +1,15 @@
+-- Create the private customizer-production bucket for clean, print-quality files
+-- Storefront previews in customizer-uploads are watermarked; the clean files live here
+-- under the same customizer/<session>-<product>/ paths and are only handed out as
+-- short-lived signed URLs by the staff route GET /customizer/production/:sessionId
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('customizer-production', 'customizer-production', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- No policies are added on storage.objects for this bucket: anon and authenticated
+-- clients get no access, and the backend uses the service role key, which bypasses RLS.
+-- Set SUPABASE_SERVICE_ROLE_KEY on the backend, or uploads to this bucket will fail.
+
+-- Print renders stored before this migration remain public in customizer-uploads.
+-- To move them, copy every customizer/**/print_*.png object into this bucket and then
+-- remove it from customizer-uploads.
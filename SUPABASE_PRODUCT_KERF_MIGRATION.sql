@@ -0,0 +1,10 @@
+-- Add the laser kerf to customizer_product_specs for vector cut-path exports
+-- Run after SUPABASE_PRODUCT_SPECS_TABLE_MIGRATION.sql. Products without a value cut
+-- on the nominal outline (PRINT_DEFAULT_KERF_MM applies to products without a row).
+ALTER TABLE customizer_product_specs
+  ADD COLUMN IF NOT EXISTS kerf_mm NUMERIC NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN customizer_product_specs.kerf_mm IS 'Laser cut width in millimetres; cut outlines are offset by half of it so parts keep their nominal size';
+
+-- Cut paths are stored next to the print file in the private customizer-production
+-- bucket as cut_<shape>_<timestamp>.svg and .dxf, sized to the print file (trim + bleed).
@@ -0,0 +1,11 @@
+-- Add named print slots (locket front/back, collage cells) to customizer_product_specs
+-- Run after SUPABASE_PRODUCT_SPECS_TABLE_MIGRATION.sql. Products keep an empty list and
+-- behave as before: one image per product.
+ALTER TABLE customizer_product_specs
+  ADD COLUMN IF NOT EXISTS slots JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN customizer_product_specs.slots IS 'Print slots [{id, label, x, y, width, height, shapes}]; rectangles in percentages of the trim, shapes limits the accepted shape ids (empty = any)';
+
+-- Each slot's upload, renders, manifest and history live under
+-- customizer/<session>-<product>/slots/<slot id>/ in both storage buckets;
+-- the composed layout (layout.png, print layout_print.png) sits in the product folder.
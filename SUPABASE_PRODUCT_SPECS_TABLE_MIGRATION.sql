@@ -0,0 +1,37 @@
+-- Create customizer_product_specs table with the physical print size of each product
+-- Products without a row fall back to PRINT_DEFAULT_* environment variables
+CREATE TABLE IF NOT EXISTS customizer_product_specs (
+  product_id VARCHAR(255) PRIMARY KEY,
+  width_mm NUMERIC NOT NULL,
+  height_mm NUMERIC,
+  dpi INTEGER NOT NULL DEFAULT 300,
+  bleed_mm NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE customizer_product_specs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow public read access (storefront can show print size)
+CREATE POLICY "Allow public read access on customizer_product_specs"
+  ON customizer_product_specs FOR SELECT
+  USING (true);
+
+-- Reuse the updated_at trigger function from the uploads migration
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_customizer_product_specs_updated_at BEFORE UPDATE ON customizer_product_specs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment to table
+COMMENT ON TABLE customizer_product_specs IS 'Physical print size per product for print-ready customizer renders';
+COMMENT ON COLUMN customizer_product_specs.width_mm IS 'Trim width in millimetres';
+COMMENT ON COLUMN customizer_product_specs.height_mm IS 'Trim height in millimetres (NULL = follow shape aspect ratio)';
+COMMENT ON COLUMN customizer_product_specs.bleed_mm IS 'Bleed added on every side of the trim, in millimetres';
@@ -0,0 +1,84 @@
+-- Create customizer_sessions table: one row per session folder in the customizer buckets
+-- (customizer/<sessionId> or customizer/<sessionId>-<productId>). Lookups and cleanup read
+-- the session and product from here instead of parsing folder names.
+CREATE TABLE IF NOT EXISTS customizer_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id VARCHAR(255) NOT NULL,
+  product_id VARCHAR(255),
+  storage_prefix TEXT UNIQUE NOT NULL,
+  files JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'deleted', 'review')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index on session_id for session lookups
+CREATE INDEX IF NOT EXISTS customizer_sessions_session_id_idx ON customizer_sessions(session_id);
+
+-- Create index on status and created_at for cleanup
+CREATE INDEX IF NOT EXISTS customizer_sessions_status_created_at_idx ON customizer_sessions(status, created_at);
+
+-- Enable Row Level Security (only the service role reads and writes sessions)
+ALTER TABLE customizer_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Reuse the updated_at trigger function from the uploads migration
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_customizer_sessions_updated_at BEFORE UPDATE ON customizer_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill the folders that already exist. The session and product come from the upload
+-- record whose ids form the folder name. Folder names cannot be split reliably (session
+-- ids may contain '-'), so a folder without an upload record is taken as a bare session
+-- folder. When its name contains '-' it may be <sessionId>-<productId> instead, so it is
+-- set aside with status 'review': lookups and cleanup skip it until the row is fixed, e.g.
+--   UPDATE customizer_sessions SET session_id = '<sessionId>', product_id = '<productId>',
+--     status = 'active' WHERE storage_prefix = 'customizer/<folder>';
+-- or the next upload to the folder records it again.
+INSERT INTO customizer_sessions (session_id, product_id, storage_prefix, files, status, created_at, updated_at)
+SELECT
+  COALESCE(u.session_id, f.folder),
+  u.product_id,
+  'customizer/' || f.folder,
+  f.files,
+  CASE
+    WHEN u.session_id IS NULL AND position('-' IN f.folder) > 0 THEN 'review'
+    ELSE 'active'
+  END,
+  f.created_at,
+  f.updated_at
+FROM (
+  SELECT
+    split_part(name, '/', 2) AS folder,
+    jsonb_agg(substring(name FROM length(split_part(name, '/', 2)) + 13) ORDER BY name) AS files,
+    MIN(created_at) AS created_at,
+    MAX(updated_at) AS updated_at
+  FROM storage.objects
+  WHERE bucket_id = 'customizer-uploads'
+    AND name LIKE 'customizer/%/%'
+    AND name NOT LIKE 'customizer/%/history/%'
+    AND name NOT LIKE 'customizer/%/slots/%/history/%'
+  GROUP BY 1
+) f
+LEFT JOIN LATERAL (
+  SELECT session_id, product_id
+  FROM uploads
+  WHERE session_id IS NOT NULL
+    AND product_id IS NOT NULL
+    AND session_id || '-' || product_id = f.folder
+  LIMIT 1
+) u ON true
+ON CONFLICT (storage_prefix) DO NOTHING;
+
+-- Add comment to table
+COMMENT ON TABLE customizer_sessions IS 'Session folders of the customizer buckets, written on every upload';
+COMMENT ON COLUMN customizer_sessions.product_id IS 'Product of a customizer/<sessionId>-<productId> folder; NULL for the bare session folder';
+COMMENT ON COLUMN customizer_sessions.storage_prefix IS 'Folder in customizer-uploads (mirrored in the production bucket)';
+COMMENT ON COLUMN customizer_sessions.files IS 'Current files relative to storage_prefix; render history is not listed';
+COMMENT ON COLUMN customizer_sessions.status IS 'active; deleted once cleanup removed the files; review for backfilled folders whose session and product are unknown';
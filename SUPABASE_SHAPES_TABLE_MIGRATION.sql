@@ -0,0 +1,37 @@
+-- Create customizer_shapes table for staff-registered shape masks
+-- Built-in shapes (circle, heart, rectangle) live in code and are not stored here
+CREATE TABLE IF NOT EXISTS customizer_shapes (
+  id VARCHAR(40) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  path TEXT NOT NULL,
+  view_box VARCHAR(100) NOT NULL DEFAULT '0 0 100 100',
+  aspect_ratio NUMERIC NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE customizer_shapes ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow public read access (storefront shape picker)
+CREATE POLICY "Allow public read access on customizer_shapes"
+  ON customizer_shapes FOR SELECT
+  USING (true);
+
+-- Reuse the updated_at trigger function from the uploads migration
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_customizer_shapes_updated_at BEFORE UPDATE ON customizer_shapes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment to table
+COMMENT ON TABLE customizer_shapes IS 'Custom shape masks registered by staff for the customizer';
+COMMENT ON COLUMN customizer_shapes.id IS 'Shape id used in uploads and shaped filenames (<id>_<timestamp>.png)';
+COMMENT ON COLUMN customizer_shapes.path IS 'SVG path data in view_box coordinates';
+COMMENT ON COLUMN customizer_shapes.aspect_ratio IS 'Rendered output width / height';
@@ -7,6 +7,9 @@ import { CustomizerModule } from './customizer/customizer.module';
 import { ShopifyModule } from './shopify/shopify.module';
 import { ProductUploadsModule } from './product-uploads/product-uploads.module';
 import { GenerateModule } from './generate/generate.module';
+import { StorageModule } from './storage/storage.module';
+import { SupabaseModule } from './supabase/supabase.module';
+import { HealthModule } from './health/health.module';
 
 @Module({
   imports: [
@@ -16,6 +19,9 @@ import { GenerateModule } from './generate/generate.module';
     GenerateModule,
     ShopifyModule,
     ProductUploadsModule,
+    StorageModule,
+    SupabaseModule,
+    HealthModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { keyBackground, removeUniformBackground } from './background-removal';
+
+const options = { tolerance: 12, edge: 1 };
+
+/** 100x100 RGB image: white backdrop, red square with a white hole, a red speck */
+function portrait(): Buffer {
+  const pixels = Buffer.alloc(100 * 100 * 3, 255);
+  const paint = (x0: number, y0: number, size: number, rgb: number[]) => {
+    for (let y = y0; y < y0 + size; y++) {
+      for (let x = x0; x < x0 + size; x++) {
+        pixels.set(rgb, (y * 100 + x) * 3);
+      }
+    }
+  };
+  paint(30, 30, 40, [200, 20, 20]);
+  paint(45, 45, 10, [255, 255, 255]);
+  paint(10, 10, 2, [200, 20, 20]);
+  return pixels;
+}
+
+describe('keyBackground', () => {
+  it('keys out the border color but keeps enclosed matches', () => {
+    const { color, alpha } = keyBackground(portrait(), 100, 100, 3, options);
+
+    expect(color).toEqual([255, 255, 255]);
+    expect(alpha[0]).toBe(0);
+    expect(alpha[50 * 100 + 35]).toBe(255);
+    // White hole inside the subject is not connected to the border
+    expect(alpha[50 * 100 + 50]).toBe(255);
+    // Specks in the backdrop are noise
+    expect(alpha[10 * 100 + 10]).toBe(0);
+  });
+
+  it('rejects photos without a plain backdrop or without a subject', () => {
+    const split = Buffer.alloc(100 * 100 * 3, 255);
+    split.fill(0, 0, split.length / 2);
+    expect(() => keyBackground(split, 100, 100, 3, options)).toThrow(
+      BadRequestException,
+    );
+
+    const empty = Buffer.alloc(100 * 100 * 3, 255);
+    expect(() => keyBackground(empty, 100, 100, 3, options)).toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('removeUniformBackground', () => {
+  it('returns the cut-out at full size with alpha', async () => {
+    const image = await sharp(portrait(), {
+      raw: { width: 100, height: 100, channels: 3 },
+    })
+      .resize(400, 400, { kernel: 'nearest' })
+      .png()
+      .toBuffer();
+
+    const { data, info } = await sharp(
+      await removeUniformBackground(image, options),
+    )
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    expect([info.width, info.height, info.channels]).toEqual([400, 400, 4]);
+    expect(data[3]).toBe(0);
+    expect(data[(200 * 400 + 140) * 4 + 3]).toBe(255);
+  });
+});
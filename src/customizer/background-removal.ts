@@ -0,0 +1,251 @@
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { BackgroundRemoval } from './customization-data';
+
+/** Longest side of the copy the backdrop is keyed on; the matte is scaled up to the photo */
+const KEY_SIZE = 1024;
+/** Width of the border ring sampled for the backdrop color, as a share of the short side */
+const BORDER_SHARE = 0.03;
+/** Share of the border that must match the backdrop color for it to count as plain */
+const MIN_BORDER_MATCH = 0.6;
+/** Opaque specks smaller than this share of the photo are backdrop noise */
+const MAX_SPECK_SHARE = 0.0005;
+/** Below this share of opaque pixels nothing recognizable is left */
+const MIN_SUBJECT_SHARE = 0.01;
+/** Largest RGB distance (black to white) */
+const MAX_DISTANCE = Math.sqrt(3) * 255;
+
+export interface BackgroundKey {
+  /** Backdrop color that was keyed out */
+  color: [number, number, number];
+  /** Alpha per pixel (0 = backdrop, 255 = subject), row-major */
+  alpha: Uint8Array;
+}
+
+/**
+ * Key out a plain backdrop from raw RGB pixels. The backdrop color is the median of
+ * the border ring; pixels close to it are removed only when connected to the border,
+ * so matching colors enclosed by the subject (a white chest on a white wall) stay.
+ * Colors just above the tolerance fade out over a band for a soft edge, and small
+ * opaque specks left in the backdrop are dropped.
+ */
+export function keyBackground(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  options: BackgroundRemoval,
+): BackgroundKey {
+  const count = width * height;
+  const ring = Math.max(1, Math.round(Math.min(width, height) * BORDER_SHARE));
+  const isBorder = (x: number, y: number) =>
+    x < ring || y < ring || x >= width - ring || y >= height - ring;
+
+  // Median per channel from histograms of the border ring
+  const histograms = [0, 1, 2].map(() => new Uint32Array(256));
+  let borderCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isBorder(x, y)) continue;
+      const offset = (y * width + x) * channels;
+      for (let c = 0; c < 3; c++) histograms[c][pixels[offset + c]]++;
+      borderCount++;
+    }
+  }
+  const color = histograms.map((histogram) => {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen * 2 >= borderCount) return value;
+    }
+    return 255;
+  }) as [number, number, number];
+
+  const distance = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const offset = i * channels;
+    const dr = pixels[offset] - color[0];
+    const dg = pixels[offset + 1] - color[1];
+    const db = pixels[offset + 2] - color[2];
+    distance[i] = (Math.sqrt(dr * dr + dg * dg + db * db) / MAX_DISTANCE) * 100;
+  }
+
+  const tolerance = options.tolerance;
+  let borderMatches = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBorder(x, y) && distance[y * width + x] <= tolerance) {
+        borderMatches++;
+      }
+    }
+  }
+  if (borderMatches < borderCount * MIN_BORDER_MATCH) {
+    throw new BadRequestException(
+      'The photo background is not a plain color, so it cannot be removed. Use a photo taken against a plain backdrop or raise removeBackground.tolerance',
+    );
+  }
+
+  // Flood fill from the border through backdrop and edge-band pixels
+  const band = Math.max(2, tolerance / 2);
+  const limit = tolerance + band;
+  const alpha = new Uint8Array(count).fill(255);
+  const visited = new Uint8Array(count);
+  const queue = new Int32Array(count);
+  let head = 0;
+  let tail = 0;
+  const visit = (i: number) => {
+    if (visited[i] || distance[i] >= limit) return;
+    visited[i] = 1;
+    alpha[i] = Math.round(
+      255 * Math.min(1, Math.max(0, (distance[i] - tolerance) / band)),
+    );
+    queue[tail++] = i;
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < count - width) visit(i + width);
+  }
+
+  const subject = removeSpecks(alpha, width, height);
+  if (subject < count * MIN_SUBJECT_SHARE) {
+    throw new BadRequestException(
+      'Removing the background left nothing of the photo. Lower removeBackground.tolerance',
+    );
+  }
+
+  return { color, alpha };
+}
+
+/**
+ * Clear opaque components smaller than MAX_SPECK_SHARE of the image (4-connected).
+ * Returns the number of opaque pixels kept.
+ */
+function removeSpecks(
+  alpha: Uint8Array,
+  width: number,
+  height: number,
+): number {
+  const count = width * height;
+  const maxSpeck = Math.max(1, Math.round(count * MAX_SPECK_SHARE));
+  const labelled = new Uint8Array(count);
+  const component = new Int32Array(count);
+  let kept = 0;
+
+  for (let start = 0; start < count; start++) {
+    if (labelled[start] || alpha[start] < 128) continue;
+
+    let size = 0;
+    let head = 0;
+    labelled[start] = 1;
+    component[size++] = start;
+    while (head < size) {
+      const i = component[head++];
+      const x = i % width;
+      for (const next of [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < count - width ? i + width : -1,
+      ]) {
+        if (next >= 0 && !labelled[next] && alpha[next] >= 128) {
+          labelled[next] = 1;
+          component[size++] = next;
+        }
+      }
+    }
+
+    if (size <= maxSpeck) {
+      for (let k = 0; k < size; k++) alpha[component[k]] = 0;
+    } else {
+      kept += size;
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Cut the subject out of a photo with a plain backdrop, at the photo's full size.
+ * The matte is keyed on a reduced copy, softened by `edge` and scaled up; edge pixels
+ * have the backdrop color unmixed from them so no colored fringe remains.
+ */
+export async function removeUniformBackground(
+  image: Buffer,
+  options: BackgroundRemoval,
+): Promise<Buffer> {
+  const { data: keyPixels, info: keyInfo } = await sharp(image)
+    .resize(KEY_SIZE, KEY_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const key = keyBackground(
+    keyPixels,
+    keyInfo.width,
+    keyInfo.height,
+    keyInfo.channels,
+    options,
+  );
+
+  const { data: pixels, info } = await sharp(image)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let matte = sharp(Buffer.from(key.alpha), {
+    raw: { width: keyInfo.width, height: keyInfo.height, channels: 1 },
+  });
+  if (options.edge > 0) {
+    matte = sharp(
+      await matte
+        .blur(Math.max(0.3, options.edge))
+        .extractChannel(0)
+        .raw()
+        .toBuffer(),
+      { raw: { width: keyInfo.width, height: keyInfo.height, channels: 1 } },
+    );
+  }
+  const alpha = await matte
+    .resize(info.width, info.height, { fit: 'fill' })
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+
+  const count = info.width * info.height;
+  const output = Buffer.alloc(count * 4);
+  for (let i = 0; i < count; i++) {
+    const a = alpha[i];
+    for (let c = 0; c < 3; c++) {
+      const value = pixels[i * info.channels + c];
+      // Unmix the backdrop: observed = a * subject + (1 - a) * backdrop
+      output[i * 4 + c] =
+        a > 0 && a < 255
+          ? Math.min(
+              255,
+              Math.max(
+                0,
+                Math.round((value * 255 - (255 - a) * key.color[c]) / a),
+              ),
+            )
+          : value;
+    }
+    output[i * 4 + 3] = a;
+  }
+
+  return sharp(output, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+}
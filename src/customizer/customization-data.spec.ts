@@ -0,0 +1,229 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  cropToPixels,
+  parseCustomizationData,
+  parseTransform,
+} from './customization-data';
+
+describe('parseCustomizationData', () => {
+  const base = { x: '50', y: '40', zoom: '1.5', shape: 'Heart' };
+
+  it('parses the required multipart fields', () => {
+    expect(parseCustomizationData(base)).toEqual({
+      x: 50,
+      y: 40,
+      zoom: 1.5,
+      shape: 'heart',
+    });
+  });
+
+  it('rejects missing required fields', () => {
+    expect(() => parseCustomizationData({ x: '50', y: '50' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('accepts 0 for x and y', () => {
+    expect(parseCustomizationData({ ...base, x: 0, y: '0' })).toEqual({
+      x: 0,
+      y: 0,
+      zoom: 1.5,
+      shape: 'heart',
+    });
+  });
+
+  it('leaves positions and zoom out of range to the render clamp', () => {
+    expect(
+      parseCustomizationData({ ...base, x: '-1', y: 101, zoom: '6' }),
+    ).toMatchObject({ x: -1, y: 101, zoom: 6 });
+  });
+
+  it('parses the transform without a shape for shape previews', () => {
+    expect(
+      parseTransform({ x: '50', y: '40', zoom: '1.5', flipH: '1' }),
+    ).toEqual({ x: 50, y: 40, zoom: 1.5, flipH: true });
+    expect(() => parseTransform({ x: '50', y: '40' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('parses rotation, flips and a JSON crop', () => {
+    const data = parseCustomizationData({
+      ...base,
+      rotation: '450',
+      flipH: 'true',
+      flipV: '0',
+      crop: '{"x":10,"y":5,"width":50,"height":60}',
+    });
+
+    expect(data.rotation).toBe(90);
+    expect(data.flipH).toBe(true);
+    expect(data.flipV).toBe(false);
+    expect(data.crop).toEqual({ x: 10, y: 5, width: 50, height: 60 });
+  });
+
+  it('accepts flat crop fields', () => {
+    const data = parseCustomizationData({
+      ...base,
+      cropX: '0',
+      cropY: '0',
+      cropWidth: '100',
+      cropHeight: '50',
+    });
+
+    expect(data.crop).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+  });
+
+  it('rejects a crop outside the image', () => {
+    expect(() =>
+      parseCustomizationData({
+        ...base,
+        crop: { x: 60, y: 0, width: 50, height: 50 },
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('parses background modes and normalizes colors', () => {
+    expect(
+      parseCustomizationData({ ...base, background: 'transparent' }).background,
+    ).toEqual({ type: 'transparent' });
+    expect(
+      parseCustomizationData({ ...base, background: '#FA0' }).background,
+    ).toEqual({ type: 'color', color: '#ffaa00' });
+    expect(
+      parseCustomizationData({
+        ...base,
+        background: 'color',
+        backgroundColor: '#123456',
+      }).background,
+    ).toEqual({ type: 'color', color: '#123456' });
+  });
+
+  it('rejects unknown background values', () => {
+    expect(() =>
+      parseCustomizationData({ ...base, background: 'blue' }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('parses text layers with defaults', () => {
+    const data = parseCustomizationData({
+      ...base,
+      textLayers: '[{"text":" Anna ","font":"Great-Vibes","curve":"true"}]',
+    });
+
+    expect(data.textLayers).toEqual([
+      {
+        text: 'Anna',
+        font: 'great-vibes',
+        size: 8,
+        color: '#ffffff',
+        x: 50,
+        y: 85,
+        curve: true,
+      },
+    ]);
+  });
+
+  it('rejects empty or oversized text layers', () => {
+    expect(() =>
+      parseCustomizationData({ ...base, textLayers: [{ text: '' }] }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      parseCustomizationData({
+        ...base,
+        textLayers: [{ text: 'Anna', size: 90 }],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('parses stroke and feather options', () => {
+    const data = parseCustomizationData({
+      ...base,
+      strokeColor: '#D4AF37',
+      strokeWidth: '1.5',
+      feather: '6',
+    });
+
+    expect(data.stroke).toEqual({ color: '#d4af37', width: 1.5 });
+    expect(data.feather).toBe(6);
+    expect(
+      parseCustomizationData({ ...base, stroke: '{"width":0}' }).stroke,
+    ).toBeUndefined();
+  });
+
+  it('parses photo adjustments and drops neutral values', () => {
+    expect(
+      parseCustomizationData({
+        ...base,
+        adjustments: '{"brightness":1.2,"contrast":1,"sepia":true}',
+      }).adjustments,
+    ).toEqual({ brightness: 1.2, sepia: 1 });
+    expect(
+      parseCustomizationData({ ...base, saturation: '0', sharpen: '1.5' })
+        .adjustments,
+    ).toEqual({ saturation: 0, sharpen: 1.5 });
+    expect(
+      parseCustomizationData({ ...base, grayscale: 'false' }).adjustments,
+    ).toBeUndefined();
+  });
+
+  it('rejects out-of-range adjustments', () => {
+    expect(() =>
+      parseCustomizationData({ ...base, brightness: '0' }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      parseCustomizationData({ ...base, adjustments: { sepia: 2 } }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('parses background removal with defaults', () => {
+    expect(
+      parseCustomizationData({ ...base, removeBackground: 'true' })
+        .removeBackground,
+    ).toEqual({ tolerance: 12, edge: 1 });
+    expect(
+      parseCustomizationData({
+        ...base,
+        removeBackground: '1',
+        removeBackgroundTolerance: '20',
+      }).removeBackground,
+    ).toEqual({ tolerance: 20, edge: 1 });
+    expect(
+      parseCustomizationData({
+        ...base,
+        removeBackground: '{"tolerance":8,"edge":0}',
+      }).removeBackground,
+    ).toEqual({ tolerance: 8, edge: 0 });
+    expect(
+      parseCustomizationData({ ...base, removeBackground: 'false' })
+        .removeBackground,
+    ).toBeUndefined();
+    expect(() =>
+      parseCustomizationData({ ...base, removeBackground: { tolerance: 80 } }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('parses the design template id', () => {
+    expect(
+      parseCustomizationData({ ...base, template: ' Gold-Frame ' }).template,
+    ).toBe('gold-frame');
+    expect(
+      parseCustomizationData({ ...base, template: 'none' }).template,
+    ).toBeUndefined();
+  });
+});
+
+describe('cropToPixels', () => {
+  it('converts percentages to a pixel region', () => {
+    expect(
+      cropToPixels({ x: 10, y: 5, width: 50, height: 60 }, 200, 100),
+    ).toEqual({ left: 20, top: 5, width: 100, height: 60 });
+  });
+
+  it('keeps crops at the edge inside the image', () => {
+    // 99.9 + 0.11 passes the parser's rounding tolerance
+    expect(
+      cropToPixels({ x: 99.9, y: 99.9, width: 0.11, height: 0.11 }, 100, 100),
+    ).toEqual({ left: 99, top: 99, width: 1, height: 1 });
+  });
+});
@@ -0,0 +1,590 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Source crop rectangle, expressed as percentages (0-100) of the source image
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixel region of a source image covered by a crop. Rounding is clamped so the
+ * region always lies inside the image and is at least 1px wide and high, even
+ * for crops at the edge that parseCustomizationData lets through its tolerance.
+ */
+export function cropToPixels(
+  crop: CropRect,
+  srcWidth: number,
+  srcHeight: number,
+): { left: number; top: number; width: number; height: number } {
+  const left = clamp(Math.round((crop.x / 100) * srcWidth), 0, srcWidth - 1);
+  const top = clamp(Math.round((crop.y / 100) * srcHeight), 0, srcHeight - 1);
+  return {
+    left,
+    top,
+    width: clamp(Math.round((crop.width / 100) * srcWidth), 1, srcWidth - left),
+    height: clamp(
+      Math.round((crop.height / 100) * srcHeight),
+      1,
+      srcHeight - top,
+    ),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * What fills the area outside the shape. A pattern uses the image uploaded
+ * alongside the photo (multipart field `backgroundImage`), tiled across the canvas.
+ */
+export type BackgroundOption =
+  | { type: 'transparent' }
+  | { type: 'color'; color: string }
+  | { type: 'pattern' };
+
+/** Legacy behaviour: shaped images were always flattened onto black */
+export const DEFAULT_BACKGROUND: BackgroundOption = {
+  type: 'color',
+  color: '#000000',
+};
+
+/**
+ * Rim traced along the inside of the shape outline
+ */
+export interface ShapeStroke {
+  color: string;
+  /** Stroke width as a percentage of the output width */
+  width: number;
+}
+
+/**
+ * Text rendered on top of the photo, inside the shape
+ */
+export interface TextLayer {
+  text: string;
+  /** Font id from the bundled font set (see GET /customizer/fonts) */
+  font: string;
+  /** Font size as a percentage of the output width */
+  size: number;
+  color: string;
+  /** Horizontal center of the text (0-100%) */
+  x: number;
+  /** Vertical center of the text (0-100%) */
+  y: number;
+  /** Follow the shape outline, centered on the outline point nearest to x/y */
+  curve?: boolean;
+}
+
+/**
+ * Photo filters applied before masking, with the semantics of the CSS filter
+ * functions of the same name so the storefront can preview them with `filter:`.
+ * Omitted fields leave the photo unchanged.
+ */
+export interface PhotoAdjustments {
+  /** Brightness factor (0.25-2, 1 = unchanged) */
+  brightness?: number;
+  /** Contrast factor (0.25-2, 1 = unchanged) */
+  contrast?: number;
+  /** Saturation factor (0-3, 1 = unchanged, 0 = gray) */
+  saturation?: number;
+  /** Grayscale amount (0-1) */
+  grayscale?: number;
+  /** Sepia amount (0-1) */
+  sepia?: number;
+  /** Sharpening radius in preview pixels (0-5), scaled up for print renders */
+  sharpen?: number;
+}
+
+/** Accepted range and neutral value of each adjustment */
+export const ADJUSTMENT_LIMITS: Record<
+  keyof PhotoAdjustments,
+  { min: number; max: number; neutral: number }
+> = {
+  brightness: { min: 0.25, max: 2, neutral: 1 },
+  contrast: { min: 0.25, max: 2, neutral: 1 },
+  saturation: { min: 0, max: 3, neutral: 1 },
+  grayscale: { min: 0, max: 1, neutral: 0 },
+  sepia: { min: 0, max: 1, neutral: 0 },
+  sharpen: { min: 0, max: 5, neutral: 0 },
+};
+
+/**
+ * Offline cut-out for photos taken against a plain backdrop (portraits, pets): the
+ * backdrop color is sampled from the photo border and keyed out. The stored original
+ * stays untouched; the cut-out is made again on every render.
+ */
+export interface BackgroundRemoval {
+  /** Color distance still keyed as backdrop, in percent of the black-white distance (1-50) */
+  tolerance: number;
+  /** Softening of the cut-out edge, in pixels of a 1024px copy of the photo (0-5) */
+  edge: number;
+}
+
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemoval = {
+  tolerance: 12,
+  edge: 1,
+};
+
+export const MAX_TEXT_LAYERS = 5;
+export const MAX_TEXT_LENGTH = 60;
+
+export interface CustomizationData {
+  /** Horizontal center position (0-100%) */
+  x: number;
+  /** Vertical center position (0-100%) */
+  y: number;
+  zoom: number;
+  shape: string;
+  /** Clockwise rotation in degrees, applied around the image center */
+  rotation?: number;
+  flipH?: boolean;
+  flipV?: boolean;
+  crop?: CropRect;
+  background?: BackgroundOption;
+  textLayers?: TextLayer[];
+  stroke?: ShapeStroke;
+  /** Soft edge: the photo fades out over this distance (percentage of the output width) */
+  feather?: number;
+  adjustments?: PhotoAdjustments;
+  /** Cut the subject out of a plain backdrop; the shape background shows behind it */
+  removeBackground?: BackgroundRemoval;
+  /** Design template id (frame, sticker, border, text art) layered over the shaped photo */
+  template?: string;
+}
+
+/**
+ * Parse customization fields from a multipart/JSON request body.
+ * Multipart values arrive as strings, so numbers and booleans are coerced here.
+ */
+export function parseCustomizationData(body: Fields): CustomizationData {
+  // 0 is a valid position, so check presence rather than truthiness
+  if (['x', 'y', 'zoom', 'shape'].some((field) => !hasValue(body?.[field]))) {
+    throw new BadRequestException('Missing required fields: x, y, zoom, shape');
+  }
+
+  return {
+    ...parseTransform(body),
+    shape: asText(body.shape).toLowerCase(),
+  };
+}
+
+/**
+ * Parse every customization field except the shape, for requests that render the
+ * same photo in several shapes (shape previews)
+ */
+export function parseTransform(body: Fields): Omit<CustomizationData, 'shape'> {
+  if (['x', 'y', 'zoom'].some((field) => !hasValue(body?.[field]))) {
+    throw new BadRequestException('Missing required fields: x, y, zoom');
+  }
+
+  const data: Omit<CustomizationData, 'shape'> = {
+    x: parseNumber(body.x, 'x'),
+    y: parseNumber(body.y, 'y'),
+    zoom: parseNumber(body.zoom, 'zoom'),
+  };
+
+  if (hasValue(body.rotation)) {
+    // Normalize to (-360, 360) so equivalent angles are stored the same way
+    data.rotation = parseNumber(body.rotation, 'rotation') % 360;
+  }
+
+  if (hasValue(body.flipH)) {
+    data.flipH = parseBoolean(body.flipH);
+  }
+
+  if (hasValue(body.flipV)) {
+    data.flipV = parseBoolean(body.flipV);
+  }
+
+  const crop = parseCrop(body);
+  if (crop) {
+    data.crop = crop;
+  }
+
+  const background = parseBackground(body);
+  if (background) {
+    data.background = background;
+  }
+
+  const stroke = parseStroke(body);
+  if (stroke) {
+    data.stroke = stroke;
+  }
+
+  if (hasValue(body.feather)) {
+    const feather = parseNumber(body.feather, 'feather');
+    if (feather < 0 || feather > 25) {
+      throw new BadRequestException('feather must be between 0 and 25');
+    }
+    if (feather > 0) {
+      data.feather = feather;
+    }
+  }
+
+  const textLayers = parseTextLayers(body.textLayers);
+  if (textLayers) {
+    data.textLayers = textLayers;
+  }
+
+  const adjustments = parseAdjustments(body);
+  if (adjustments) {
+    data.adjustments = adjustments;
+  }
+
+  const removeBackground = parseRemoveBackground(body);
+  if (removeBackground) {
+    data.removeBackground = removeBackground;
+  }
+
+  if (hasValue(body.template)) {
+    const template = asText(body.template).trim().toLowerCase();
+    if (template !== 'none') {
+      data.template = template;
+    }
+  }
+
+  return data;
+}
+
+/** Request body or a parsed JSON object field, with unchecked values */
+type Fields = Record<string, unknown>;
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+/** Text of a scalar value; objects and arrays have none */
+function asText(value: unknown): string {
+  return typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+    ? String(value)
+    : '';
+}
+
+/** Fields of an object value; anything else has none */
+function asFields(value: unknown): Fields {
+  return typeof value === 'object' && value !== null ? (value as Fields) : {};
+}
+
+/** Parse a field sent as a JSON string; other values are returned as they are */
+function parseJson(value: unknown, field: string): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    throw new BadRequestException(`${field} must be valid JSON`);
+  }
+}
+
+function parseNumber(value: unknown, field: string): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(asText(value));
+  if (!Number.isFinite(parsed)) {
+    throw new BadRequestException(`${field} must be a number`);
+  }
+  return parsed;
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  return ['true', '1', 'yes', 'on'].includes(asText(value).toLowerCase());
+}
+
+/**
+ * Accepts either `crop` (JSON string or object with x, y, width, height)
+ * or the flat multipart fields cropX, cropY, cropWidth, cropHeight.
+ */
+function parseCrop(body: Fields): CropRect | undefined {
+  let value: unknown = body.crop;
+
+  if (!hasValue(value) && hasValue(body.cropWidth)) {
+    value = {
+      x: body.cropX ?? 0,
+      y: body.cropY ?? 0,
+      width: body.cropWidth,
+      height: body.cropHeight,
+    };
+  }
+
+  if (!hasValue(value)) {
+    return undefined;
+  }
+
+  const raw = asFields(parseJson(value, 'crop'));
+  const crop: CropRect = {
+    x: parseNumber(raw.x ?? 0, 'crop.x'),
+    y: parseNumber(raw.y ?? 0, 'crop.y'),
+    width: parseNumber(raw.width, 'crop.width'),
+    height: parseNumber(raw.height, 'crop.height'),
+  };
+
+  if (
+    crop.x < 0 ||
+    crop.y < 0 ||
+    crop.width <= 0 ||
+    crop.height <= 0 ||
+    // Small tolerance for rounding in storefront percentage maths
+    crop.x + crop.width > 100.01 ||
+    crop.y + crop.height > 100.01
+  ) {
+    throw new BadRequestException(
+      'crop must be a rectangle inside the image, in percentages (0-100)',
+    );
+  }
+
+  return crop;
+}
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Accepts `background` as "transparent", "pattern", "color" (with `backgroundColor`)
+ * or directly as a hex color such as "#ffffff". Also accepts a JSON object.
+ */
+function parseBackground(body: Fields): BackgroundOption | undefined {
+  let raw: unknown = body.background;
+
+  if (!hasValue(raw)) {
+    return hasValue(body.backgroundColor)
+      ? { type: 'color', color: parseColor(body.backgroundColor) }
+      : undefined;
+  }
+
+  if (typeof raw === 'string' && raw.trim().startsWith('{')) {
+    raw = parseJson(raw, 'background');
+  }
+
+  if (typeof raw === 'object') {
+    const fields = asFields(raw);
+    return parseBackground({
+      background: fields.type,
+      backgroundColor: fields.color,
+    });
+  }
+
+  const mode = asText(raw).trim().toLowerCase();
+
+  if (mode === 'transparent') {
+    return { type: 'transparent' };
+  }
+
+  if (mode === 'pattern') {
+    return { type: 'pattern' };
+  }
+
+  if (mode === 'color') {
+    return { type: 'color', color: parseColor(body.backgroundColor) };
+  }
+
+  if (HEX_COLOR_PATTERN.test(mode)) {
+    return { type: 'color', color: parseColor(mode) };
+  }
+
+  throw new BadRequestException(
+    'background must be "transparent", "pattern", "color" or a hex color',
+  );
+}
+
+/**
+ * Accepts `stroke` as JSON { color, width } or the flat fields strokeColor, strokeWidth.
+ * A zero width means no stroke.
+ */
+function parseStroke(body: Fields): ShapeStroke | undefined {
+  let value: unknown = body.stroke;
+
+  if (!hasValue(value) && hasValue(body.strokeWidth)) {
+    value = { color: body.strokeColor, width: body.strokeWidth };
+  }
+
+  if (!hasValue(value)) {
+    return undefined;
+  }
+
+  const raw = asFields(parseJson(value, 'stroke'));
+  const width = parseNumber(raw.width, 'stroke.width');
+  if (width < 0 || width > 10) {
+    throw new BadRequestException('stroke.width must be between 0 and 10');
+  }
+  if (width === 0) {
+    return undefined;
+  }
+
+  return {
+    color: hasValue(raw.color) ? parseColor(raw.color) : '#ffffff',
+    width,
+  };
+}
+
+/**
+ * Accepts `adjustments` as JSON { brightness, contrast, saturation, grayscale, sepia, sharpen }
+ * or the same names as flat fields. grayscale and sepia also take "true"/"false".
+ * Neutral values are dropped; undefined when nothing is left.
+ */
+function parseAdjustments(body: Fields): PhotoAdjustments | undefined {
+  const names = Object.keys(ADJUSTMENT_LIMITS) as Array<keyof PhotoAdjustments>;
+  let fields: unknown = body.adjustments;
+
+  if (!hasValue(fields)) {
+    if (!names.some((name) => hasValue(body[name]))) {
+      return undefined;
+    }
+    fields = Object.fromEntries(names.map((name) => [name, body[name]]));
+  }
+
+  const raw = parseJson(fields, 'adjustments');
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new BadRequestException('adjustments must be an object');
+  }
+
+  const adjustments: PhotoAdjustments = {};
+  for (const name of names) {
+    let value = (raw as Fields)[name];
+    if (!hasValue(value)) continue;
+
+    if (
+      (name === 'grayscale' || name === 'sepia') &&
+      ['true', 'false'].includes(asText(value).toLowerCase())
+    ) {
+      value = parseBoolean(value) ? 1 : 0;
+    }
+
+    const parsed = parseNumber(value, `adjustments.${name}`);
+    const { min, max, neutral } = ADJUSTMENT_LIMITS[name];
+    if (parsed < min || parsed > max) {
+      throw new BadRequestException(
+        `adjustments.${name} must be between ${min} and ${max}`,
+      );
+    }
+    if (parsed !== neutral) {
+      adjustments[name] = parsed;
+    }
+  }
+
+  return Object.keys(adjustments).length > 0 ? adjustments : undefined;
+}
+
+/**
+ * Accepts `removeBackground` as a boolean ("true", "1") or JSON { tolerance, edge };
+ * with a boolean the flat fields removeBackgroundTolerance and removeBackgroundEdge
+ * refine it. Undefined when off.
+ */
+function parseRemoveBackground(body: Fields): BackgroundRemoval | undefined {
+  let value: unknown = body.removeBackground;
+  if (!hasValue(value)) {
+    return undefined;
+  }
+
+  if (typeof value === 'string' && value.trim().startsWith('{')) {
+    value = parseJson(value, 'removeBackground');
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    if (!parseBoolean(value)) {
+      return undefined;
+    }
+    value = {
+      tolerance: body.removeBackgroundTolerance,
+      edge: body.removeBackgroundEdge,
+    };
+  }
+
+  const raw = asFields(value);
+  const tolerance = hasValue(raw.tolerance)
+    ? parseNumber(raw.tolerance, 'removeBackground.tolerance')
+    : DEFAULT_BACKGROUND_REMOVAL.tolerance;
+  if (tolerance < 1 || tolerance > 50) {
+    throw new BadRequestException(
+      'removeBackground.tolerance must be between 1 and 50',
+    );
+  }
+
+  const edge = hasValue(raw.edge)
+    ? parseNumber(raw.edge, 'removeBackground.edge')
+    : DEFAULT_BACKGROUND_REMOVAL.edge;
+  if (edge < 0 || edge > 5) {
+    throw new BadRequestException(
+      'removeBackground.edge must be between 0 and 5',
+    );
+  }
+
+  return { tolerance, edge };
+}
+
+/**
+ * Normalize a hex color to #rrggbb
+ */
+function parseColor(value: unknown): string {
+  const color = asText(value).trim();
+  if (!HEX_COLOR_PATTERN.test(color)) {
+    throw new BadRequestException('Colors must be hex values like #ffffff');
+  }
+  const hex = color.slice(1).toLowerCase();
+  return hex.length === 3
+    ? `#${hex
+        .split('')
+        .map((c) => c + c)
+        .join('')}`
+    : `#${hex}`;
+}
+
+/**
+ * Accepts `textLayers` as a JSON array (string or parsed) of
+ * { text, font?, size?, color?, x?, y?, curve? }. Font ids are checked at render time.
+ */
+function parseTextLayers(value: unknown): TextLayer[] | undefined {
+  if (!hasValue(value)) {
+    return undefined;
+  }
+
+  const raw = parseJson(value, 'textLayers');
+  if (!Array.isArray(raw)) {
+    throw new BadRequestException('textLayers must be an array');
+  }
+
+  if (raw.length > MAX_TEXT_LAYERS) {
+    throw new BadRequestException(
+      `At most ${MAX_TEXT_LAYERS} text layers are allowed`,
+    );
+  }
+
+  const layers = (raw as unknown[]).map((item, index): TextLayer => {
+    const layer = asFields(item);
+    const field = (name: string) => `textLayers[${index}].${name}`;
+    const text = asText(layer.text).trim();
+
+    if (!text) {
+      throw new BadRequestException(`${field('text')} is required`);
+    }
+    if (Array.from(text).length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `${field('text')} must be at most ${MAX_TEXT_LENGTH} characters`,
+      );
+    }
+
+    const size = hasValue(layer.size)
+      ? parseNumber(layer.size, field('size'))
+      : 8;
+    if (size < 2 || size > 40) {
+      throw new BadRequestException(
+        `${field('size')} must be between 2 and 40`,
+      );
+    }
+
+    return {
+      text,
+      font: hasValue(layer.font) ? asText(layer.font).toLowerCase() : 'roboto',
+      size,
+      color: hasValue(layer.color) ? parseColor(layer.color) : '#ffffff',
+      x: hasValue(layer.x) ? parseNumber(layer.x, field('x')) : 50,
+      y: hasValue(layer.y) ? parseNumber(layer.y, field('y')) : 85,
+      curve: hasValue(layer.curve) ? parseBoolean(layer.curve) : false,
+    };
+  });
+
+  return layers.length > 0 ? layers : undefined;
+}
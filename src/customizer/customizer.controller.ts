@@ -8,167 +8,1237 @@ import {
   Query,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   HttpStatus,
   HttpException,
+  BadRequestException,
   Logger,
   Headers,
   Res,
+  UseGuards,
 } from '@nestjs/common';
 import express from 'express';
 import { Readable } from 'stream';
-import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+} from '@nestjs/platform-express';
 import { CustomizerService } from './customizer.service';
+import { ShapeRegistryService } from './shape-registry.service';
+import { parseCustomizationData, parseTransform } from './customization-data';
+import { ProductSpecService } from './product-spec.service';
+import { StaffSecretGuard, StrictStaffSecretGuard } from './staff-secret.guard';
+import { TextLayerService } from './text-layer.service';
+import { MockupService, parseMockupPlacement } from './mockup.service';
+import {
+  DesignTemplateService,
+  parseTemplateAnchor,
+} from './design-template.service';
+
+/** Text fields of a multipart form */
+type FormFields = Record<string, string | undefined>;
 
 @Controller('customizer')
 export class CustomizerController {
   private readonly logger = new Logger(CustomizerController.name);
 
-  constructor(private readonly customizerService: CustomizerService) {}
+  constructor(
+    private readonly customizerService: CustomizerService,
+    private readonly shapeRegistry: ShapeRegistryService,
+    private readonly productSpecService: ProductSpecService,
+    private readonly textLayerService: TextLayerService,
+    private readonly mockupService: MockupService,
+    private readonly designTemplateService: DesignTemplateService,
+  ) {}
+
+  /**
+   * Upload image with customization data
+   * POST /customizer/upload
+   *
+   * Form Data:
+   * - file: PNG, JPG, WebP, AVIF or HEIC image (stored as PNG/JPEG, EXIF stripped)
+   * - session: unique session ID (e.g., sess_abcd123)
+   * - productId: product ID for folder organization
+   * - x: horizontal position (0-100%)
+   * - y: vertical position (0-100%)
+   * - zoom: zoom level (0.1-5, values outside are clamped)
+   * - shape: registered shape id (see GET /customizer/shapes)
+   * - slot: print slot id, required for products with slots (see GET /customizer/product-specs/:productId).
+   *   Each slot keeps its own photo, customization and renders; see GET /customizer/session/:sessionId/layout
+   * - rotation (optional): clockwise rotation in degrees, any angle
+   * - flipH / flipV (optional): mirror horizontally / vertically ("true" or "1")
+   * - crop (optional): source crop as JSON { x, y, width, height } in percentages,
+   *   or the flat fields cropX, cropY, cropWidth, cropHeight
+   * - background (optional): "transparent", "pattern", "color" or a hex color (default black)
+   * - backgroundColor (optional): hex color used with background=color
+   * - backgroundImage (optional): image tile (same formats as file), required for background=pattern
+   * - stroke (optional): JSON { color, width } rim along the inside of the outline,
+   *   or the flat fields strokeColor, strokeWidth. width is a percentage of the image width
+   * - feather (optional): soft-edge distance as a percentage of the image width
+   * - adjustments (optional): JSON { brightness, contrast, saturation, grayscale, sepia, sharpen }
+   *   with CSS filter semantics (1 = unchanged for the first three, 0 for the rest),
+   *   or the same names as flat fields. Recorded in the manifest for production.
+   * - removeBackground (optional): "true" to cut the subject out of a plain backdrop
+   *   (portraits, pets), or JSON { tolerance, edge }; flat fields removeBackgroundTolerance
+   *   (1-50, default 12) and removeBackgroundEdge (0-5, default 1). Done locally on every
+   *   render; the stored original is kept unmodified and `background` fills behind the subject.
+   * - template (optional): design template id (see GET /customizer/templates), composited
+   *   over the shaped photo in the preview, mockup and print file
+   * - textLayers (optional): JSON array of { text, font, size, color, x, y, curve }.
+   *   size is a percentage of the image width, x/y the text center in percentages,
+   *   font an id from GET /customizer/fonts. Text must stay inside the shape's safe area.
+   * - minDpi (optional): reject the upload when the effective print DPI is below this
+   *   (defaults to UPLOAD_MIN_DPI; see POST /customizer/quality-check)
+   * - shop (optional): shop domain for Shopify integration
+   * - accessToken (optional): Shopify access token
+   *
+   * Returns the watermarked 500px preview (shapedUrl), plus a product mockup (mockupUrl)
+   * when the product has a mockup template. The clean print-ready render (printFileId),
+   * sized from the product's print spec, is kept in the private production bucket
+   * (see GET /customizer/production/:sessionId) with the shape's laser cut outline as
+   * SVG and DXF (cutFileIds, see GET /customizer/production/:sessionId/cut-path).
+   * A manifest.json recording the customization is stored alongside
+   * (see GET /customizer/session/:sessionId/manifest).
+   */
+  @Post('upload')
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'file', maxCount: 1 },
+        { name: 'backgroundImage', maxCount: 1 },
+      ],
+      { limits: { fileSize: 10 * 1024 * 1024 } },
+    ),
+  )
+  async uploadImage(
+    @UploadedFiles()
+    files: {
+      file?: Express.Multer.File[];
+      backgroundImage?: Express.Multer.File[];
+    },
+    @Body()
+    body: {
+      session: string;
+      productId: string;
+      x: string;
+      y: string;
+      zoom: string;
+      shape: string;
+      slot?: string;
+      rotation?: string;
+      flipH?: string;
+      flipV?: string;
+      crop?: string;
+      background?: string;
+      backgroundColor?: string;
+      textLayers?: string;
+      stroke?: string;
+      strokeColor?: string;
+      strokeWidth?: string;
+      feather?: string;
+      adjustments?: string;
+      brightness?: string;
+      contrast?: string;
+      saturation?: string;
+      grayscale?: string;
+      sepia?: string;
+      sharpen?: string;
+      removeBackground?: string;
+      removeBackgroundTolerance?: string;
+      removeBackgroundEdge?: string;
+      template?: string;
+      minDpi?: string;
+      shop?: string;
+      accessToken?: string;
+    },
+  ): Promise<any> {
+    const file = files?.file?.[0] as Express.Multer.File;
+    try {
+      // Accept multiple session field names for compatibility with various theme implementations
+      const resolvedSession =
+        body.session ||
+        (body as any).sessionId ||
+        (body as any).session_id ||
+        '';
+      const resolvedProductId =
+        body.productId || (body as any).product_id || '';
+
+      this.logger.log(
+        `Upload request received for session: ${resolvedSession}, productId: ${resolvedProductId}`,
+      );
+
+      if (!resolvedSession) {
+        throw new HttpException(
+          'Session ID is required',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      if (!resolvedProductId) {
+        throw new HttpException(
+          'Product ID is required',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      // Parse customization data (x, y, zoom, shape plus optional rotation/flip/crop)
+      const customizationData = parseCustomizationData(body);
+
+      // Debug: log incoming customization payload and file info for QA
+      try {
+        this.logger.debug(
+          `Incoming upload payload -> session=${resolvedSession} productId=${resolvedProductId} x=${customizationData.x} y=${customizationData.y} zoom=${customizationData.zoom} shape=${customizationData.shape} rotation=${customizationData.rotation ?? 0} flipH=${!!customizationData.flipH} flipV=${!!customizationData.flipV} crop=${customizationData.crop ? JSON.stringify(customizationData.crop) : 'none'} adjustments=${customizationData.adjustments ? JSON.stringify(customizationData.adjustments) : 'none'} background=${customizationData.background ? JSON.stringify(customizationData.background) : 'default'} textLayers=${customizationData.textLayers?.length ?? 0} stroke=${customizationData.stroke ? JSON.stringify(customizationData.stroke) : 'none'} feather=${customizationData.feather ?? 0} removeBackground=${customizationData.removeBackground ? JSON.stringify(customizationData.removeBackground) : 'none'} template=${customizationData.template ?? 'none'} file=${file && file.originalname ? file.originalname : 'n/a'} size=${file && file.size ? file.size : 0}`,
+        );
+      } catch (e) {
+        // swallow logging errors to avoid breaking upload flow
+      }
+
+      // Validate shape against the shape registry
+      const validShapes = await this.shapeRegistry.getShapeIds();
+      if (!validShapes.has(customizationData.shape)) {
+        throw new HttpException(
+          `Invalid shape. Must be one of: ${Array.from(validShapes).join(', ')}`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const uploadResult = await this.customizerService.uploadSessionImage(
+        resolvedSession,
+        resolvedProductId,
+        file,
+        customizationData,
+        {
+          backgroundImage: files?.backgroundImage?.[0],
+          minDpi: body.minDpi
+            ? parseFloat(body.minDpi) || undefined
+            : undefined,
+          slot: body.slot || undefined,
+        },
+      );
+
+      // Optionally handle Shopify integration here
+      if (body.shop && body.accessToken) {
+        this.logger.debug(`Shopify integration detected - shop: ${body.shop}`);
+        // TODO: Implement Shopify API calls if needed
+      }
+
+      return {
+        statusCode: HttpStatus.CREATED,
+        success: true,
+        data: uploadResult,
+        message: 'Image uploaded successfully',
+      };
+    } catch (error) {
+      this.logger.error('Upload failed:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Upload failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List every shape available to the customizer (built-in and staff-registered)
+   * GET /customizer/shapes
+   */
+  @Get('shapes')
+  async listShapes(): Promise<any> {
+    try {
+      const shapes = await this.shapeRegistry.listShapes();
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: shapes,
+        message: 'Shapes retrieved',
+      };
+    } catch (error) {
+      this.logger.error('Failed to list shapes:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to list shapes',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Check whether an image is good enough to print before uploading it
+   * POST /customizer/quality-check
+   *
+   * Form Data:
+   * - file: image to check
+   * - productId: product whose print spec (size, DPI) is used
+   * - shape: registered shape id
+   * - zoom (optional, default 1), crop (optional): same as POST /customizer/upload
+   * - slot (optional): check against one print slot's share of the product
+   *
+   * Returns a good/warn/reject verdict with reasons and the effective DPI.
+   */
+  @Post('quality-check')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }),
+  )
+  async checkQuality(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: FormFields,
+  ): Promise<any> {
+    try {
+      const productId = body.productId || body.product_id || '';
+      const customizationData = parseCustomizationData({
+        x: '50',
+        y: '50',
+        zoom: '1',
+        ...body,
+      });
+
+      const report = await this.customizerService.checkImageQuality(
+        file,
+        productId,
+        customizationData,
+        body.slot || undefined,
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: report,
+        message: `Image quality: ${report.verdict}`,
+      };
+    } catch (error) {
+      this.logger.error('Quality check failed:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Quality check failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Suggest a starting position for a photo so its subject sits centered in the shape
+   * POST /customizer/suggest-framing
+   *
+   * Form Data:
+   * - file: image to analyze
+   * - shape: registered shape id
+   * - productId (optional): caps the zoom at the recommended print DPI and adds a quality report
+   * - crop, flipH, flipV (optional): same as POST /customizer/upload
+   *
+   * Returns x, y and zoom with the same meaning as the upload fields, plus the detected
+   * focus point and subject box in percentages of the (cropped) photo.
+   * The analysis runs locally; nothing is stored.
+   */
+  @Post('suggest-framing')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }),
+  )
+  async suggestFraming(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: FormFields,
+  ): Promise<any> {
+    try {
+      const productId = body.productId || body.product_id || '';
+      const customizationData = parseCustomizationData({
+        ...body,
+        x: '50',
+        y: '50',
+        zoom: '1',
+      });
+
+      const suggestion = await this.customizerService.suggestImageFraming(
+        file,
+        customizationData,
+        productId || undefined,
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: suggestion,
+        message: 'Framing suggested',
+      };
+    } catch (error) {
+      this.logger.error('Framing suggestion failed:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Framing suggestion failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Preview one photo in every registered shape for the shape picker
+   * POST /customizer/previews
+   *
+   * Form Data:
+   * - file: image to preview
+   * - x, y, zoom, rotation, flipH, flipV, crop, adjustments, removeBackground, background,
+   *   stroke, feather, template (optional): same as POST /customizer/upload (x/y default to 50, zoom to 1)
+   * - backgroundImage (optional): tile for background=pattern
+   * - shapes (optional): comma-separated shape ids to limit the previews to
+   * - width (optional): thumbnail width in pixels (64-500, default 200)
+   *
+   * Returns WebP thumbnails as data URLs. Nothing is stored in the session folder;
+   * POST /customizer/upload once the customer has picked a shape.
+   */
+  @Post('previews')
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'file', maxCount: 1 },
+        { name: 'backgroundImage', maxCount: 1 },
+      ],
+      { limits: { fileSize: 10 * 1024 * 1024 } },
+    ),
+  )
+  async renderPreviews(
+    @UploadedFiles()
+    files: {
+      file?: Express.Multer.File[];
+      backgroundImage?: Express.Multer.File[];
+    },
+    @Body() body: FormFields,
+  ): Promise<any> {
+    try {
+      // The shape is chosen per preview; parse everything else like an upload
+      const customizationData = parseTransform({
+        x: '50',
+        y: '50',
+        zoom: '1',
+        ...body,
+      });
+      const shapes = body.shapes
+        ? String(body.shapes)
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean)
+        : undefined;
+
+      const result = await this.customizerService.renderShapePreviews(
+        files?.file?.[0] as Express.Multer.File,
+        customizationData,
+        {
+          width: body.width ? parseInt(body.width, 10) || undefined : undefined,
+          shapes,
+          backgroundImage: files?.backgroundImage?.[0],
+        },
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: result,
+        message: `Rendered ${result.previews.length} shape preview(s)`,
+      };
+    } catch (error) {
+      this.logger.error('Shape previews failed:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Shape previews failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List the bundled fonts available to text layers
+   * GET /customizer/fonts
+   */
+  @Get('fonts')
+  listFonts(): {
+    statusCode: HttpStatus;
+    success: boolean;
+    data: Array<{ id: string; name: string }>;
+    message: string;
+  } {
+    return {
+      statusCode: HttpStatus.OK,
+      success: true,
+      data: this.textLayerService.listFonts(),
+      message: 'Fonts retrieved',
+    };
+  }
+
+  /**
+   * Register or update a custom shape (staff only)
+   * POST /customizer/shapes
+   * Headers: x-staff-secret (required when STAFF_SECRET configured)
+   * Body: { id, name, path, viewBox?, aspectRatio? }
+   */
+  @Post('shapes')
+  @UseGuards(StaffSecretGuard)
+  async registerShape(
+    @Body()
+    body: {
+      id: string;
+      name: string;
+      path: string;
+      viewBox?: string;
+      aspectRatio?: number;
+    },
+  ): Promise<any> {
+    try {
+      this.logger.log(`Register shape request: ${body?.id}`);
+
+      const shape = await this.shapeRegistry.registerShape(body);
+
+      return {
+        statusCode: HttpStatus.CREATED,
+        success: true,
+        data: shape,
+        message: 'Shape registered',
+      };
+    } catch (error) {
+      this.logger.error('Failed to register shape:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to register shape',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Remove a custom shape (staff only)
+   * DELETE /customizer/shapes/:shapeId
+   */
+  @Delete('shapes/:shapeId')
+  @UseGuards(StaffSecretGuard)
+  async removeShape(@Param('shapeId') shapeId: string): Promise<any> {
+    try {
+      this.logger.log(`Remove shape request: ${shapeId}`);
+
+      await this.shapeRegistry.removeShape(shapeId);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: { id: shapeId },
+        message: 'Shape removed',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to remove shape ${shapeId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to remove shape',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List the design template catalog (frames, stickers, borders, text art)
+   * GET /customizer/templates?kind=...&tag=...&shape=...
+   *
+   * kind, tag and shape narrow the list; shape keeps templates made for that shape
+   * or for any shape.
+   */
+  @Get('templates')
+  async listTemplates(
+    @Query('kind') kind?: string,
+    @Query('tag') tag?: string,
+    @Query('shape') shape?: string,
+  ): Promise<any> {
+    try {
+      const templates = await this.designTemplateService.listTemplates({
+        kind,
+        tag,
+        shape,
+      });
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: templates,
+        message: 'Design templates retrieved',
+      };
+    } catch (error) {
+      this.logger.error('Failed to list design templates:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to list design templates',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Create or update a design template (staff only)
+   * POST /customizer/templates
+   * Headers: x-staff-secret (required; 503 while STAFF_SECRET is not configured)
+   *
+   * Form Data:
+   * - asset: transparent PNG (or WebP/AVIF, stored as PNG) or SVG without scripts, event
+   *   handlers or external references; required for a new template
+   * - id: lowercase id used in the customization's `template` field
+   * - name, kind: frame, sticker, border or text-art
+   * - tags (optional): comma-separated or JSON list, e.g. "mothers-day,spring"
+   * - shapes (optional): shape ids the template is made for (default any)
+   * - anchor (optional): JSON { position, width, offsetX, offsetY, clip } or the flat fields
+   *   anchorPosition, anchorWidth, anchorOffsetX, anchorOffsetY, clip. position is "fill"
+   *   (default, stretched over the trim area) or center, top, bottom, left, right,
+   *   top-left, top-right, bottom-left, bottom-right; width and offsets are percentages
+   *   of the trim size; clip (default true) keeps the asset inside the shape.
+   *
+   * Omitted fields keep their current values.
+   */
+  @Post('templates')
+  @UseGuards(StrictStaffSecretGuard)
+  @UseInterceptors(
+    FileInterceptor('asset', { limits: { fileSize: 5 * 1024 * 1024 } }),
+  )
+  async saveTemplate(
+    @UploadedFile() asset: Express.Multer.File,
+    @Body() body: FormFields,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Save design template request: ${body?.id}`);
+
+      const template = await this.designTemplateService.saveTemplate({
+        id: body.id ?? '',
+        name: body.name,
+        kind: body.kind,
+        tags: body.tags,
+        shapes: body.shapes,
+        anchor: parseTemplateAnchor(body),
+        asset,
+      });
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: template,
+        message: 'Design template saved',
+      };
+    } catch (error) {
+      this.logger.error('Failed to save design template:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save design template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Remove a design template and its asset (staff only)
+   * DELETE /customizer/templates/:templateId
+   * Headers: x-staff-secret (required when STAFF_SECRET configured)
+   */
+  @Delete('templates/:templateId')
+  @UseGuards(StaffSecretGuard)
+  async deleteTemplate(@Param('templateId') templateId: string): Promise<any> {
+    try {
+      this.logger.log(`Delete design template request: ${templateId}`);
+
+      await this.designTemplateService.deleteTemplate(templateId);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: { id: templateId },
+        message: 'Design template deleted',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete design template ${templateId}:`,
+        error,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to delete design template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get the print spec (physical size, DPI, bleed, kerf, print slots) used for a product's print render
+   * GET /customizer/product-specs/:productId
+   */
+  @Get('product-specs/:productId')
+  async getProductSpec(@Param('productId') productId: string): Promise<any> {
+    try {
+      const spec = await this.productSpecService.getSpec(productId);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: spec,
+        message: 'Product spec retrieved',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get product spec for ${productId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to get product spec',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Create or update a product's print spec (staff only)
+   * POST /customizer/product-specs/:productId
+   * Headers: x-staff-secret (required when STAFF_SECRET configured)
+   * Body: { widthMm, heightMm?, dpi, bleedMm?, kerfMm?, slots? }
+   *
+   * kerfMm: laser cut width (0-2 mm); cut paths are offset by half of it.
+   * slots: [{ id, label?, x, y, width, height, shapes? }] for products taking several
+   * photos (locket front/back, collage cells). Rectangles are percentages of the trim and
+   * need a fixed heightMm; shapes limits the accepted shape ids. Omit to keep the saved
+   * slots, send [] to remove them.
+   */
+  @Post('product-specs/:productId')
+  @UseGuards(StaffSecretGuard)
+  async saveProductSpec(
+    @Param('productId') productId: string,
+    @Body()
+    body: {
+      widthMm: number;
+      heightMm?: number;
+      dpi: number;
+      bleedMm?: number;
+      kerfMm?: number;
+      slots?: unknown;
+    },
+  ): Promise<any> {
+    try {
+      this.logger.log(`Save product spec request for: ${productId}`);
+
+      const spec = await this.productSpecService.saveSpec(productId, body);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: spec,
+        message: 'Product spec saved',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to save product spec for ${productId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to save product spec',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get the mockup template (product photo and design placement) of a product
+   * GET /customizer/mockups/:productId
+   */
+  @Get('mockups/:productId')
+  async getMockupTemplate(@Param('productId') productId: string): Promise<any> {
+    try {
+      const template = await this.mockupService.getTemplate(productId);
+      if (!template) {
+        throw new HttpException(
+          `No mockup template for product ${productId}`,
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: template,
+        message: 'Mockup template retrieved',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get mockup template for ${productId}:`,
+        error,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to get mockup template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Create or update a product's mockup template (staff only)
+   * POST /customizer/mockups/:productId
+   * Headers: x-staff-secret (required when STAFF_SECRET configured)
+   *
+   * Form Data:
+   * - baseImage: product photo (required for a new template)
+   * - overlayImage (optional): PNG with transparency drawn over the design,
+   *   e.g. a glass reflection or frame edge; stretched to the photo size
+   * - quad: JSON [[x, y], ...] corners top-left, top-right, bottom-right, bottom-left
+   *   in percentages of the photo, or rect: JSON { x, y, width, height } in percentages
+   * - cutout (optional, default true): place only the shape instead of the customer's background
+   * - removeOverlay (optional): "true" to drop the current overlay
+   *
+   * Uploads and re-renders for the product then also produce a mockup image.
+   */
+  @Post('mockups/:productId')
+  @UseGuards(StaffSecretGuard)
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'baseImage', maxCount: 1 },
+        { name: 'overlayImage', maxCount: 1 },
+      ],
+      { limits: { fileSize: 10 * 1024 * 1024 } },
+    ),
+  )
+  async saveMockupTemplate(
+    @Param('productId') productId: string,
+    @UploadedFiles()
+    files: {
+      baseImage?: Express.Multer.File[];
+      overlayImage?: Express.Multer.File[];
+    },
+    @Body() body: FormFields,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Save mockup template request for: ${productId}`);
+
+      const hasPlacement = !!(body.quad || body.rect);
+      const parseFlag = (value: string | undefined) =>
+        value === undefined || value === ''
+          ? undefined
+          : ['true', '1', 'yes', 'on'].includes(value.toLowerCase());
+
+      const template = await this.mockupService.saveTemplate(productId, {
+        baseImage: files?.baseImage?.[0],
+        overlayImage: files?.overlayImage?.[0],
+        removeOverlay: parseFlag(body.removeOverlay),
+        quad: hasPlacement ? parseMockupPlacement(body) : undefined,
+        cutout: parseFlag(body.cutout),
+      });
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: template,
+        message: 'Mockup template saved',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to save mockup template for ${productId}:`,
+        error,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save mockup template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Remove a product's mockup template (staff only)
+   * DELETE /customizer/mockups/:productId
+   * Headers: x-staff-secret (required when STAFF_SECRET configured)
+   */
+  @Delete('mockups/:productId')
+  @UseGuards(StaffSecretGuard)
+  async deleteMockupTemplate(
+    @Param('productId') productId: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Delete mockup template request for: ${productId}`);
+
+      await this.mockupService.deleteTemplate(productId);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: { productId },
+        message: 'Mockup template deleted',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete mockup template for ${productId}:`,
+        error,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to delete mockup template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Cleanup all files for a session
+   * DELETE /customizer/cleanup/:sessionId
+   *
+   * Removes all files in the session folder and the folder itself
+   */
+  @Delete('cleanup/:sessionId')
+  async cleanupSession(@Param('sessionId') sessionId: string): Promise<any> {
+    try {
+      this.logger.log(`Cleanup request received for session: ${sessionId}`);
+
+      const result = await this.customizerService.deleteSessionFiles(sessionId);
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: result,
+        message: 'Session files deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(`Cleanup failed for session ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Cleanup failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 
   /**
-   * Upload image with customization data
-   * POST /customizer/upload
+   * Re-render a design from the original already stored for the session, without
+   * uploading the photo again
+   * POST /customizer/session/:sessionId/render
    *
-   * Form Data:
-   * - file: PNG or JPG image file
-   * - session: unique session ID (e.g., sess_abcd123)
-   * - productId: product ID for folder organization
-   * - x: horizontal position (0-100%)
-   * - y: vertical position (0-100%)
-   * - zoom: zoom level (0.5-3.0)
-   * - shape: shape type (circle, heart, rectangle)
-   * - shop (optional): shop domain for Shopify integration
-   * - accessToken (optional): Shopify access token
+   * Body (JSON or form): productId plus the customization fields of
+   * POST /customizer/upload (x, y, zoom, shape, rotation, crop, background, textLayers, ...),
+   * and slot for products with print slots.
+   * A pattern background reuses the backgroundImage stored with the upload.
    */
-  @Post('upload')
-  @UseInterceptors(
-    FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }),
-  )
-  async uploadImage(
-    @UploadedFile() file: Express.Multer.File,
+  @Post('session/:sessionId/render')
+  async renderSession(
+    @Param('sessionId') sessionId: string,
     @Body()
     body: {
-      session: string;
-      productId: string;
-      x: string;
-      y: string;
-      zoom: string;
-      shape: string;
-      shop?: string;
-      accessToken?: string;
+      productId?: string;
+      product_id?: string;
+      slot?: string;
+      minDpi?: string | number;
+      /** Customization fields, see parseCustomizationData */
+      [field: string]: unknown;
     },
   ): Promise<any> {
     try {
-      // Accept multiple session field names for compatibility with various theme implementations
-      const resolvedSession = body.session || (body as any).sessionId || (body as any).session_id || '';
-      const resolvedProductId = body.productId || (body as any).product_id || '';
-
-      this.logger.log(`Upload request received for session: ${resolvedSession}, productId: ${resolvedProductId}`);
+      const productId = body.productId || body.product_id || '';
+      this.logger.log(
+        `Re-render request for session: ${sessionId}, productId: ${productId}`,
+      );
 
-      if (!resolvedSession) {
+      if (!productId) {
         throw new HttpException(
-          'Session ID is required',
+          'Product ID is required',
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      if (!resolvedProductId) {
+      const customizationData = parseCustomizationData(body);
+      const minDpi = body.minDpi
+        ? parseFloat(String(body.minDpi)) || undefined
+        : undefined;
+
+      const result = await this.customizerService.renderSessionImage(
+        sessionId,
+        productId,
+        customizationData,
+        { minDpi, slot: body.slot || undefined },
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: result,
+        message: 'Design re-rendered successfully',
+      };
+    } catch (error) {
+      this.logger.error(`Re-render failed for ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Re-render failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Return the manifest of a session-product folder: the full customization payload,
+   * input file hash, render sizes, creation time and app version
+   * GET /customizer/session/:sessionId/manifest?productId=...&slot=...
+   */
+  @Get('session/:sessionId/manifest')
+  async getSessionManifest(
+    @Param('sessionId') sessionId: string,
+    @Query('productId') productId: string,
+    @Query('slot') slot?: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(
+        `Manifest request for session: ${sessionId}, productId: ${productId}`,
+      );
+
+      if (!productId) {
         throw new HttpException(
           'Product ID is required',
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      if (!body.x || !body.y || !body.zoom || !body.shape) {
+      const manifest = await this.customizerService.getSessionManifest(
+        sessionId,
+        productId,
+        slot,
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: manifest,
+        message: 'Manifest retrieved',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get manifest for ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to retrieve manifest',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List the previous renders of a session-product, newest first
+   * GET /customizer/session/:sessionId/history?productId=...&slot=...
+   *
+   * Every upload, re-render and revert archives the design it replaces; the oldest
+   * entries beyond CUSTOMIZER_HISTORY_LIMIT (default 10) are dropped.
+   */
+  @Get('session/:sessionId/history')
+  async getSessionHistory(
+    @Param('sessionId') sessionId: string,
+    @Query('productId') productId: string,
+    @Query('slot') slot?: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(
+        `History request for session: ${sessionId}, productId: ${productId}`,
+      );
+
+      if (!productId) {
         throw new HttpException(
-          'Missing required fields: x, y, zoom, shape',
+          'Product ID is required',
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      // Parse customization data
-      const customizationData = {
-        x: parseFloat(body.x),
-        y: parseFloat(body.y),
-        zoom: parseFloat(body.zoom),
-        shape: body.shape.toLowerCase(),
-      };
+      const history = await this.customizerService.getSessionHistory(
+        sessionId,
+        productId,
+        slot,
+      );
 
-      // Debug: log incoming customization payload and file info for QA
-      try {
-        this.logger.debug(
-          `Incoming upload payload -> session=${resolvedSession} productId=${resolvedProductId} x=${customizationData.x} y=${customizationData.y} zoom=${customizationData.zoom} shape=${customizationData.shape} file=${file && file.originalname ? file.originalname : 'n/a'} size=${file && file.size ? file.size : 0}`,
-        );
-      } catch (e) {
-        // swallow logging errors to avoid breaking upload flow
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: history,
+        message: `${history.entries.length} previous render(s) found`,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get history for ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to retrieve history',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Promote an earlier render back to the latest design of a session-product
+   * POST /customizer/session/:sessionId/history/:entryId/revert
+   * Body: { productId, slot? }
+   *
+   * The current design is archived first, so the revert itself can be undone.
+   */
+  @Post('session/:sessionId/history/:entryId/revert')
+  async revertSessionRender(
+    @Param('sessionId') sessionId: string,
+    @Param('entryId') entryId: string,
+    @Body() body: { productId?: string; product_id?: string; slot?: string },
+  ): Promise<any> {
+    try {
+      const productId = body?.productId || body?.product_id || '';
+      this.logger.log(
+        `Revert request for session: ${sessionId}, productId: ${productId}, entry: ${entryId}`,
+      );
 
-      // Validate shape
-      const validShapes = ['circle', 'heart', 'rectangle'];
-      if (!validShapes.includes(customizationData.shape)) {
+      if (!productId) {
         throw new HttpException(
-          `Invalid shape. Must be one of: ${validShapes.join(', ')}`,
+          'Product ID is required',
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      const uploadResult = await this.customizerService.uploadSessionImage(
-        resolvedSession,
-        resolvedProductId,
-        file,
-        customizationData as any,
+      const result = await this.customizerService.revertSessionRender(
+        sessionId,
+        productId,
+        entryId,
+        body?.slot || undefined,
       );
 
-      // Optionally handle Shopify integration here
-      if (body.shop && body.accessToken) {
-        this.logger.debug(`Shopify integration detected - shop: ${body.shop}`);
-        // TODO: Implement Shopify API calls if needed
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: result,
+        message: 'Design reverted successfully',
+      };
+    } catch (error) {
+      this.logger.error(`Revert failed for ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Revert failed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Compose the slot designs of a session-product into the final product layout
+   * GET /customizer/session/:sessionId/layout?productId=...
+   *
+   * Returns every slot with its placement and current files (shapedUrl, printFileId,
+   * customization), the slots still missing, a watermarked layout preview (layoutUrl)
+   * and, once all slots are filled, the clean composed print file (printLayoutFileId,
+   * private; see GET /customizer/production/:sessionId).
+   */
+  @Get('session/:sessionId/layout')
+  async getSessionLayout(
+    @Param('sessionId') sessionId: string,
+    @Query('productId') productId: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(
+        `Layout request for session: ${sessionId}, productId: ${productId}`,
+      );
+
+      if (!productId) {
+        throw new HttpException(
+          'Product ID is required',
+          HttpStatus.BAD_REQUEST,
+        );
       }
 
+      const layout = await this.customizerService.getSessionLayout(
+        sessionId,
+        productId,
+      );
+
       return {
-        statusCode: HttpStatus.CREATED,
+        statusCode: HttpStatus.OK,
         success: true,
-        data: uploadResult,
-        message: 'Image uploaded successfully',
+        data: layout,
+        message: layout.complete
+          ? 'Layout composed'
+          : `Layout composed; missing slot(s): ${layout.missingSlots.join(', ')}`,
       };
     } catch (error) {
-      this.logger.error('Upload failed:', error);
+      this.logger.error(`Failed to compose layout for ${sessionId}:`, error);
       if (error instanceof HttpException) {
         throw error;
       }
       throw new HttpException(
-        error instanceof Error ? error.message : 'Upload failed',
+        error instanceof Error ? error.message : 'Failed to compose layout',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   /**
-   * Cleanup all files for a session
-   * DELETE /customizer/cleanup/:sessionId
+   * Renew the URLs of session files once their signed URLs expire
+   * POST /customizer/session/:sessionId/asset-urls
+   * Body: { fileIds: string[] } (file ids of earlier responses)
    *
-   * Removes all files in the session folder and the folder itself
+   * Returns `urls` keyed by file id and `expiresIn` in seconds (null when the
+   * assets bucket is public and URLs do not expire).
    */
-  @Delete('cleanup/:sessionId')
-  async cleanupSession(@Param('sessionId') sessionId: string): Promise<any> {
+  @Post('session/:sessionId/asset-urls')
+  async refreshAssetUrls(
+    @Param('sessionId') sessionId: string,
+    @Body() body: { fileIds?: string[] },
+  ): Promise<any> {
     try {
-      this.logger.log(`Cleanup request received for session: ${sessionId}`);
-
-      const result = await this.customizerService.deleteSessionFiles(sessionId);
+      const result = await this.customizerService.refreshAssetUrls(
+        sessionId,
+        body?.fileIds ?? [],
+      );
 
       return {
         statusCode: HttpStatus.OK,
         success: true,
         data: result,
-        message: 'Session files deleted successfully',
+        message: 'Asset URLs refreshed',
       };
     } catch (error) {
-      this.logger.error(`Cleanup failed for session ${sessionId}:`, error);
+      this.logger.error(
+        `Failed to refresh asset URLs for ${sessionId}:`,
+        error,
+      );
       if (error instanceof HttpException) {
         throw error;
       }
       throw new HttpException(
-        error instanceof Error ? error.message : 'Cleanup failed',
+        error instanceof Error ? error.message : 'Failed to refresh asset URLs',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
@@ -208,6 +1278,101 @@ export class CustomizerController {
     }
   }
 
+  /**
+   * Clean print files of a session, as short-lived signed URLs (staff only)
+   * GET /customizer/production/:sessionId?productId=...
+   * Headers: x-staff-secret (required; 503 while STAFF_SECRET is not configured)
+   */
+  @Get('production/:sessionId')
+  @UseGuards(StrictStaffSecretGuard)
+  async getProductionFiles(
+    @Param('sessionId') sessionId: string,
+    @Query('productId') productId?: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Production files request for session: ${sessionId}`);
+
+      const result = await this.customizerService.getProductionFiles(
+        sessionId,
+        productId || undefined,
+      );
+
+      return {
+        statusCode: HttpStatus.OK,
+        success: true,
+        data: result,
+        message: 'Production files retrieved',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get production files for ${sessionId}:`,
+        error,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error
+          ? error.message
+          : 'Failed to retrieve production files',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Download the laser cut outline of a session's current render (staff only)
+   * GET /customizer/production/:sessionId/cut-path?productId=...&format=svg|dxf&slot=...
+   * Headers: x-staff-secret (required; 503 while STAFF_SECRET is not configured)
+   *
+   * The outline is sized like the print file (trim plus bleed, millimetres) and
+   * offset by the product's kerfMm.
+   */
+  @Get('production/:sessionId/cut-path')
+  @UseGuards(StrictStaffSecretGuard)
+  async getCutPath(
+    @Param('sessionId') sessionId: string,
+    @Query('productId') productId: string,
+    @Query('format') format: string,
+    @Query('slot') slot: string,
+    @Res() res: express.Response,
+  ): Promise<any> {
+    try {
+      const cutFormat = (format || 'svg').toLowerCase();
+      if (cutFormat !== 'svg' && cutFormat !== 'dxf') {
+        throw new BadRequestException('format must be svg or dxf');
+      }
+      this.logger.log(
+        `Cut path request for session: ${sessionId}, product: ${productId}, format: ${cutFormat}`,
+      );
+
+      const file = await this.customizerService.getCutPathFile(
+        sessionId,
+        productId,
+        cutFormat,
+        slot || undefined,
+      );
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${file.fileName}"`,
+      );
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(file.buffer);
+      return;
+    } catch (error) {
+      this.logger.error(`Failed to get cut path for ${sessionId}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to retrieve cut path',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * Get shaped image(s) public URL(s) for a sessionId.
    * Searches folders under `customizer/` matching `sessionId` or `sessionId-<productId>`
@@ -218,9 +1383,7 @@ export class CustomizerController {
     try {
       this.logger.log(`Get shape request for session: ${sessionId}`);
 
-      const result = await this.customizerService.getShapesBySession(
-        sessionId,
-      );
+      const result = await this.customizerService.getShapesBySession(sessionId);
 
       return {
         statusCode: HttpStatus.OK,
@@ -262,10 +1425,14 @@ export class CustomizerController {
       // Proxy the image bytes from the public URL back to the client
       const fetchRes = await fetch(publicUrl);
       if (!fetchRes.ok || !fetchRes.body) {
-        throw new HttpException('Failed to fetch image from storage', HttpStatus.BAD_GATEWAY);
+        throw new HttpException(
+          'Failed to fetch image from storage',
+          HttpStatus.BAD_GATEWAY,
+        );
       }
 
-      const contentType = fetchRes.headers.get('content-type') || 'application/octet-stream';
+      const contentType =
+        fetchRes.headers.get('content-type') || 'application/octet-stream';
       res.setHeader('Content-Type', contentType);
       res.setHeader('Cache-Control', 'no-cache');
 
@@ -279,14 +1446,16 @@ export class CustomizerController {
         throw error;
       }
       throw new HttpException(
-        error instanceof Error ? error.message : 'Failed to retrieve latest shape',
+        error instanceof Error
+          ? error.message
+          : 'Failed to retrieve latest shape',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   /**
-   * Return the available shape types for a sessionId (circle, heart, rectangle).
+   * Return the registered shape types present for a sessionId.
    * GET /customizer/shape/:sessionId/types
    */
   @Get('shape/:sessionId/types')
@@ -294,9 +1463,8 @@ export class CustomizerController {
     try {
       this.logger.log(`Get shape types request for session: ${sessionId}`);
 
-      const result = await this.customizerService.getShapeTypesBySession(
-        sessionId,
-      );
+      const result =
+        await this.customizerService.getShapeTypesBySession(sessionId);
 
       return {
         statusCode: HttpStatus.OK,
@@ -310,7 +1478,9 @@ export class CustomizerController {
         throw error;
       }
       throw new HttpException(
-        error instanceof Error ? error.message : 'Failed to retrieve shape types',
+        error instanceof Error
+          ? error.message
+          : 'Failed to retrieve shape types',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
@@ -348,11 +1518,16 @@ export class CustomizerController {
         const configuredSecret = process.env.CLEANUP_SECRET;
         if (configuredSecret) {
           if (!secret || secret !== configuredSecret) {
-            throw new HttpException('Unauthorized for force cleanup', HttpStatus.UNAUTHORIZED);
+            throw new HttpException(
+              'Unauthorized for force cleanup',
+              HttpStatus.UNAUTHORIZED,
+            );
           }
         } else {
           // If no secret configured, explicitly log a warning and allow (dev)
-          this.logger.warn('Force cleanup requested but CLEANUP_SECRET not configured; proceeding (development mode).');
+          this.logger.warn(
+            'Force cleanup requested but CLEANUP_SECRET not configured; proceeding (development mode).',
+          );
         }
       }
 
@@ -404,7 +1579,9 @@ export class CustomizerController {
 
       const force = !!body?.force;
 
-      const result = await this.customizerService.deleteSessionsNotInOrders({ force });
+      const result = await this.customizerService.deleteSessionsNotInOrders({
+        force,
+      });
 
       return {
         statusCode: HttpStatus.OK,
@@ -416,7 +1593,9 @@ export class CustomizerController {
       this.logger.error('Delete missing sessions failed:', error);
       if (error instanceof HttpException) throw error;
       throw new HttpException(
-        error instanceof Error ? error.message : 'Delete missing sessions failed',
+        error instanceof Error
+          ? error.message
+          : 'Delete missing sessions failed',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
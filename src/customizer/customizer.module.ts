@@ -1,14 +1,46 @@
 import { Module } from '@nestjs/common';
 import { CustomizerController } from './customizer.controller';
 import { CustomizerService } from './customizer.service';
+import { ShapeRegistryService } from './shape-registry.service';
+import { ProductSpecService } from './product-spec.service';
+import { TextLayerService } from './text-layer.service';
+import { RenderHistoryService } from './render-history.service';
+import { MockupService } from './mockup.service';
+import { DesignTemplateService } from './design-template.service';
 import { ShopifyModule } from '../shopify/shopify.module';
 import { ProductUploadsModule } from '../product-uploads/product-uploads.module';
 import { SessionUploadModule } from './session-upload.module';
+import { StorageModule } from '../storage/storage.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SessionsModule } from '../sessions/sessions.module';
 
 @Module({
-  imports: [ShopifyModule, ProductUploadsModule, SessionUploadModule],
+  imports: [
+    ShopifyModule,
+    ProductUploadsModule,
+    SessionUploadModule,
+    StorageModule,
+    SupabaseModule,
+    SessionsModule,
+  ],
   controllers: [CustomizerController],
-  providers: [CustomizerService],
-  exports: [CustomizerService],
+  providers: [
+    CustomizerService,
+    ShapeRegistryService,
+    ProductSpecService,
+    TextLayerService,
+    RenderHistoryService,
+    MockupService,
+    DesignTemplateService,
+  ],
+  exports: [
+    CustomizerService,
+    ShapeRegistryService,
+    ProductSpecService,
+    TextLayerService,
+    RenderHistoryService,
+    MockupService,
+    DesignTemplateService,
+  ],
 })
 export class CustomizerModule {}
@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import { SessionRecord, SessionsService } from '../sessions/sessions.service';
+import { ShopifyService } from '../shopify/shopify.service';
+import { ProductUploadsService } from '../product-uploads/product-uploads.service';
+import { ShapeRegistryService } from './shape-registry.service';
+import { ProductSpecService } from './product-spec.service';
+import { TextLayerService } from './text-layer.service';
+import { RenderHistoryService } from './render-history.service';
+import { MockupService } from './mockup.service';
+import { DesignTemplateService } from './design-template.service';
+import { CustomizerService } from './customizer.service';
+
+/** A `<session>-<product>` folder the backfill matched to its upload record */
+function backfilled(sessionId: string, productId: string): SessionRecord {
+  return {
+    sessionId,
+    productId,
+    storagePrefix: `customizer/${sessionId}-${productId}`,
+    files: ['original.png'],
+    status: 'active',
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+describe('CustomizerService', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'customizer-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    storage = new LocalStorageProvider();
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  /** Service over local storage; collaborators a test does not use are empty */
+  function createService(deps: {
+    sessions: Partial<SessionsService>;
+    shopify?: Partial<ShopifyService>;
+    shapeRegistry?: Partial<ShapeRegistryService>;
+  }): CustomizerService {
+    const assetUrls = new AssetUrlService(storage);
+    return new CustomizerService(
+      (deps.shopify ?? {}) as ShopifyService,
+      {
+        getUploadsBySession: () => Promise.resolve([]),
+      } as unknown as ProductUploadsService,
+      (deps.shapeRegistry ?? {}) as ShapeRegistryService,
+      {} as ProductSpecService,
+      {} as TextLayerService,
+      new RenderHistoryService(storage, assetUrls),
+      {} as MockupService,
+      {} as DesignTemplateService,
+      storage,
+      deps.sessions as SessionsService,
+      assetUrls,
+    );
+  }
+
+  it('keeps backfilled session folders that an order references', async () => {
+    for (const folder of ['s1_100-p1', 's2_200-p1']) {
+      await storage.upload(
+        'customizer-uploads',
+        `customizer/${folder}/original.png`,
+        Buffer.from('a'),
+      );
+    }
+
+    const markDeleted = jest.fn(() => Promise.resolve());
+    const service = createService({
+      sessions: {
+        listActive: () =>
+          Promise.resolve([
+            backfilled('s1_100', 'p1'),
+            backfilled('s2_200', 'p1'),
+          ]),
+        markDeleted,
+      },
+      shopify: {
+        getOrders: () =>
+          Promise.resolve({
+            orders: [
+              {
+                line_items: [
+                  { properties: [{ name: '_session_id', value: 's1_100' }] },
+                ],
+              },
+            ],
+          }),
+      } as unknown as Partial<ShopifyService>,
+    });
+
+    const result = await service.deleteSessionsNotInOrders();
+
+    expect(result.skippedFolders).toEqual(['customizer/s1_100-p1']);
+    expect(result.deletedFolders).toEqual(['customizer/s2_200-p1']);
+    expect(result.errors).toEqual([]);
+    expect(markDeleted).toHaveBeenCalledTimes(1);
+    expect(
+      (await storage.list('customizer-uploads', 'customizer/s1_100-p1')).data,
+    ).toHaveLength(1);
+  });
+
+  it('lists shaped renders of a session, not the other files', async () => {
+    const folder = 'customizer/s1_100-p1';
+    for (const name of [
+      'original.png',
+      'background.png',
+      'heart_1700000000000.png',
+      'mockup_heart_1700000000000.jpg',
+      'layout.png',
+      'shape.png',
+      'qr.png',
+    ]) {
+      await storage.upload(
+        'customizer-uploads',
+        `${folder}/${name}`,
+        Buffer.from('a'),
+      );
+    }
+
+    const service = createService({
+      sessions: { find: () => Promise.resolve([backfilled('s1_100', 'p1')]) },
+      shapeRegistry: {
+        getShapeIds: () => Promise.resolve(new Set(['heart', 'circle'])),
+      },
+    });
+
+    const { folders } = await service.getShapesBySession('s1_100');
+
+    expect(folders).toHaveLength(1);
+    expect(folders[0].shapedFiles).toEqual([
+      {
+        name: 'heart_1700000000000.png',
+        publicUrl: expect.stringContaining(`${folder}/heart_1700000000000.png`),
+        mockupUrl: expect.stringContaining(
+          `${folder}/mockup_heart_1700000000000.jpg`,
+        ),
+      },
+    ]);
+  });
+});
@@ -1,53 +1,155 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
-import { createClient } from '@supabase/supabase-js';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import sharp from 'sharp';
 import { ShopifyService } from '../shopify/shopify.service';
-import { ProductUploadsService } from '../product-uploads/product-uploads.service';
+import {
+  ProductUploadsService,
+  getProductFilePaths,
+} from '../product-uploads/product-uploads.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService, contentVersion } from '../storage/asset-url.service';
+import {
+  ShapeDefinition,
+  ShapeRegistryService,
+} from './shape-registry.service';
+import {
+  BackgroundOption,
+  CustomizationData,
+  DEFAULT_BACKGROUND,
+  ShapeStroke,
+  cropToPixels,
+} from './customization-data';
+import { PrintDimensions, ProductSpecService } from './product-spec.service';
+import { TextLayerService } from './text-layer.service';
+import {
+  QualityReport,
+  assessImageQuality,
+  getQualityThresholds,
+} from './image-quality';
+import { FramingSuggestion, detectSubject, suggestFraming } from './framing';
+import { NormalizedImage, normalizeImage } from './image-normalizer';
+import {
+  DesignManifest,
+  MANIFEST_FILE_NAME,
+  MANIFEST_VERSION,
+  describeFile,
+  getAppVersion,
+  sha256,
+} from './design-manifest';
+import {
+  HISTORY_FOLDER_NAME,
+  RenderHistoryEntry,
+  RenderHistoryService,
+} from './render-history.service';
+import {
+  MockupService,
+  MockupTemplate,
+  getMockupFileName,
+} from './mockup.service';
+import { applyWatermark } from './watermark';
+import { applyPhotoAdjustments } from './photo-adjustments';
+import { removeUniformBackground } from './background-removal';
+import {
+  DesignTemplate,
+  DesignTemplateService,
+} from './design-template.service';
+import { getProductionBucket, getProductionUrlTtl } from './production-files';
+import { SessionsService } from '../sessions/sessions.service';
+import { buildCutPath, cutPathToDxf, cutPathToSvg } from './cut-path';
+import {
+  LAYOUT_FILE_NAME,
+  PRINT_LAYOUT_FILE_NAME,
+  PrintSlot,
+  SLOTS_FOLDER_NAME,
+  getSlotFolder,
+  resolvePrintSlot,
+} from './print-slots';
+
+/** Width of the storefront preview render; print renders scale relative to it */
+const PREVIEW_WIDTH = 500;
+
+/** Everything needed to render a design, resolved and validated before storing anything */
+interface DesignPlan {
+  shape: ShapeDefinition;
+  outputSize: { width: number; height: number };
+  textOverlay: Buffer | null;
+  printSize: PrintDimensions;
+  /** Laser kerf the cut paths compensate for */
+  kerfMm: number;
+  quality: QualityReport;
+  /** Product photo to show the design on, when the product has one */
+  mockup: MockupTemplate | null;
+  /** Print slot the design fills, for products with several */
+  slot: PrintSlot | null;
+  /** Overlay composited over the shaped photo */
+  template: DesignTemplate | null;
+}
+
+/** Width of the composed slot layout preview */
+const LAYOUT_PREVIEW_WIDTH = 1000;
+
+/** Default and largest width of the shape picker thumbnails */
+const THUMBNAIL_WIDTH = 200;
+const MIN_THUMBNAIL_WIDTH = 64;
+
+/** One shape picker thumbnail, inlined as a data URL */
+export interface ShapePreview {
+  shape: string;
+  name: string;
+  width: number;
+  height: number;
+  mimetype: string;
+  dataUrl: string;
+}
+
+/** A product's print slot with the design currently filling it */
+export interface SlotDesign extends PrintSlot {
+  shapedFileId: string | null;
+  shapedUrl: string;
+  printFileId: string | null;
+  customization: CustomizationData | null;
+  quality: QualityReport | null;
+}
 
-interface CustomizationData {
-  x: number;
-  y: number;
-  zoom: number;
-  shape: 'circle' | 'heart' | 'rectangle';
+/** Most files whose URLs one refreshAssetUrls() call renews */
+const MAX_REFRESHED_ASSETS = 50;
+
+/** Pattern tile stored alongside the original for `pattern` backgrounds */
+const BACKGROUND_FILE_NAME = 'background.png';
+
+interface ShapeMaskOptions {
+  /** Extra pixels on every side for print renders */
+  bleed?: number;
+  background?: BackgroundOption;
+  /** Tile image for `pattern` backgrounds */
+  backgroundImage?: Buffer;
+  /** Rim along the inside of the outline; width is a percentage of the trim width */
+  stroke?: ShapeStroke;
+  /** Soft-edge distance as a percentage of the trim width */
+  feather?: number;
 }
 
 @Injectable()
 export class CustomizerService {
   private readonly logger = new Logger(CustomizerService.name);
-  private supabase: any;
 
   constructor(
     private readonly shopifyService: ShopifyService,
     private readonly productUploadsService: ProductUploadsService,
-  ) {
-    this.initializeSupabase();
-  }
-
-  /**
-   * Initialize Supabase client with credentials from environment
-   */
-  private initializeSupabase(): void {
-    try {
-      const supabaseUrl = process.env.SUPABASE_URL;
-      const supabaseKey =
-        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
-
-      if (!supabaseUrl || !supabaseKey) {
-        this.logger.warn(
-          'Supabase credentials not configured. Supabase-dependent features will be disabled. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY) environment variables.',
-        );
-        this.supabase = null;
-        return;
-      }
-
-      this.supabase = createClient(supabaseUrl, supabaseKey);
-      this.logger.log('Supabase Storage initialized successfully');
-    } catch (error) {
-      this.logger.error('Failed to initialize Supabase:', error);
-      // Do not throw here to avoid crashing the whole app during startup.
-      this.supabase = null;
-    }
-  }
+    private readonly shapeRegistry: ShapeRegistryService,
+    private readonly productSpecService: ProductSpecService,
+    private readonly textLayerService: TextLayerService,
+    private readonly renderHistory: RenderHistoryService,
+    private readonly mockupService: MockupService,
+    private readonly designTemplates: DesignTemplateService,
+    private readonly storage: StorageProvider,
+    private readonly sessions: SessionsService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
 
   /**
    * Generate a unique session ID that doesn't conflict with existing Shopify orders
@@ -71,8 +173,7 @@ export class CustomizerService {
             prop.name === 'session_id' &&
             prop.value === baseSessionId &&
             properties.some(
-              (p: any) =>
-                p.name === 'product_id' && p.value === productId,
+              (p: any) => p.name === 'product_id' && p.value === productId,
             ),
         );
       });
@@ -107,8 +208,7 @@ export class CustomizerService {
               prop.name === 'session_id' &&
               prop.value === newSessionId &&
               properties.some(
-                (p: any) =>
-                  p.name === 'product_id' && p.value === productId,
+                (p: any) => p.name === 'product_id' && p.value === productId,
               ),
           );
         });
@@ -139,59 +239,66 @@ export class CustomizerService {
   }
 
   /**
-   * Apply shape mask to image - creates clipped effect where image shows only in shape
+   * Apply shape mask to image - creates clipped effect where image shows only in shape.
+   * `bleed` (px) grows the canvas and the shape outline on every side for print renders;
+   * `background` decides what fills the area outside the shape (black by default),
+   * `feather` fades the photo out towards the outline and `stroke` draws a rim inside it.
    */
   private async applyShapeMask(
     imageBuffer: Buffer,
-    width: number,
-    height: number,
-    shape: 'circle' | 'heart' | 'rectangle',
+    trimWidth: number,
+    trimHeight: number,
+    shape: ShapeDefinition,
+    options: ShapeMaskOptions = {},
   ): Promise<Buffer> {
+    const bleed = options.bleed || 0;
+    const width = trimWidth + bleed * 2;
+    const height = trimHeight + bleed * 2;
+
     try {
       // Resize image to target dimensions
       const resizedImage = await sharp(imageBuffer)
         .resize(width, height, { fit: 'cover' })
         .toBuffer();
 
-      // Create the mask shape as an SVG
-      let maskSvg: string;
-
-      switch (shape) {
-        case 'circle': {
-          const radius = Math.min(width, height) / 2;
-          const cx = width / 2;
-          const cy = height / 2;
-          maskSvg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-            <circle cx="${cx}" cy="${cy}" r="${radius}" fill="white"/>
-          </svg>`;
-          break;
-        }
-        case 'heart': {
-          maskSvg = `<svg width="${width}" height="${height}" viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" preserveAspectRatio="xMidYMid meet">
-            <path d="M50,90 C25,75 10,60 10,45 C10,30 20,20 30,20 C38,20 45,25 50,35 C55,25 62,20 70,20 C80,20 90,30 90,45 C90,60 75,75 50,90 Z" fill="white"/>
-          </svg>`;
-          break;
-        }
-        case 'rectangle': {
-          const padding = Math.min(width, height) * 0.08;
-          maskSvg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-            <rect x="${padding}" y="${padding}" width="${width - padding * 2}" height="${height - padding * 2}" rx="10" fill="white"/>
-          </svg>`;
-          break;
-        }
-        default:
-          throw new BadRequestException(`Invalid shape: ${shape}`);
-      }
+      // Create the mask shape as an SVG from the registered shape path
+      const maskSvg = this.shapeRegistry.buildMaskSvg(
+        shape,
+        trimWidth,
+        trimHeight,
+        bleed,
+      );
 
       // Render the mask SVG to a PNG with alpha channel (white shape on transparent background)
-      const maskImage = await sharp(Buffer.from(maskSvg))
+      let maskImage = await sharp(Buffer.from(maskSvg))
         .resize(width, height, { fit: 'fill', position: 'center' })
         .ensureAlpha()
         .png()
         .toBuffer();
 
+      // Soft edge: shrink the shape by half the feather distance, then blur, so the fade
+      // runs from `feather` px inside the outline down to nothing at the cut line
+      const featherPx = ((options.feather || 0) * trimWidth) / 100;
+      if (featherPx > 0) {
+        maskImage = await sharp(
+          Buffer.from(
+            this.shapeRegistry.buildInsetMaskSvg(
+              shape,
+              trimWidth,
+              trimHeight,
+              featherPx / 2,
+              bleed,
+            ),
+          ),
+        )
+          .ensureAlpha()
+          .blur(Math.max(0.3, featherPx / 4))
+          .png()
+          .toBuffer();
+      }
+
       // Composite: apply mask as alpha to the resized image (creates transparent areas where mask is black)
-      const maskedImage = await sharp(resizedImage)
+      let maskedImage = await sharp(resizedImage)
         .composite([
           {
             input: maskImage,
@@ -203,20 +310,46 @@ export class CustomizerService {
         .png()
         .toBuffer();
 
-      // Create black background
-      const blackBg = await sharp({
-        create: {
-          width: width,
-          height: height,
-          channels: 4,
-          background: { r: 0, g: 0, b: 0, alpha: 1 },
-        },
-      })
-        .png()
-        .toBuffer();
+      const strokeWidthPx = options.stroke
+        ? (options.stroke.width * trimWidth) / 100
+        : 0;
+      if (options.stroke && strokeWidthPx > 0) {
+        maskedImage = await sharp(maskedImage)
+          .composite([
+            {
+              input: await this.createStrokeRim(
+                shape,
+                trimWidth,
+                trimHeight,
+                bleed,
+                options.stroke.color,
+                strokeWidthPx,
+              ),
+              top: 0,
+              left: 0,
+            },
+          ])
+          .png()
+          .toBuffer();
+      }
 
-      // Composite masked image onto black background
-      const final = await sharp(blackBg)
+      const background = options.background || DEFAULT_BACKGROUND;
+
+      // Transparent output: keep the alpha from the mask as-is
+      if (background.type === 'transparent') {
+        return maskedImage;
+      }
+
+      const backgroundImage = await this.createBackground(
+        background,
+        width,
+        height,
+        trimWidth / PREVIEW_WIDTH,
+        options.backgroundImage,
+      );
+
+      // Composite masked image onto the background
+      const final = await sharp(backgroundImage)
         .composite([
           {
             input: maskedImage,
@@ -230,19 +363,162 @@ export class CustomizerService {
 
       return final;
     } catch (error) {
-      this.logger.error(`Failed to apply ${shape} mask:`, error);
-      throw new BadRequestException(`Failed to apply ${shape} mask`);
+      this.logger.error(`Failed to apply ${shape.id} mask:`, error);
+      throw new BadRequestException(`Failed to apply ${shape.id} mask`);
+    }
+  }
+
+  /**
+   * Build the stroke rim: the stroke color inside the shape mask (which reaches into
+   * the bleed on print renders) minus the shape pulled in by the stroke width.
+   */
+  private async createStrokeRim(
+    shape: ShapeDefinition,
+    trimWidth: number,
+    trimHeight: number,
+    bleed: number,
+    color: string,
+    strokeWidthPx: number,
+  ): Promise<Buffer> {
+    const width = trimWidth + bleed * 2;
+    const height = trimHeight + bleed * 2;
+    const outerMask = await sharp(
+      Buffer.from(
+        this.shapeRegistry.buildMaskSvg(shape, trimWidth, trimHeight, bleed),
+      ),
+    )
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+    const innerMask = await sharp(
+      Buffer.from(
+        this.shapeRegistry.buildInsetMaskSvg(
+          shape,
+          trimWidth,
+          trimHeight,
+          strokeWidthPx,
+          bleed,
+        ),
+      ),
+    )
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+
+    return sharp({
+      create: { width, height, channels: 4, background: color },
+    })
+      .composite([
+        // Always the hard outline: a feathered rim would not read as a border
+        { input: outerMask, blend: 'dest-in' },
+        { input: innerMask, blend: 'dest-out' },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Build the background layer for a shaped image: a solid color or a tiled pattern.
+   * Pattern tiles are scaled with the render so print output matches the preview.
+   */
+  private async createBackground(
+    background: BackgroundOption,
+    width: number,
+    height: number,
+    scale: number,
+    patternImage?: Buffer,
+  ): Promise<Buffer> {
+    if (background.type === 'pattern') {
+      if (!patternImage) {
+        throw new BadRequestException(
+          'backgroundImage is required for a pattern background',
+        );
+      }
+
+      const patternMeta = await sharp(patternImage).metadata();
+      // Tiles larger than the canvas are cropped: composite inputs must fit inside it
+      const tile = await sharp(patternImage)
+        .resize({
+          width: Math.min(
+            width,
+            Math.max(1, Math.round((patternMeta.width || width) * scale)),
+          ),
+          height: Math.min(
+            height,
+            Math.max(1, Math.round((patternMeta.height || height) * scale)),
+          ),
+          fit: 'cover',
+        })
+        .png()
+        .toBuffer();
+
+      return sharp({
+        create: {
+          width,
+          height,
+          channels: 4,
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        },
+      })
+        .composite([{ input: tile, tile: true, top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+    }
+
+    const color = background.type === 'color' ? background.color : '#000000';
+    return sharp({
+      create: {
+        width,
+        height,
+        channels: 4,
+        background: color,
+      },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Apply the optional source crop (percentages of the source image)
+   */
+  private async cropSource(
+    imageBuffer: Buffer,
+    crop: CustomizationData['crop'],
+  ): Promise<Buffer> {
+    if (!crop) return imageBuffer;
+
+    const meta = await sharp(imageBuffer).metadata();
+    return sharp(imageBuffer)
+      .extract(cropToPixels(crop, meta.width || 0, meta.height || 0))
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Photo the renders start from: the original, or its cut-out when the customization
+   * asks for background removal
+   */
+  private async prepareSource(
+    imageBuffer: Buffer,
+    customizationData: Pick<CustomizationData, 'removeBackground'>,
+  ): Promise<Buffer> {
+    if (!customizationData.removeBackground) {
+      return imageBuffer;
     }
+    return removeUniformBackground(
+      imageBuffer,
+      customizationData.removeBackground,
+    );
   }
 
   /**
-   * Transform image based on customization data (x, y, zoom)
+   * Transform image based on customization data (crop, flip, adjustments, x, y, zoom, rotation)
    */
   private async transformImage(
     imageBuffer: Buffer,
     customizationData: CustomizationData,
-    outputWidth: number = 500,
-    outputHeight: number = 500,
+    outputWidth: number = PREVIEW_WIDTH,
+    outputHeight: number = PREVIEW_WIDTH,
   ): Promise<Buffer> {
     try {
       // Clamp zoom between 0.1 and 5 to ensure valid transformations
@@ -252,42 +528,79 @@ export class CustomizerService {
       const x = Math.max(0, Math.min(100, customizationData.x));
       const y = Math.max(0, Math.min(100, customizationData.y));
 
+      // Apply the optional source crop (percentages of the source image) before anything else
+      const sourceImage = await this.cropSource(
+        imageBuffer,
+        customizationData.crop,
+      );
+
       // Calculate the scaled dimensions based on zoom
       const scaledWidth = Math.round(outputWidth * zoom);
       const scaledHeight = Math.round(outputHeight * zoom);
 
+      // Resize to the zoomed size and mirror if requested (flop = horizontal, flip = vertical)
+      let scaledImage = await sharp(sourceImage)
+        .resize(scaledWidth, scaledHeight, { fit: 'cover' })
+        .flop(!!customizationData.flipH)
+        .flip(!!customizationData.flipV)
+        .png()
+        .toBuffer();
+
+      // Photo adjustments before rotation and masking; sharpening scales with the
+      // render size so the print matches the preview
+      scaledImage = await applyPhotoAdjustments(
+        scaledImage,
+        customizationData.adjustments,
+        outputWidth / PREVIEW_WIDTH,
+      );
+      let imageWidth = scaledWidth;
+      let imageHeight = scaledHeight;
+
+      // Rotate around the image center, like a CSS rotate() on the storefront preview.
+      // Non-right angles grow the bounding box; the new corners are transparent.
+      const rotation = customizationData.rotation || 0;
+      if (rotation % 360 !== 0) {
+        const { data, info } = await sharp(scaledImage)
+          .ensureAlpha()
+          .rotate(rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+          .png()
+          .toBuffer({ resolveWithObject: true });
+        scaledImage = data;
+        imageWidth = info.width;
+        imageHeight = info.height;
+      }
+
       // Calculate position where the scaled image should be placed
       const centerX = Math.round((x / 100) * outputWidth);
       const centerY = Math.round((y / 100) * outputHeight);
 
       // Calculate top-left corner of the image based on its center position
-      const imageLeft = Math.round(centerX - scaledWidth / 2);
-      const imageTop = Math.round(centerY - scaledHeight / 2);
+      const imageLeft = Math.round(centerX - imageWidth / 2);
+      const imageTop = Math.round(centerY - imageHeight / 2);
 
       // Calculate the region to extract from the resized image
       // This ensures we only composite the portion that's visible on the canvas
       let extractLeft = 0;
       let extractTop = 0;
-      let extractWidth = scaledWidth;
-      let extractHeight = scaledHeight;
+      let extractWidth = imageWidth;
+      let extractHeight = imageHeight;
 
       // Adjust extract region if image extends beyond canvas boundaries
       if (imageLeft < 0) {
         extractLeft = Math.abs(imageLeft);
-        extractWidth = scaledWidth - extractLeft;
+        extractWidth = imageWidth - extractLeft;
       }
       if (imageTop < 0) {
         extractTop = Math.abs(imageTop);
-        extractHeight = scaledHeight - extractTop;
+        extractHeight = imageHeight - extractTop;
       }
 
       // Ensure extract dimensions don't exceed output size
       extractWidth = Math.min(extractWidth, outputWidth);
       extractHeight = Math.min(extractHeight, outputHeight);
 
-      // Resize and extract the visible portion of the image
-      const croppedImage = await sharp(imageBuffer)
-        .resize(scaledWidth, scaledHeight, { fit: 'cover' })
+      // Extract the visible portion of the image
+      const croppedImage = await sharp(scaledImage)
         .extract({
           left: extractLeft,
           top: extractTop,
@@ -301,13 +614,16 @@ export class CustomizerService {
       const compositeLeft = Math.max(0, imageLeft);
       const compositeTop = Math.max(0, imageTop);
 
-      // Create the final image by compositing the cropped image onto a white canvas
+      // Create the final image by compositing the cropped image onto a white canvas;
+      // a cut-out subject goes on a transparent one so the shape background shows behind it
       const transformedImage = await sharp({
         create: {
           width: outputWidth,
           height: outputHeight,
-          channels: 3,
-          background: { r: 255, g: 255, b: 255 },
+          channels: customizationData.removeBackground ? 4 : 3,
+          background: customizationData.removeBackground
+            ? { r: 0, g: 0, b: 0, alpha: 0 }
+            : { r: 255, g: 255, b: 255 },
         },
       })
         .composite([
@@ -328,237 +644,1896 @@ export class CustomizerService {
   }
 
   /**
-   * Upload image with customization data
-   * Folder structure: customizer/sessionId-productId/
-   * Flow:
-   * 1. Check if session_id + product_id exists in Shopify orders; if yes, generate new session_id
-   * 2. If not in orders, check if folder exists in storage; if yes, reuse and replace images
-   * 3. If neither, create new folder with provided session_id
+   * Render the print-ready shaped image: product physical size at its DPI, with bleed,
+   * and the DPI embedded in the PNG so print software picks up the physical size.
    */
-  async uploadSessionImage(
-    sessionId: string,
-    productId: string,
+  private async renderPrintImage(
+    imageBuffer: Buffer,
+    customizationData: CustomizationData,
+    shape: ShapeDefinition,
+    printSize: PrintDimensions,
+    backgroundImage?: Buffer,
+    template: DesignTemplate | null = null,
+  ): Promise<Buffer> {
+    let transformed = await this.transformImage(
+      imageBuffer,
+      customizationData,
+      printSize.widthPx,
+      printSize.heightPx,
+    );
+
+    // Text is laid out relative to the trim area, exactly as in the preview
+    if (customizationData.textLayers?.length) {
+      const textOverlay = await this.textLayerService.renderOverlay(
+        customizationData.textLayers,
+        shape,
+        printSize.widthPx,
+        printSize.heightPx,
+      );
+      transformed = await sharp(transformed)
+        .composite([{ input: textOverlay, top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+    }
+
+    // Mirror the trim edges into the bleed so the trim area matches the preview exactly
+    if (printSize.bleedPx > 0) {
+      transformed = await sharp(transformed)
+        .extend({
+          top: printSize.bleedPx,
+          bottom: printSize.bleedPx,
+          left: printSize.bleedPx,
+          right: printSize.bleedPx,
+          extendWith: 'mirror',
+        })
+        .png()
+        .toBuffer();
+    }
+
+    let shaped = await this.applyShapeMask(
+      transformed,
+      printSize.widthPx,
+      printSize.heightPx,
+      shape,
+      {
+        bleed: printSize.bleedPx,
+        background: customizationData.background,
+        backgroundImage,
+        stroke: customizationData.stroke,
+        feather: customizationData.feather,
+      },
+    );
+    if (template) {
+      shaped = await this.applyTemplate(
+        shaped,
+        template,
+        printSize.widthPx,
+        printSize.heightPx,
+        shape,
+        printSize.bleedPx,
+      );
+    }
+
+    return sharp(shaped)
+      .withMetadata({ density: printSize.dpi })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Server-wide minimum effective DPI for uploads (UPLOAD_MIN_DPI); 0 disables it
+   */
+  private getUploadMinDpi(): number {
+    return parseFloat(process.env.UPLOAD_MIN_DPI || '') || 0;
+  }
+
+  /**
+   * Assess how an image will print on a product (or one of its slots) with the
+   * given crop and zoom, without storing anything
+   */
+  async checkImageQuality(
     file: Express.Multer.File,
+    productId: string,
     customizationData: CustomizationData,
-  ): Promise<{
-    success: boolean;
-    originalFileId: string;
-    shapedFileId: string;
-    originalUrl: string;
-    shapedUrl: string;
-    message: string;
-    sessionIdUsed: string;
-    productIdUsed: string;
-    sessionIdChanged: boolean;
-    sessionIdChangeReason: string;
-  }> {
+    slotId?: string,
+  ): Promise<QualityReport & { print: PrintDimensions }> {
     if (!file) {
       throw new BadRequestException('No file provided');
     }
 
-    if (!sessionId || sessionId.trim() === '') {
-      throw new BadRequestException('Session ID is required');
-    }
-
     if (!productId || productId.trim() === '') {
       throw new BadRequestException('Product ID is required');
     }
 
-    if (!this.supabase) {
+    const shape = await this.shapeRegistry.getShape(customizationData.shape);
+    if (!shape) {
       throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
+        `Invalid shape: ${customizationData.shape}`,
       );
     }
 
-    try {
-      const allowedMimes = ['image/png', 'image/jpeg'];
-      if (!allowedMimes.includes(file.mimetype)) {
-        throw new BadRequestException('Only PNG and JPG files are allowed');
-      }
+    // Normalize first so EXIF-rotated and HEIC photos are measured as displayed
+    const image = await normalizeImage(file);
+
+    const productSpec = await this.productSpecService.getSpec(productId);
+    const slot = slotId
+      ? resolvePrintSlot(productSpec.slots, productId, slotId)
+      : null;
+    const printSpec = slot
+      ? this.productSpecService.getSlotSpec(productSpec, slot)
+      : productSpec;
+    const printSize = this.productSpecService.getPrintDimensions(
+      printSpec,
+      shape.aspectRatio,
+    );
 
-      const originalSessionId = sessionId;
-      let finalSessionId = sessionId;
-      let sessionIdChangeReason = '';
-      let sessionIdChanged = false;
+    return {
+      ...assessImageQuality(image, customizationData, printSize),
+      print: printSize,
+    };
+  }
 
-      // Step 1: Check if session_id + product_id exists in Shopify orders
-      const sessionIdResult = await this.generateUniqueSessionId(
-        sessionId,
-        productId,
+  /**
+   * Suggest x, y and zoom that center the photo's subject in the shape.
+   * Crop and flips in `customizationData` are honored; rotation is not.
+   * With a productId the zoom is capped so the print stays at the recommended DPI,
+   * and the quality of the suggested framing is reported.
+   */
+  async suggestImageFraming(
+    file: Express.Multer.File,
+    customizationData: CustomizationData,
+    productId?: string,
+  ): Promise<
+    FramingSuggestion & {
+      shape: string;
+      quality: (QualityReport & { print: PrintDimensions }) | null;
+    }
+  > {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    const shape = await this.shapeRegistry.getShape(customizationData.shape);
+    if (!shape) {
+      throw new BadRequestException(
+        `Invalid shape: ${customizationData.shape}`,
       );
-      finalSessionId = sessionIdResult.sessionId;
-      sessionIdChangeReason = sessionIdResult.reason;
-      sessionIdChanged = originalSessionId !== finalSessionId;
+    }
 
-      if (sessionIdChanged) {
-        this.logger.log(
-          `Session ID conflict with Shopify orders for product ${productId}. Original: ${originalSessionId}, Generated new: ${finalSessionId}. Reason: ${sessionIdChangeReason}`,
-        );
-      } else {
-        // Session ID + Product ID combination not in Shopify orders
-        // Step 2: Check if folder already exists in storage
-        const folderPath = `customizer/${sessionId}-${productId}`;
-        const { data: existingFiles, error: listError } =
-          await this.supabase.storage
-            .from('customizer-uploads')
-            .list(folderPath);
+    // Analyze the image as it is displayed and rendered: normalized, then cropped
+    const image = await normalizeImage(file);
+    const source = await this.cropSource(image.buffer, customizationData.crop);
+    const { width, height } = await sharp(source).metadata();
+    if (!width || !height) {
+      throw new BadRequestException('Image dimensions could not be read');
+    }
 
-        if (existingFiles && existingFiles.length > 0) {
-          // Folder exists, will reuse it and replace images
-          sessionIdChangeReason = `Session ID + Product ID not in Shopify orders. Folder exists in storage, reusing and replacing existing images.`;
-          this.logger.log(
-            `Session ID valid (not in Shopify orders). Reusing existing session-product folder: ${folderPath}`,
-          );
-        } else {
-          // No conflict and no existing folder - use normally
-          sessionIdChangeReason = `Session ID + Product ID not in Shopify orders and no existing folder. Creating new upload.`;
-          this.logger.log(
-            `Session ID validated: ${originalSessionId}. No conflicts or existing storage.`,
-          );
-        }
-      }
+    let printSize: PrintDimensions | null = null;
+    let maxZoom: number | undefined;
+    if (productId) {
+      const printSpec = await this.productSpecService.getSpec(productId);
+      printSize = this.productSpecService.getPrintDimensions(
+        printSpec,
+        shape.aspectRatio,
+      );
+      // DPI falls in proportion to zoom
+      const { effectiveDpi } = assessImageQuality(
+        image,
+        { zoom: 1, crop: customizationData.crop },
+        printSize,
+      );
+      maxZoom = effectiveDpi / getQualityThresholds().warnDpi;
+    }
 
-      // Use folder structure: customizer/sessionId-productId/
-      const finalFolderPath = `customizer/${finalSessionId}-${productId}`;
-      const originalFileName = 'original.png';
-      // Use timestamp in shaped filename to ensure each upload gets a unique file
-      const timestamp = Date.now();
-      const shapedFileName = `${customizationData.shape}_${timestamp}.png`;
+    const suggestion = suggestFraming(
+      await detectSubject(source),
+      { width, height },
+      this.shapeRegistry.getOutputSize(shape, PREVIEW_WIDTH),
+      {
+        flipH: customizationData.flipH,
+        flipV: customizationData.flipV,
+        maxZoom,
+      },
+    );
 
-      const originalFilePath = `${finalFolderPath}/${originalFileName}`;
-      const shapedFilePath = `${finalFolderPath}/${shapedFileName}`;
+    return {
+      ...suggestion,
+      shape: shape.id,
+      quality: printSize
+        ? {
+            ...assessImageQuality(
+              image,
+              { zoom: suggestion.zoom, crop: customizationData.crop },
+              printSize,
+            ),
+            print: printSize,
+          }
+        : null,
+    };
+  }
 
-      this.logger.log(
-        `Uploading customized image for session: ${finalSessionId}, product: ${productId} (shape: ${customizationData.shape})`,
-      );
+  /**
+   * Render small WebP previews of one photo in every registered shape (or the
+   * requested subset) for the storefront shape picker. The photo is transformed once
+   * per output size and only the mask varies; nothing is stored.
+   */
+  async renderShapePreviews(
+    file: Express.Multer.File,
+    customizationData: Omit<CustomizationData, 'shape'>,
+    options: {
+      width?: number;
+      shapes?: string[];
+      backgroundImage?: Express.Multer.File;
+    } = {},
+  ): Promise<{
+    width: number;
+    previews: ShapePreview[];
+  }> {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
 
-      // Delete all existing files in the session-product folder to ensure clean replacement
-      try {
-        const { data: existingFiles, error: listError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(finalFolderPath);
+    const width = Math.round(
+      Math.max(
+        MIN_THUMBNAIL_WIDTH,
+        Math.min(PREVIEW_WIDTH, options.width || THUMBNAIL_WIDTH),
+      ),
+    );
+
+    let shapes = await this.shapeRegistry.listShapes();
+    if (options.shapes?.length) {
+      const requested = new Set(options.shapes.map((id) => id.toLowerCase()));
+      shapes = shapes.filter((shape) => requested.has(shape.id));
+      if (shapes.length === 0) {
+        throw new BadRequestException(
+          `None of the requested shapes exist: ${options.shapes.join(', ')}`,
+        );
+      }
+    }
 
-        if (!listError && existingFiles && existingFiles.length > 0) {
-          const filePaths = existingFiles.map(
-            (f: any) => `${finalFolderPath}/${f.name}`,
+    // With a template only the shapes it is made for can be picked
+    const template = await this.resolveTemplate(customizationData.template);
+    if (template && template.shapes.length > 0) {
+      shapes = shapes.filter((shape) => template.shapes.includes(shape.id));
+      if (shapes.length === 0) {
+        throw new BadRequestException(
+          `Design template ${template.id} is made for other shapes: ${template.shapes.join(', ')}`,
+        );
+      }
+    }
+
+    const original = await normalizeImage(file);
+    let backgroundImage: Buffer | undefined;
+    if (customizationData.background?.type === 'pattern') {
+      if (!options.backgroundImage) {
+        throw new BadRequestException(
+          'backgroundImage is required for a pattern background',
+        );
+      }
+      backgroundImage = (await normalizeImage(options.backgroundImage)).buffer;
+    }
+
+    try {
+      const source = await this.prepareSource(
+        original.buffer,
+        customizationData,
+      );
+      // Shapes sharing an aspect ratio share the transformed photo
+      const transformed = new Map<string, Buffer>();
+      const previews: ShapePreview[] = [];
+
+      for (const shape of shapes) {
+        const size = this.shapeRegistry.getOutputSize(shape, width);
+        const key = `${size.width}x${size.height}`;
+        let image = transformed.get(key);
+        if (!image) {
+          image = await this.transformImage(
+            source,
+            { ...customizationData, shape: shape.id },
+            size.width,
+            size.height,
           );
-          const { error: deleteError } = await this.supabase.storage
-            .from('customizer-uploads')
-            .remove(filePaths);
+          transformed.set(key, image);
+        }
 
-          if (deleteError) {
-            this.logger.warn(
-              `Failed to delete old files for ${finalFolderPath}: ${deleteError.message}`,
-            );
-          } else {
-            this.logger.log(
-              `Deleted ${filePaths.length} old file(s) from ${finalFolderPath}`,
-            );
-          }
+        let shaped = await this.applyShapeMask(
+          image,
+          size.width,
+          size.height,
+          shape,
+          {
+            background: customizationData.background,
+            backgroundImage,
+            stroke: customizationData.stroke,
+            feather: customizationData.feather,
+          },
+        );
+        if (template) {
+          shaped = await this.applyTemplate(
+            shaped,
+            template,
+            size.width,
+            size.height,
+            shape,
+          );
         }
-      } catch (deleteError) {
-        this.logger.debug(`Error during cleanup: ${deleteError}`);
+        const webp = await sharp(shaped).webp({ quality: 80 }).toBuffer();
+
+        previews.push({
+          shape: shape.id,
+          name: shape.name,
+          width: size.width,
+          height: size.height,
+          mimetype: 'image/webp',
+          dataUrl: `data:image/webp;base64,${webp.toString('base64')}`,
+        });
       }
 
-      // Upload original image
-      const { error: originalUploadError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .upload(originalFilePath, file.buffer, {
-          contentType: 'image/png',
-          cacheControl: '3600',
-          upsert: true,
-        });
+      return { width, previews };
+    } catch (error) {
+      this.logger.error('Failed to render shape previews:', error);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to render shape previews');
+    }
+  }
+
+  /**
+   * Resolve the shape, lay out text, size the print render and check quality.
+   * Throws before anything is stored when the design cannot be produced.
+   * Slot designs are sized from their share of the product and get no mockup.
+   */
+  private async prepareDesign(
+    original: Pick<NormalizedImage, 'width' | 'height'>,
+    customizationData: CustomizationData,
+    productId: string,
+    minDpiOverride?: number,
+    slot: PrintSlot | null = null,
+  ): Promise<DesignPlan> {
+    const shape = await this.shapeRegistry.getShape(customizationData.shape);
+    if (!shape) {
+      throw new BadRequestException(
+        `Invalid shape: ${customizationData.shape}`,
+      );
+    }
+    if (slot && slot.shapes.length > 0 && !slot.shapes.includes(shape.id)) {
+      throw new BadRequestException(
+        `Shape ${shape.id} is not allowed in slot ${slot.id} (allowed: ${slot.shapes.join(', ')})`,
+      );
+    }
+    const outputSize = this.shapeRegistry.getOutputSize(shape, PREVIEW_WIDTH);
+    const template = await this.resolveTemplate(
+      customizationData.template,
+      shape.id,
+    );
+
+    // Text outside the safe area is rejected here
+    const textOverlay = customizationData.textLayers?.length
+      ? await this.textLayerService.renderOverlay(
+          customizationData.textLayers,
+          shape,
+          outputSize.width,
+          outputSize.height,
+          { enforceSafeArea: true },
+        )
+      : null;
+
+    // An oversized print spec fails here too
+    const productSpec = await this.productSpecService.getSpec(productId);
+    const printSpec = slot
+      ? this.productSpecService.getSlotSpec(productSpec, slot)
+      : productSpec;
+    const printSize = this.productSpecService.getPrintDimensions(
+      printSpec,
+      shape.aspectRatio,
+    );
+
+    // The minimum DPI is only enforced when requested or configured
+    const quality = assessImageQuality(original, customizationData, printSize);
+    const minDpi = minDpiOverride ?? this.getUploadMinDpi();
+    if (minDpi && quality.effectiveDpi < minDpi) {
+      throw new BadRequestException(
+        `Image resolution too low: ${quality.effectiveDpi} DPI at print size, minimum is ${minDpi} DPI. Upload a larger photo or zoom out.`,
+      );
+    }
+
+    const mockup = slot
+      ? null
+      : await this.mockupService.getTemplate(productId);
+
+    return {
+      shape,
+      outputSize,
+      textOverlay,
+      printSize,
+      kerfMm: printSpec.kerfMm,
+      quality,
+      mockup,
+      slot,
+      template,
+    };
+  }
+
+  /**
+   * Look up the design template a customization names and, given a shape, check the
+   * template is made for it
+   */
+  private async resolveTemplate(
+    templateId: string | undefined,
+    shapeId?: string,
+  ): Promise<DesignTemplate | null> {
+    if (!templateId) return null;
+
+    const template = await this.designTemplates.getTemplate(templateId);
+    if (!template) {
+      throw new BadRequestException(`Unknown design template: ${templateId}`);
+    }
+    if (
+      shapeId &&
+      template.shapes.length > 0 &&
+      !template.shapes.includes(shapeId)
+    ) {
+      throw new BadRequestException(
+        `Design template ${template.id} is not available for shape ${shapeId} (made for: ${template.shapes.join(', ')})`,
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Composite a design template over a shaped render, clipped to the shape outline
+   * unless the template lets it overhang
+   */
+  private async applyTemplate(
+    shapedImage: Buffer,
+    template: DesignTemplate,
+    trimWidth: number,
+    trimHeight: number,
+    shape: ShapeDefinition,
+    bleed = 0,
+  ): Promise<Buffer> {
+    let overlay = await this.designTemplates.renderOverlay(
+      template,
+      trimWidth,
+      trimHeight,
+      bleed,
+    );
+    if (template.anchor.clip) {
+      overlay = await sharp(overlay)
+        .composite([
+          {
+            input: Buffer.from(
+              this.shapeRegistry.buildMaskSvg(
+                shape,
+                trimWidth,
+                trimHeight,
+                bleed,
+              ),
+            ),
+            blend: 'dest-in',
+          },
+        ])
+        .png()
+        .toBuffer();
+    }
+
+    return sharp(shapedImage)
+      .composite([{ input: overlay, top: 0, left: 0 }])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Validate the slot a request targets against the product's slot definition
+   */
+  private async resolveSlot(
+    productId: string,
+    slotId?: string,
+  ): Promise<PrintSlot | null> {
+    const spec = await this.productSpecService.getSpec(productId);
+    return resolvePrintSlot(spec.slots, productId, slotId);
+  }
+
+  /**
+   * Folder holding a design: the session-product folder, or its slot subfolder
+   */
+  private getDesignFolder(
+    sessionId: string,
+    productId: string,
+    slot: PrintSlot | null,
+  ): string {
+    const folderPath = `customizer/${sessionId}-${productId}`;
+    return slot ? getSlotFolder(folderPath, slot.id) : folderPath;
+  }
+
+  /**
+   * Render the shaped preview and the print file from the original and upload both
+   * into `folderPath`. File names carry a timestamp so every render gets a unique URL.
+   * Storefront files (preview, mockup) are watermarked; the clean print file and the
+   * SVG/DXF cut outlines of the shape go to the private production bucket.
+   */
+  private async renderDesign(
+    folderPath: string,
+    originalBuffer: Buffer,
+    customizationData: CustomizationData,
+    design: DesignPlan,
+    backgroundImage?: Buffer,
+  ): Promise<{
+    shapedFileId: string;
+    printFileId: string;
+    cutFileIds: { svg: string; dxf: string };
+    mockupFileId: string | null;
+    shapedUrl: string;
+    mockupUrl: string;
+    mockupSize: { width: number; height: number } | null;
+  }> {
+    this.storage.assertAvailable();
+
+    const { shape, outputSize, textOverlay, printSize } = design;
+    const data = { ...customizationData, shape: shape.id };
+    const timestamp = Date.now();
+    const shapedFileName = `${shape.id}_${timestamp}.png`;
+    const shapedFilePath = `${folderPath}/${shapedFileName}`;
+    const printFilePath = `${folderPath}/print_${shape.id}_${timestamp}.png`;
+    const mockupFilePath = `${folderPath}/${getMockupFileName(shapedFileName)}`;
+    const cutFileIds = {
+      svg: `${folderPath}/cut_${shape.id}_${timestamp}.svg`,
+      dxf: `${folderPath}/cut_${shape.id}_${timestamp}.dxf`,
+    };
+
+    // Cut the subject out once for both renders; the stored original stays as uploaded
+    const sourceImage = await this.prepareSource(originalBuffer, data);
+
+    // The storefront sends center-based percentages (0..100 where 50 === center).
+    let transformedImage = await this.transformImage(
+      sourceImage,
+      data,
+      outputSize.width,
+      outputSize.height,
+    );
+    if (textOverlay) {
+      transformedImage = await sharp(transformedImage)
+        .composite([{ input: textOverlay, top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+    }
+    let shapedImage = await this.applyShapeMask(
+      transformedImage,
+      outputSize.width,
+      outputSize.height,
+      shape,
+      {
+        background: data.background,
+        backgroundImage,
+        stroke: data.stroke,
+        feather: data.feather,
+      },
+    );
+    // Templates go over the masked photo, so frames and stickers keep their own edges
+    if (design.template) {
+      shapedImage = await this.applyTemplate(
+        shapedImage,
+        design.template,
+        outputSize.width,
+        outputSize.height,
+        shape,
+      );
+    }
+
+    const { error: shapedUploadError } = await this.storage.upload(
+      'customizer-uploads',
+      shapedFilePath,
+      await applyWatermark(shapedImage),
+      {
+        contentType: 'image/png',
+        cacheControl: '3600',
+        upsert: true,
+      },
+    );
+
+    if (shapedUploadError) {
+      throw new BadRequestException(
+        `Failed to upload shaped image: ${shapedUploadError.message}`,
+      );
+    }
+
+    // The mockup is a storefront nicety: a failure is logged, not fatal
+    let mockupSize: { width: number; height: number } | null = null;
+    if (design.mockup) {
+      try {
+        let mockupDesign = shapedImage;
+        if (design.mockup.cutout) {
+          mockupDesign = await this.applyShapeMask(
+            transformedImage,
+            outputSize.width,
+            outputSize.height,
+            shape,
+            {
+              background: { type: 'transparent' },
+              stroke: data.stroke,
+              feather: data.feather,
+            },
+          );
+          if (design.template) {
+            mockupDesign = await this.applyTemplate(
+              mockupDesign,
+              design.template,
+              outputSize.width,
+              outputSize.height,
+              shape,
+            );
+          }
+        }
+        const mockup = await this.mockupService.renderMockup(
+          design.mockup,
+          await applyWatermark(mockupDesign),
+        );
+
+        const { error: mockupUploadError } = await this.storage.upload(
+          'customizer-uploads',
+          mockupFilePath,
+          mockup.buffer,
+          {
+            contentType: 'image/jpeg',
+            cacheControl: '3600',
+            upsert: true,
+          },
+        );
+        if (mockupUploadError) {
+          throw new Error(mockupUploadError.message);
+        }
+        mockupSize = { width: mockup.width, height: mockup.height };
+      } catch (error) {
+        this.logger.warn(
+          `Failed to render mockup for ${folderPath}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    // Render the print-ready version at the product's physical size and DPI
+    const printImage = await this.renderPrintImage(
+      sourceImage,
+      data,
+      shape,
+      printSize,
+      backgroundImage,
+      design.template,
+    );
+
+    const { error: printUploadError } = await this.storage.upload(
+      getProductionBucket(),
+      printFilePath,
+      printImage,
+      {
+        contentType: 'image/png',
+        cacheControl: '3600',
+        upsert: true,
+      },
+    );
+
+    if (printUploadError) {
+      throw new BadRequestException(
+        `Failed to upload print image: ${printUploadError.message}`,
+      );
+    }
+
+    // Vector outline of the same mask at physical size, for laser cutting and engraving
+    const cutPath = buildCutPath(shape, printSize, design.kerfMm);
+    for (const [filePath, content, contentType] of [
+      [cutFileIds.svg, cutPathToSvg(cutPath), 'image/svg+xml'],
+      [cutFileIds.dxf, cutPathToDxf(cutPath), 'application/dxf'],
+    ]) {
+      const { error: cutUploadError } = await this.storage.upload(
+        getProductionBucket(),
+        filePath,
+        Buffer.from(content),
+        {
+          contentType,
+          cacheControl: '3600',
+          upsert: true,
+        },
+      );
+      if (cutUploadError) {
+        throw new BadRequestException(
+          `Failed to upload cut path: ${cutUploadError.message}`,
+        );
+      }
+    }
+
+    // Render file names are unique per render, so their URLs need no version
+    const shapedUrl = await this.assetUrls.url(shapedFilePath);
+    const mockupUrl = mockupSize
+      ? await this.assetUrls.url(mockupFilePath)
+      : '';
+
+    return {
+      shapedFileId: shapedFilePath,
+      printFileId: printFilePath,
+      cutFileIds,
+      mockupFileId: mockupSize ? mockupFilePath : null,
+      shapedUrl,
+      mockupUrl,
+      mockupSize,
+    };
+  }
+
+  /**
+   * Write the manifest describing how the current renders of a folder were produced
+   */
+  private async writeManifest(
+    folderPath: string,
+    params: {
+      sessionId: string;
+      productId: string;
+      source: DesignManifest['source'];
+      /** Original with the exact bytes held in storage */
+      original: NormalizedImage;
+      originalFileName: string;
+      sourceSha256: string | null;
+      backgroundImage?: Buffer;
+      customizationData: CustomizationData;
+      design: DesignPlan;
+      renders: {
+        shapedFileId: string;
+        printFileId: string;
+        cutFileIds: { svg: string; dxf: string };
+        mockupFileId: string | null;
+        mockupSize: { width: number; height: number } | null;
+      };
+    },
+  ): Promise<DesignManifest> {
+    this.storage.assertAvailable();
+
+    const { original, design, renders } = params;
+    const fileName = (filePath: string) =>
+      filePath.substring(filePath.lastIndexOf('/') + 1);
+
+    const manifest: DesignManifest = {
+      manifestVersion: MANIFEST_VERSION,
+      sessionId: params.sessionId,
+      productId: params.productId,
+      slot: design.slot?.id,
+      createdAt: new Date().toISOString(),
+      appVersion: getAppVersion(),
+      source: params.source,
+      input: {
+        ...describeFile(params.originalFileName, original.buffer),
+        mimetype: original.mimetype,
+        sourceMimetype: original.sourceMimetype,
+        sourceSha256: params.sourceSha256,
+        width: original.width,
+        height: original.height,
+      },
+      backgroundImage: params.backgroundImage
+        ? describeFile(BACKGROUND_FILE_NAME, params.backgroundImage)
+        : null,
+      customization: { ...params.customizationData, shape: design.shape.id },
+      template: design.template
+        ? {
+            id: design.template.id,
+            name: design.template.name,
+            updatedAt: design.template.updatedAt,
+          }
+        : null,
+      renders: {
+        preview: {
+          file: fileName(renders.shapedFileId),
+          width: design.outputSize.width,
+          height: design.outputSize.height,
+        },
+        print: { file: fileName(renders.printFileId), ...design.printSize },
+        mockup:
+          renders.mockupFileId && renders.mockupSize
+            ? { file: fileName(renders.mockupFileId), ...renders.mockupSize }
+            : null,
+        cut: {
+          svg: fileName(renders.cutFileIds.svg),
+          dxf: fileName(renders.cutFileIds.dxf),
+          kerfMm: design.kerfMm,
+        },
+      },
+      quality: design.quality,
+    };
+
+    const { error } = await this.storage.upload(
+      'customizer-uploads',
+      `${folderPath}/${MANIFEST_FILE_NAME}`,
+      Buffer.from(JSON.stringify(manifest, null, 2)),
+      {
+        contentType: 'application/json',
+        cacheControl: '0',
+        upsert: true,
+      },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to upload manifest: ${error.message}`,
+      );
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Read the manifest of a session-product folder, or of one of its slots
+   */
+  async getSessionManifest(
+    sessionId: string,
+    productId: string,
+    slotId?: string,
+  ): Promise<DesignManifest> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    const slot = await this.resolveSlot(productId, slotId);
+    const manifest = await this.readManifest(
+      this.getDesignFolder(sessionId, productId, slot),
+    );
+    if (!manifest) {
+      throw new NotFoundException(
+        `No manifest found for session ${sessionId} and product ${productId}${slot ? `, slot ${slot.id}` : ''}`,
+      );
+    }
+    return manifest;
+  }
+
+  private async readManifest(
+    folderPath: string,
+  ): Promise<DesignManifest | null> {
+    const buffer = await this.downloadFile(
+      `${folderPath}/${MANIFEST_FILE_NAME}`,
+    );
+    if (!buffer) return null;
+
+    try {
+      return JSON.parse(buffer.toString('utf8'));
+    } catch {
+      this.logger.warn(`Unreadable manifest in ${folderPath}`);
+      return null;
+    }
+  }
+
+  /**
+   * Archive the folder's current design before it is replaced. A failed archive is
+   * logged but does not block the new render.
+   */
+  private async archiveCurrentRender(folderPath: string): Promise<void> {
+    try {
+      await this.renderHistory.archive(folderPath);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to archive the current render of ${folderPath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Previous renders of a session-product, newest first
+   */
+  async getSessionHistory(
+    sessionId: string,
+    productId: string,
+    slotId?: string,
+  ): Promise<{
+    sessionId: string;
+    productId: string;
+    slot: string | null;
+    limit: number;
+    entries: RenderHistoryEntry[];
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    const slot = await this.resolveSlot(productId, slotId);
+    const entries = await this.renderHistory.list(
+      this.getDesignFolder(sessionId, productId, slot),
+    );
+
+    return {
+      sessionId,
+      productId,
+      slot: slot?.id ?? null,
+      limit: this.renderHistory.getHistoryLimit(),
+      entries,
+    };
+  }
+
+  /**
+   * Promote an earlier render of a session-product back to the latest one.
+   * The design it replaces goes into the history, so a revert can be undone.
+   */
+  async revertSessionRender(
+    sessionId: string,
+    productId: string,
+    entryId: string,
+    slotId?: string,
+  ): Promise<{
+    success: boolean;
+    slot: string | null;
+    shapedFileId: string;
+    printFileId: string | null;
+    shapedUrl: string;
+    manifest: DesignManifest | null;
+    revertedFrom: string;
+    message: string;
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    try {
+      // Same rule as re-rendering: ordered designs stay as they are
+      const sessionIdResult = await this.generateUniqueSessionId(
+        sessionId,
+        productId,
+      );
+      if (sessionIdResult.sessionId !== sessionId) {
+        throw new BadRequestException(
+          'This design is already part of an order and cannot be reverted.',
+        );
+      }
+
+      const slot = await this.resolveSlot(productId, slotId);
+      const restored = await this.renderHistory.restore(
+        this.getDesignFolder(sessionId, productId, slot),
+        entryId,
+      );
+      if (slot) {
+        await this.removeSlotLayout(`customizer/${sessionId}-${productId}`);
+      }
+      await this.recordSession(sessionId, productId);
+
+      this.logger.log(
+        `Reverted session: ${sessionId}, product: ${productId} to render ${entryId}`,
+      );
+
+      return {
+        success: true,
+        slot: slot?.id ?? null,
+        shapedFileId: restored.shapedFileId,
+        printFileId: restored.printFileId,
+        shapedUrl: await this.assetUrls.url(restored.shapedFileId),
+        manifest: restored.manifest,
+        revertedFrom: entryId,
+        message: 'Earlier render restored as the latest design',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to revert session ${sessionId} to ${entryId}:`,
+        error,
+      );
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to revert design');
+    }
+  }
+
+  /**
+   * Upload image with customization data
+   * Folder structure: customizer/sessionId-productId/
+   * Flow:
+   * 1. Check if session_id + product_id exists in Shopify orders; if yes, generate new session_id
+   * 2. If not in orders, check if folder exists in storage; if yes, reuse and replace images
+   * 3. If neither, create new folder with provided session_id
+   * Products with print slots take one upload per slot, stored in customizer/sessionId-productId/slots/<slot>/
+   */
+  async uploadSessionImage(
+    sessionId: string,
+    productId: string,
+    file: Express.Multer.File,
+    customizationData: CustomizationData,
+    options: {
+      backgroundImage?: Express.Multer.File;
+      minDpi?: number;
+      slot?: string;
+    } = {},
+  ): Promise<{
+    success: boolean;
+    slot: string | null;
+    originalFileId: string;
+    shapedFileId: string;
+    printFileId: string;
+    cutFileIds: { svg: string; dxf: string };
+    originalUrl: string;
+    originalMimetype: string;
+    sourceMimetype: string;
+    shapedUrl: string;
+    mockupFileId: string | null;
+    mockupUrl: string;
+    print: PrintDimensions;
+    quality: QualityReport;
+    customization: CustomizationData;
+    manifest: DesignManifest;
+    message: string;
+    sessionIdUsed: string;
+    productIdUsed: string;
+    sessionIdChanged: boolean;
+    sessionIdChangeReason: string;
+  }> {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    try {
+      // Convert HEIC/WebP/AVIF to PNG or JPEG, apply EXIF orientation and strip metadata.
+      // Everything below works on the normalized image, never on the raw upload.
+      const original = await normalizeImage(file);
+
+      // Pattern backgrounds need their tile image; it is ignored for other modes
+      let backgroundImage: Buffer | undefined;
+      if (customizationData.background?.type === 'pattern') {
+        if (!options.backgroundImage) {
+          throw new BadRequestException(
+            'backgroundImage is required for a pattern background',
+          );
+        }
+        backgroundImage = (await normalizeImage(options.backgroundImage))
+          .buffer;
+      }
+
+      // Slot, shape, text layout, print size and quality are all checked before anything is stored
+      const slot = await this.resolveSlot(productId, options.slot);
+      const design = await this.prepareDesign(
+        original,
+        customizationData,
+        productId,
+        options.minDpi,
+        slot,
+      );
+      const { shape, printSize, quality } = design;
+
+      const originalSessionId = sessionId;
+      let finalSessionId = sessionId;
+      let sessionIdChangeReason = '';
+      let sessionIdChanged = false;
+
+      // Step 1: Check if session_id + product_id exists in Shopify orders
+      const sessionIdResult = await this.generateUniqueSessionId(
+        sessionId,
+        productId,
+      );
+      finalSessionId = sessionIdResult.sessionId;
+      sessionIdChangeReason = sessionIdResult.reason;
+      sessionIdChanged = originalSessionId !== finalSessionId;
+
+      if (sessionIdChanged) {
+        this.logger.log(
+          `Session ID conflict with Shopify orders for product ${productId}. Original: ${originalSessionId}, Generated new: ${finalSessionId}. Reason: ${sessionIdChangeReason}`,
+        );
+      } else {
+        // Session ID + Product ID combination not in Shopify orders
+        // Step 2: Check if folder already exists in storage
+        const folderPath = `customizer/${sessionId}-${productId}`;
+        const { data: existingFiles, error: listError } =
+          await this.storage.list('customizer-uploads', folderPath, {
+            limit: 1,
+          });
+
+        if (existingFiles && existingFiles.length > 0) {
+          // Folder exists, will reuse it and replace images
+          sessionIdChangeReason = `Session ID + Product ID not in Shopify orders. Folder exists in storage, reusing and replacing existing images.`;
+          this.logger.log(
+            `Session ID valid (not in Shopify orders). Reusing existing session-product folder: ${folderPath}`,
+          );
+        } else {
+          // No conflict and no existing folder - use normally
+          sessionIdChangeReason = `Session ID + Product ID not in Shopify orders and no existing folder. Creating new upload.`;
+          this.logger.log(
+            `Session ID validated: ${originalSessionId}. No conflicts or existing storage.`,
+          );
+        }
+      }
+
+      // Use folder structure: customizer/sessionId-productId/ (or its slot subfolder)
+      const finalFolderPath = this.getDesignFolder(
+        finalSessionId,
+        productId,
+        slot,
+      );
+      const originalFileName = `original.${original.extension}`;
+      const originalFilePath = `${finalFolderPath}/${originalFileName}`;
+      const backgroundFilePath = `${finalFolderPath}/${BACKGROUND_FILE_NAME}`;
+
+      this.logger.log(
+        `Uploading customized image for session: ${finalSessionId}, product: ${productId}${slot ? `, slot: ${slot.id}` : ''} (shape: ${customizationData.shape})`,
+      );
+
+      // Keep the design being replaced in the render history
+      await this.archiveCurrentRender(finalFolderPath);
+
+      // Delete all existing files in the session-product folder to ensure clean replacement
+      try {
+        const { data: existingFiles, error: listError } =
+          await this.storage.listAll('customizer-uploads', finalFolderPath);
+
+        if (!listError && existingFiles && existingFiles.length > 0) {
+          const filePaths = existingFiles
+            .filter(
+              (f: any) =>
+                f.name !== HISTORY_FOLDER_NAME && f.name !== SLOTS_FOLDER_NAME,
+            )
+            .map((f: any) => `${finalFolderPath}/${f.name}`);
+          const { error: deleteError } = await this.storage.remove(
+            'customizer-uploads',
+            filePaths,
+          );
+
+          if (deleteError) {
+            this.logger.warn(
+              `Failed to delete old files for ${finalFolderPath}: ${deleteError.message}`,
+            );
+          } else {
+            this.logger.log(
+              `Deleted ${filePaths.length} old file(s) from ${finalFolderPath}`,
+            );
+          }
+        }
+      } catch (deleteError) {
+        this.logger.debug(`Error during cleanup: ${deleteError}`);
+      }
+      await this.removeProductionFiles(finalFolderPath);
+
+      // Upload original image
+      const { error: originalUploadError } = await this.storage.upload(
+        'customizer-uploads',
+        originalFilePath,
+        original.buffer,
+        {
+          contentType: original.mimetype,
+          cacheControl: '3600',
+          upsert: true,
+          // Record what the customer actually uploaded (e.g. image/heic)
+          metadata: { sourceMimetype: original.sourceMimetype },
+        },
+      );
+
+      if (originalUploadError) {
+        throw new BadRequestException(
+          `Failed to upload original image: ${originalUploadError.message}`,
+        );
+      }
+
+      // Keep the pattern tile next to the original so the design can be re-rendered later
+      if (backgroundImage) {
+        const { error: backgroundUploadError } = await this.storage.upload(
+          'customizer-uploads',
+          backgroundFilePath,
+          await sharp(backgroundImage).png().toBuffer(),
+          {
+            contentType: 'image/png',
+            cacheControl: '3600',
+            upsert: true,
+          },
+        );
+
+        if (backgroundUploadError) {
+          throw new BadRequestException(
+            `Failed to upload background image: ${backgroundUploadError.message}`,
+          );
+        }
+      }
+
+      const renders = await this.renderDesign(
+        finalFolderPath,
+        original.buffer,
+        customizationData,
+        design,
+        backgroundImage,
+      );
+
+      const manifest = await this.writeManifest(finalFolderPath, {
+        sessionId: finalSessionId,
+        productId,
+        source: 'upload',
+        original,
+        originalFileName,
+        sourceSha256: sha256(file.buffer),
+        backgroundImage,
+        customizationData,
+        design,
+        renders,
+      });
+      if (slot) {
+        await this.removeSlotLayout(
+          `customizer/${finalSessionId}-${productId}`,
+        );
+      }
+      await this.recordSession(finalSessionId, productId);
+
+      // original.png is replaced in place, so its URL is versioned by content
+      const originalUrl = await this.assetUrls.url(
+        originalFilePath,
+        contentVersion(original.buffer),
+      );
+
+      this.logger.log(
+        `Successfully uploaded original, shaped and print images for session: ${finalSessionId}, product: ${productId}`,
+      );
+
+      return {
+        success: true,
+        slot: slot?.id ?? null,
+        originalFileId: originalFilePath,
+        shapedFileId: renders.shapedFileId,
+        printFileId: renders.printFileId,
+        cutFileIds: renders.cutFileIds,
+        originalUrl,
+        originalMimetype: original.mimetype,
+        sourceMimetype: original.sourceMimetype,
+        mockupFileId: renders.mockupFileId,
+        shapedUrl: renders.shapedUrl,
+        mockupUrl: renders.mockupUrl,
+        print: printSize,
+        quality,
+        customization: { ...customizationData, shape: shape.id },
+        manifest,
+        message: 'Image customized and uploaded successfully',
+        sessionIdUsed: finalSessionId,
+        productIdUsed: productId,
+        sessionIdChanged: sessionIdChanged,
+        sessionIdChangeReason: sessionIdChangeReason,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to upload customized image for session ${sessionId}:`,
+        error,
+      );
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to upload customized image');
+    }
+  }
+
+  /**
+   * Re-render a design from the original already stored for a session-product,
+   * so position/zoom/shape changes do not need the photo to be uploaded again.
+   * Previous shaped and print renders in the folder are replaced; they stay
+   * available in the render history.
+   */
+  async renderSessionImage(
+    sessionId: string,
+    productId: string,
+    customizationData: CustomizationData,
+    options: { minDpi?: number; slot?: string } = {},
+  ): Promise<{
+    success: boolean;
+    slot: string | null;
+    originalFileId: string;
+    shapedFileId: string;
+    printFileId: string;
+    cutFileIds: { svg: string; dxf: string };
+    shapedUrl: string;
+    mockupFileId: string | null;
+    mockupUrl: string;
+    print: PrintDimensions;
+    quality: QualityReport;
+    customization: CustomizationData;
+    manifest: DesignManifest;
+    message: string;
+    sessionIdUsed: string;
+    productIdUsed: string;
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    try {
+      // Designs that are already part of an order must not change under the customer
+      const sessionIdResult = await this.generateUniqueSessionId(
+        sessionId,
+        productId,
+      );
+      if (sessionIdResult.sessionId !== sessionId) {
+        throw new BadRequestException(
+          'This design is already part of an order. Upload the photo again to start a new design.',
+        );
+      }
+
+      const slot = await this.resolveSlot(productId, options.slot);
+      const folderPath = this.getDesignFolder(sessionId, productId, slot);
+      const { data: files, error: listError } = await this.storage.listAll(
+        'customizer-uploads',
+        folderPath,
+      );
+
+      if (listError) {
+        throw new BadRequestException(
+          `Failed to list session files: ${listError.message}`,
+        );
+      }
+
+      const originalEntry = (files || []).find((f: any) =>
+        /^original\.(png|jpe?g)$/i.test(f?.name || ''),
+      );
+      if (!originalEntry) {
+        throw new NotFoundException(
+          'Original image not found for this session. Upload the photo first.',
+        );
+      }
+
+      const originalFilePath = `${folderPath}/${originalEntry.name}`;
+      const originalBuffer = await this.downloadFile(originalFilePath);
+      if (!originalBuffer) {
+        throw new BadRequestException('Failed to download original image');
+      }
+      // Uploads from before normalization may still carry EXIF orientation
+      const original = await normalizeImage({ buffer: originalBuffer });
+
+      let backgroundImage: Buffer | undefined;
+      if (customizationData.background?.type === 'pattern') {
+        backgroundImage =
+          (await this.downloadFile(`${folderPath}/${BACKGROUND_FILE_NAME}`)) ??
+          undefined;
+        if (!backgroundImage) {
+          throw new BadRequestException(
+            'No background image stored for this session. Upload one with the photo to use a pattern background.',
+          );
+        }
+      }
+
+      const design = await this.prepareDesign(
+        original,
+        customizationData,
+        productId,
+        options.minDpi,
+        slot,
+      );
+
+      await this.archiveCurrentRender(folderPath);
+
+      const renders = await this.renderDesign(
+        folderPath,
+        original.buffer,
+        customizationData,
+        design,
+        backgroundImage,
+      );
+
+      // What the customer uploaded is only known from the manifest written at upload time
+      const previousManifest = await this.readManifest(folderPath);
+      const manifest = await this.writeManifest(folderPath, {
+        sessionId,
+        productId,
+        source: 'rerender',
+        original: {
+          ...original,
+          buffer: originalBuffer,
+          sourceMimetype:
+            previousManifest?.input?.sourceMimetype ?? original.sourceMimetype,
+        },
+        originalFileName: originalEntry.name,
+        sourceSha256: previousManifest?.input?.sourceSha256 ?? null,
+        backgroundImage,
+        customizationData,
+        design,
+        renders,
+      });
+
+      // Drop the renders this one replaces; original, background and QR files stay
+      const knownShapes = await this.shapeRegistry.getShapeIds();
+      const staleRenders = (files || [])
+        .map((f: any) => String(f?.name || ''))
+        .filter(
+          (name: string) =>
+            /^mockup_.+\.jpg$/i.test(name) ||
+            (name.toLowerCase().endsWith('.png') &&
+              (name.toLowerCase().startsWith('print_') ||
+                knownShapes.has(this.shapeIdFromFileName(name)))),
+        )
+        .map((name: string) => `${folderPath}/${name}`);
+
+      if (staleRenders.length > 0) {
+        const { error: removeError } = await this.storage.remove(
+          'customizer-uploads',
+          staleRenders,
+        );
+        if (removeError) {
+          this.logger.warn(
+            `Failed to remove previous renders in ${folderPath}: ${removeError.message}`,
+          );
+        }
+      }
+      await this.removeProductionFiles(folderPath, {
+        keep: [
+          renders.printFileId,
+          renders.cutFileIds.svg,
+          renders.cutFileIds.dxf,
+        ],
+      });
+      if (slot) {
+        await this.removeSlotLayout(`customizer/${sessionId}-${productId}`);
+      }
+      await this.recordSession(sessionId, productId);
+
+      this.logger.log(
+        `Re-rendered ${design.shape.id} design for session: ${sessionId}, product: ${productId}${slot ? `, slot: ${slot.id}` : ''}`,
+      );
+
+      return {
+        success: true,
+        slot: slot?.id ?? null,
+        originalFileId: originalFilePath,
+        shapedFileId: renders.shapedFileId,
+        printFileId: renders.printFileId,
+        cutFileIds: renders.cutFileIds,
+        mockupFileId: renders.mockupFileId,
+        shapedUrl: renders.shapedUrl,
+        mockupUrl: renders.mockupUrl,
+        print: design.printSize,
+        quality: design.quality,
+        customization: { ...customizationData, shape: design.shape.id },
+        manifest,
+        message: 'Design re-rendered from stored original',
+        sessionIdUsed: sessionId,
+        productIdUsed: productId,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to re-render design for session ${sessionId}:`,
+        error,
+      );
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to re-render design');
+    }
+  }
+
+  /**
+   * Compose the slot designs of a session-product onto the product: a watermarked
+   * preview from the slot previews (layout.png) and, once every slot is filled, the
+   * clean print file at the product's trim size with mirrored bleed (layout_print.png
+   * in the production bucket). Both are rebuilt on every call.
+   */
+  async getSessionLayout(
+    sessionId: string,
+    productId: string,
+  ): Promise<{
+    sessionId: string;
+    productId: string;
+    complete: boolean;
+    missingSlots: string[];
+    layoutFileId: string;
+    layoutUrl: string;
+    printLayoutFileId: string | null;
+    print: PrintDimensions;
+    slots: SlotDesign[];
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
 
-      if (originalUploadError) {
+    this.storage.assertAvailable();
+
+    try {
+      const spec = await this.productSpecService.getSpec(productId);
+      if (spec.slots.length === 0) {
         throw new BadRequestException(
-          `Failed to upload original image: ${originalUploadError.message}`,
+          `Product ${productId} has no print slots`,
         );
       }
 
-      // Transform and apply shape mask
-      const metadata = await sharp(file.buffer).metadata();
+      const folderPath = `customizer/${sessionId}-${productId}`;
+
+      const slots: SlotDesign[] = [];
+      for (const slot of spec.slots) {
+        const slotFolder = getSlotFolder(folderPath, slot.id);
+        const manifest = await this.readManifest(slotFolder);
+        const shapedFileId = manifest
+          ? `${slotFolder}/${manifest.renders.preview.file}`
+          : null;
+        slots.push({
+          ...slot,
+          shapedFileId,
+          shapedUrl: shapedFileId ? await this.assetUrls.url(shapedFileId) : '',
+          printFileId: manifest
+            ? `${slotFolder}/${manifest.renders.print.file}`
+            : null,
+          customization: manifest?.customization ?? null,
+          quality: manifest?.quality ?? null,
+        });
+      }
 
-      // The storefront now sends center-based percentages (0..100 where 50 === center).
-      // Use the provided `customizationData` directly when transforming the image.
-      const transformedImage = await this.transformImage(
-        file.buffer,
-        { x: customizationData.x, y: customizationData.y, zoom: customizationData.zoom, shape: customizationData.shape } as any,
-        500,
-        500,
-      );
-      const shapedImage = await this.applyShapeMask(
-        transformedImage,
-        500,
-        500,
-        customizationData.shape,
+      const filled = slots.filter((slot) => slot.shapedFileId);
+      if (filled.length === 0) {
+        throw new NotFoundException(
+          `No slot designs found for session ${sessionId} and product ${productId}`,
+        );
+      }
+      const missingSlots = slots
+        .filter((slot) => !slot.shapedFileId)
+        .map((slot) => slot.id);
+
+      // Slot rectangles are percentages of the trim; slots touching an edge are clipped to it
+      const composeLayout = async (
+        width: number,
+        height: number,
+        designs: Array<{ slot: PrintSlot; buffer: Buffer }>,
+      ): Promise<Buffer> => {
+        const layers: sharp.OverlayOptions[] = [];
+        for (const { slot, buffer } of designs) {
+          const left = Math.round((slot.x / 100) * width);
+          const top = Math.round((slot.y / 100) * height);
+          const slotWidth = Math.max(
+            1,
+            Math.min(width - left, Math.round((slot.width / 100) * width)),
+          );
+          const slotHeight = Math.max(
+            1,
+            Math.min(height - top, Math.round((slot.height / 100) * height)),
+          );
+          layers.push({
+            input: await sharp(buffer)
+              .resize(slotWidth, slotHeight, { fit: 'fill' })
+              .png()
+              .toBuffer(),
+            left,
+            top,
+          });
+        }
+        return sharp({
+          create: {
+            width,
+            height,
+            channels: 4,
+            background: { r: 0, g: 0, b: 0, alpha: 0 },
+          },
+        })
+          .composite(layers)
+          .png()
+          .toBuffer();
+      };
+
+      // Slot products always have a fixed trim height (enforced when slots are saved)
+      const trimHeightMm = spec.heightMm ?? spec.widthMm;
+      const print = this.productSpecService.getPrintDimensions(
+        spec,
+        spec.widthMm / trimHeightMm,
       );
 
-      // Upload shaped image
-      const { error: shapedUploadError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .upload(shapedFilePath, shapedImage, {
+      // Preview from the watermarked slot previews
+      const previews: Array<{ slot: PrintSlot; buffer: Buffer }> = [];
+      for (const slot of filled) {
+        const buffer = await this.downloadFile(slot.shapedFileId!);
+        if (buffer) previews.push({ slot, buffer });
+      }
+      const layout = await composeLayout(
+        LAYOUT_PREVIEW_WIDTH,
+        Math.max(
+          1,
+          Math.round((LAYOUT_PREVIEW_WIDTH * trimHeightMm) / spec.widthMm),
+        ),
+        previews,
+      );
+      const layoutFileId = `${folderPath}/${LAYOUT_FILE_NAME}`;
+      const { error: layoutUploadError } = await this.storage.upload(
+        'customizer-uploads',
+        layoutFileId,
+        layout,
+        {
           contentType: 'image/png',
           cacheControl: '3600',
           upsert: true,
-        });
-
-      if (shapedUploadError) {
+        },
+      );
+      if (layoutUploadError) {
         throw new BadRequestException(
-          `Failed to upload shaped image: ${shapedUploadError.message}`,
+          `Failed to upload layout preview: ${layoutUploadError.message}`,
         );
       }
 
-      // Get public URLs
-      const { data: originalUrlData } = this.supabase.storage
-        .from('customizer-uploads')
-        .getPublicUrl(originalFilePath);
-
-      const { data: shapedUrlData } = this.supabase.storage
-        .from('customizer-uploads')
-        .getPublicUrl(shapedFilePath);
-
-      // Add aggressive cache-busting: use timestamp + random string to force fresh fetch
-      const baseOriginalUrl = originalUrlData?.publicUrl || '';
-      const baseShapedUrl = shapedUrlData?.publicUrl || '';
-      const cacheBuster = `v=${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-      const originalUrlWithCacheBust = baseOriginalUrl
-        ? `${baseOriginalUrl}${baseOriginalUrl.includes('?') ? '&' : '?'}${cacheBuster}`
-        : '';
-      const shapedUrlWithCacheBust = baseShapedUrl
-        ? `${baseShapedUrl}${baseShapedUrl.includes('?') ? '&' : '?'}${cacheBuster}`
-        : '';
+      // The print layout is only produced once every slot has a clean print file
+      let printLayoutFileId: string | null = null;
+      if (missingSlots.length === 0) {
+        const prints: Array<{ slot: PrintSlot; buffer: Buffer }> = [];
+        for (const slot of filled) {
+          const buffer = await this.downloadFile(
+            slot.printFileId!,
+            getProductionBucket(),
+          );
+          if (buffer) prints.push({ slot, buffer });
+        }
 
-      this.logger.log(
-        `Successfully uploaded both images for session: ${finalSessionId}, product: ${productId}`,
-      );
+        if (prints.length === filled.length) {
+          let printLayout = await composeLayout(
+            print.widthPx,
+            print.heightPx,
+            prints,
+          );
+          if (print.bleedPx > 0) {
+            printLayout = await sharp(printLayout)
+              .extend({
+                top: print.bleedPx,
+                bottom: print.bleedPx,
+                left: print.bleedPx,
+                right: print.bleedPx,
+                extendWith: 'mirror',
+              })
+              .png()
+              .toBuffer();
+          }
+          printLayout = await sharp(printLayout)
+            .withMetadata({ density: print.dpi })
+            .png()
+            .toBuffer();
+
+          const printFilePath = `${folderPath}/${PRINT_LAYOUT_FILE_NAME}`;
+          const { error: printUploadError } = await this.storage.upload(
+            getProductionBucket(),
+            printFilePath,
+            printLayout,
+            {
+              contentType: 'image/png',
+              cacheControl: '3600',
+              upsert: true,
+            },
+          );
+          if (printUploadError) {
+            throw new BadRequestException(
+              `Failed to upload print layout: ${printUploadError.message}`,
+            );
+          }
+          printLayoutFileId = printFilePath;
+        } else {
+          this.logger.warn(
+            `Print files missing for some slots of ${folderPath}; print layout not composed`,
+          );
+        }
+      }
 
       return {
-        success: true,
-        originalFileId: originalFilePath,
-        shapedFileId: shapedFilePath,
-        originalUrl: originalUrlWithCacheBust,
-        shapedUrl: shapedUrlWithCacheBust,
-        message: 'Image customized and uploaded successfully',
-        sessionIdUsed: finalSessionId,
-        productIdUsed: productId,
-        sessionIdChanged: sessionIdChanged,
-        sessionIdChangeReason: sessionIdChangeReason,
+        sessionId,
+        productId,
+        complete: missingSlots.length === 0,
+        missingSlots,
+        layoutFileId,
+        layoutUrl: await this.assetUrls.url(
+          layoutFileId,
+          contentVersion(layout),
+        ),
+        printLayoutFileId,
+        print,
+        slots,
       };
     } catch (error) {
       this.logger.error(
-        `Failed to upload customized image for session ${sessionId}:`,
+        `Failed to compose layout for session ${sessionId}:`,
         error,
       );
-      if (error instanceof BadRequestException) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
         throw error;
       }
-      throw new BadRequestException('Failed to upload customized image');
+      throw new BadRequestException('Failed to compose layout');
+    }
+  }
+
+  /**
+   * Record the current files of a session-product folder, slot designs included,
+   * in the sessions table
+   */
+  private async recordSession(
+    sessionId: string,
+    productId: string,
+  ): Promise<void> {
+    const folderPath = this.getDesignFolder(sessionId, productId, null);
+    const { data: files } = await this.storage.listAll(
+      'customizer-uploads',
+      folderPath,
+    );
+    const slotFiles = await this.listSlotFiles(folderPath);
+
+    await this.sessions.record(
+      sessionId,
+      productId,
+      [
+        // Subfolders (history, slots) have no id
+        ...(files || []).filter((f) => f.id !== null).map((f) => f.name),
+        ...slotFiles.map((f) => f.path.substring(folderPath.length + 1)),
+      ],
+      { replace: true },
+    );
+  }
+
+  /**
+   * Remove the composed layout of a session-product once one of its slots changes,
+   * so a stale print layout is never handed to production
+   */
+  private async removeSlotLayout(folderPath: string): Promise<void> {
+    if (!this.storage.isConfigured()) return;
+
+    await this.storage.remove('customizer-uploads', [
+      `${folderPath}/${LAYOUT_FILE_NAME}`,
+    ]);
+    await this.storage.remove(getProductionBucket(), [
+      `${folderPath}/${PRINT_LAYOUT_FILE_NAME}`,
+    ]);
+  }
+
+  /**
+   * Download a file from the customizer bucket (or `bucket`); null when it does not exist
+   */
+  private async downloadFile(
+    filePath: string,
+    bucket = 'customizer-uploads',
+  ): Promise<Buffer | null> {
+    if (!this.storage.isConfigured()) return null;
+
+    const { data, error } = await this.storage.download(bucket, filePath);
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Files in the slot subfolders of a session-product folder, with archived renders
+   * when `includeHistory` is set. Storage lists are not recursive, so each slot is
+   * listed on its own; history files carry no timestamp.
+   */
+  private async listSlotFiles(
+    folderPath: string,
+    options: { bucket?: string; includeHistory?: boolean } = {},
+  ): Promise<Array<{ path: string; updatedAt: string | null }>> {
+    if (!this.storage.isConfigured()) return [];
+
+    const bucket = options.bucket ?? 'customizer-uploads';
+    const slotsPath = `${folderPath}/${SLOTS_FOLDER_NAME}`;
+    const { data: slotEntries, error } = await this.storage.listAll(
+      bucket,
+      slotsPath,
+    );
+    if (error || !slotEntries) return [];
+
+    const files: Array<{ path: string; updatedAt: string | null }> = [];
+    for (const slotEntry of slotEntries) {
+      if (!slotEntry?.name) continue;
+      const slotFolder = `${slotsPath}/${slotEntry.name}`;
+
+      const { data: slotFiles } = await this.storage.listAll(
+        bucket,
+        slotFolder,
+      );
+      for (const f of slotFiles || []) {
+        if (!f?.name || f.name === HISTORY_FOLDER_NAME) continue;
+        files.push({
+          path: `${slotFolder}/${f.name}`,
+          updatedAt: f.updated_at || f.created_at || null,
+        });
+      }
+
+      if (options.includeHistory) {
+        for (const historyPath of await this.renderHistory.listFilePaths(
+          slotFolder,
+          bucket,
+        )) {
+          files.push({ path: historyPath, updatedAt: null });
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Remove a folder's clean files from the production bucket, except the `keep` paths.
+   * Archived renders are only removed with `includeHistory`, slot designs only with
+   * `includeSlots`. Returns the number of files removed; failures are logged, not thrown.
+   */
+  private async removeProductionFiles(
+    folderPath: string,
+    options: {
+      keep?: string[];
+      includeHistory?: boolean;
+      includeSlots?: boolean;
+    } = {},
+  ): Promise<number> {
+    if (!this.storage.isConfigured()) return 0;
+
+    const bucket = getProductionBucket();
+    const { data: files, error: listError } = await this.storage.listAll(
+      bucket,
+      folderPath,
+    );
+
+    if (listError) {
+      this.logger.warn(
+        `Failed to list production files in ${folderPath}: ${listError.message}`,
+      );
+      return 0;
+    }
+
+    const keep = new Set(options.keep ?? []);
+    const filePaths = [
+      ...(files || [])
+        .filter(
+          (f: any) =>
+            f?.name &&
+            f.name !== HISTORY_FOLDER_NAME &&
+            f.name !== SLOTS_FOLDER_NAME,
+        )
+        .map((f: any) => `${folderPath}/${f.name}`),
+      ...(options.includeHistory
+        ? await this.renderHistory.listFilePaths(folderPath, bucket)
+        : []),
+      ...(options.includeSlots
+        ? (
+            await this.listSlotFiles(folderPath, {
+              bucket,
+              includeHistory: options.includeHistory,
+            })
+          ).map((f) => f.path)
+        : []),
+    ].filter((filePath: string) => !keep.has(filePath));
+
+    if (filePaths.length === 0) return 0;
+
+    const { error: removeError } = await this.storage.remove(bucket, filePaths);
+    if (removeError) {
+      this.logger.warn(
+        `Failed to remove production files in ${folderPath}: ${removeError.message}`,
+      );
+      return 0;
     }
+    return filePaths.length;
   }
 
   /**
    * Cleanup orphaned session-product folders older than `graceDays` and not referenced in any Shopify orders.
-   * - Lists folders under `customizer/`
+   * - Lists active session folders from the sessions table
    * - For each folder, determines last-modified timestamp from contained files
    * - If older than grace period and not referenced in orders, deletes all files in that folder
    */
@@ -570,25 +2545,15 @@ export class CustomizerService {
     skippedFolders: string[];
     errors: Array<{ folder: string; error: string }>;
   }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
-      );
-    }
+    this.storage.assertAvailable();
 
     const deletedFolders: string[] = [];
     const skippedFolders: string[] = [];
     const errors: Array<{ folder: string; error: string }> = [];
 
     try {
-      // List top-level entries under customizer/ (should be per-session folders)
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        throw new Error(listRootError.message || 'Failed to list customizer root');
-      }
+      // Session folders recorded on upload, with their session id
+      const sessions = await this.sessions.listActive();
 
       const ordersResponse = await this.shopifyService.getOrders(250, 'any');
       const existingOrders = ordersResponse.orders || [];
@@ -596,25 +2561,24 @@ export class CustomizerService {
       const now = Date.now();
       const graceMs = graceDays * 24 * 60 * 60 * 1000;
 
-      if (!entries || entries.length === 0) {
+      if (sessions.length === 0) {
         return { deletedFolders, skippedFolders, errors };
       }
 
       const forceAll = !!options?.force;
 
       if (forceAll) {
-        this.logger.warn('Force delete enabled: removing all folders under customizer');
+        this.logger.warn(
+          'Force delete enabled: removing all folders under customizer',
+        );
       }
 
-      // entries may represent folders (by name). Iterate each folder name
-      for (const entry of entries) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+      for (const session of sessions) {
+        const folderPath = session.storagePrefix;
 
         try {
-          const { data: files, error: listFilesError } = await this.supabase.storage
-            .from('customizer-uploads')
-            .list(folderPath);
+          const { data: files, error: listFilesError } =
+            await this.storage.listAll('customizer-uploads', folderPath);
 
           if (listFilesError) {
             errors.push({ folder: folderPath, error: listFilesError.message });
@@ -623,22 +2587,35 @@ export class CustomizerService {
 
           if (!files || files.length === 0) {
             // Empty folder - delete (force and non-force both delete empty)
-            const { error: removeError } = await this.supabase.storage
-              .from('customizer-uploads')
-              .remove([folderPath]);
+            const { error: removeError } = await this.storage.remove(
+              'customizer-uploads',
+              [folderPath],
+            );
 
             if (removeError) {
               errors.push({ folder: folderPath, error: removeError.message });
             } else {
+              await this.sessions.markDeleted(folderPath);
               deletedFolders.push(folderPath);
             }
             continue;
           }
 
+          // Slot designs live in subfolders the listing above does not descend into
+          const slotFiles = await this.listSlotFiles(folderPath, {
+            includeHistory: true,
+          });
+
           // Determine last modified across files
           let latestTs = 0;
-          for (const f of files) {
-            const tsStr = f.updated_at || f.last_modified || f.created_at || f.timeCreated || f.metadata?.updated_at;
+          for (const f of [
+            ...files,
+            ...slotFiles.map((slotFile) => ({
+              updated_at: slotFile.updatedAt,
+              created_at: null,
+            })),
+          ]) {
+            const tsStr = f.updated_at || f.created_at;
             if (tsStr) {
               const parsed = Date.parse(tsStr as string);
               if (!Number.isNaN(parsed)) {
@@ -649,16 +2626,27 @@ export class CustomizerService {
 
           // If forceAll is true, delete without checking timestamps or orders
           if (forceAll) {
-            const filePaths = files.map((f: any) => `${folderPath}/${f.name}`);
-            const { error: deleteError } = await this.supabase.storage
-              .from('customizer-uploads')
-              .remove(filePaths);
+            const filePaths = [
+              ...files.map((f: any) => `${folderPath}/${f.name}`),
+              // Storage lists are not recursive; history entries live in a subfolder
+              ...(await this.renderHistory.listFilePaths(folderPath)),
+              ...slotFiles.map((slotFile) => slotFile.path),
+            ];
+            const { error: deleteError } = await this.storage.remove(
+              'customizer-uploads',
+              filePaths,
+            );
 
             if (deleteError) {
               errors.push({ folder: folderPath, error: deleteError.message });
               continue;
             }
+            await this.removeProductionFiles(folderPath, {
+              includeHistory: true,
+              includeSlots: true,
+            });
 
+            await this.sessions.markDeleted(folderPath);
             deletedFolders.push(folderPath);
             continue;
           }
@@ -675,8 +2663,7 @@ export class CustomizerService {
             continue;
           }
 
-          // Extract sessionId from folder name (format: sessionId-productId or sessionId)
-          const sessionId = folderName.split('-')[0];
+          const { sessionId } = session;
 
           // Check orders for any reference to sessionId
           const isReferenced = existingOrders.some((order: any) => {
@@ -694,19 +2681,32 @@ export class CustomizerService {
           }
 
           // Delete all files in the folder
-          const filePaths = files.map((f: any) => `${folderPath}/${f.name}`);
-          const { error: deleteError } = await this.supabase.storage
-            .from('customizer-uploads')
-            .remove(filePaths);
+          const filePaths = [
+            ...files.map((f: any) => `${folderPath}/${f.name}`),
+            ...(await this.renderHistory.listFilePaths(folderPath)),
+            ...slotFiles.map((slotFile) => slotFile.path),
+          ];
+          const { error: deleteError } = await this.storage.remove(
+            'customizer-uploads',
+            filePaths,
+          );
 
           if (deleteError) {
             errors.push({ folder: folderPath, error: deleteError.message });
             continue;
           }
+          await this.removeProductionFiles(folderPath, {
+            includeHistory: true,
+            includeSlots: true,
+          });
 
+          await this.sessions.markDeleted(folderPath);
           deletedFolders.push(folderPath);
         } catch (innerErr) {
-          errors.push({ folder: folderPath, error: innerErr?.message || String(innerErr) });
+          errors.push({
+            folder: folderPath,
+            error: innerErr?.message || String(innerErr),
+          });
         }
       }
 
@@ -727,11 +2727,7 @@ export class CustomizerService {
     skippedFolders: string[];
     errors: Array<{ folder?: string; error: string }>;
   }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
-      );
-    }
+    this.storage.assertAvailable();
 
     const deletedFolders: string[] = [];
     const deletedUploads: string[] = [];
@@ -739,15 +2735,9 @@ export class CustomizerService {
     const errors: Array<{ folder?: string; error: string }> = [];
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        throw new Error(listRootError.message || 'Failed to list customizer root');
-      }
+      const sessions = await this.sessions.listActive();
 
-      if (!entries || entries.length === 0) {
+      if (sessions.length === 0) {
         return { deletedFolders, deletedUploads, skippedFolders, errors };
       }
 
@@ -756,18 +2746,11 @@ export class CustomizerService {
 
       const forceAll = !!options?.force;
 
-      for (const entry of entries) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+      for (const session of sessions) {
+        const folderPath = session.storagePrefix;
 
         try {
-          // Extract base sessionId (prefix before '-')
-          const sessionId = folderName.split('-')[0];
-
-          if (!sessionId) {
-            skippedFolders.push(folderPath);
-            continue;
-          }
+          const { sessionId } = session;
 
           // Determine whether sessionId appears in any order
           const isReferenced = existingOrders.some((order: any) => {
@@ -785,9 +2768,8 @@ export class CustomizerService {
           }
 
           // List files in the folder
-          const { data: files, error: listFilesError } = await this.supabase.storage
-            .from('customizer-uploads')
-            .list(folderPath);
+          const { data: files, error: listFilesError } =
+            await this.storage.listAll('customizer-uploads', folderPath);
 
           if (listFilesError) {
             errors.push({ folder: folderPath, error: listFilesError.message });
@@ -796,58 +2778,80 @@ export class CustomizerService {
 
           if (!files || files.length === 0) {
             // remove empty folder if possible
-            const { error: removeError } = await this.supabase.storage
-              .from('customizer-uploads')
-              .remove([folderPath]);
+            const { error: removeError } = await this.storage.remove(
+              'customizer-uploads',
+              [folderPath],
+            );
 
             if (removeError) {
               errors.push({ folder: folderPath, error: removeError.message });
             } else {
+              await this.sessions.markDeleted(folderPath);
               deletedFolders.push(folderPath);
             }
             continue;
           }
 
           // Delete files
-          const filePaths = files.map((f: any) => `${folderPath}/${f.name}`);
-          const { error: deleteError } = await this.supabase.storage
-            .from('customizer-uploads')
-            .remove(filePaths);
+          const filePaths = [
+            ...files.map((f: any) => `${folderPath}/${f.name}`),
+            ...(await this.renderHistory.listFilePaths(folderPath)),
+            ...(
+              await this.listSlotFiles(folderPath, { includeHistory: true })
+            ).map((slotFile) => slotFile.path),
+          ];
+          const { error: deleteError } = await this.storage.remove(
+            'customizer-uploads',
+            filePaths,
+          );
 
           if (deleteError) {
             errors.push({ folder: folderPath, error: deleteError.message });
             continue;
           }
+          await this.removeProductionFiles(folderPath, {
+            includeHistory: true,
+            includeSlots: true,
+          });
 
+          await this.sessions.markDeleted(folderPath);
           deletedFolders.push(folderPath);
 
           // Also delete product upload records that reference this sessionId
           try {
-            const uploads = await this.productUploadsService.getUploadsBySession(sessionId);
+            const uploads =
+              await this.productUploadsService.getUploadsBySession(sessionId);
             for (const u of uploads || []) {
               try {
                 // Attempt to remove storage files for the product code
-                if (this.supabase) {
-                  await this.supabase.storage
-                    .from('customizer-uploads')
-                    .remove([
-                      `products/${u.code}/${u.code}.png`,
-                      `products/${u.code}/qr_code.png`,
-                    ]);
+                if (this.storage.isConfigured()) {
+                  await this.storage.remove(
+                    'customizer-uploads',
+                    getProductFilePaths(u.code),
+                  );
                 }
 
                 await this.productUploadsService.deleteUpload(u.code);
                 deletedUploads.push(u.code);
               } catch (innerDelErr) {
-                errors.push({ folder: `product:${u.code}`, error: innerDelErr?.message || String(innerDelErr) });
+                errors.push({
+                  folder: `product:${u.code}`,
+                  error: innerDelErr?.message || String(innerDelErr),
+                });
               }
             }
           } catch (puErr) {
             // Log but continue
-            this.logger.warn(`Failed to remove product uploads for session ${sessionId}:`, puErr);
+            this.logger.warn(
+              `Failed to remove product uploads for session ${sessionId}:`,
+              puErr,
+            );
           }
         } catch (innerErr) {
-          errors.push({ folder: folderPath, error: innerErr?.message || String(innerErr) });
+          errors.push({
+            folder: folderPath,
+            error: innerErr?.message || String(innerErr),
+          });
         }
       }
 
@@ -875,9 +2879,10 @@ export class CustomizerService {
 
       this.logger.log(`Deleting session folder: ${folderPath}`);
 
-      const { data: files, error: listError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list(folderPath);
+      const { data: files, error: listError } = await this.storage.listAll(
+        'customizer-uploads',
+        folderPath,
+      );
 
       if (listError) {
         this.logger.error(`Failed to list files: ${listError.message}`);
@@ -892,24 +2897,46 @@ export class CustomizerService {
         };
       }
 
-      const filePaths = files.map((file: any) => `${folderPath}/${file.name}`);
-      const { error: deleteError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .remove(filePaths);
+      const filePaths = [
+        ...files
+          .filter(
+            (file: any) =>
+              file.name !== HISTORY_FOLDER_NAME &&
+              file.name !== SLOTS_FOLDER_NAME,
+          )
+          .map((file: any) => `${folderPath}/${file.name}`),
+        ...(await this.renderHistory.listFilePaths(folderPath)),
+        ...(await this.listSlotFiles(folderPath, { includeHistory: true })).map(
+          (slotFile) => slotFile.path,
+        ),
+      ];
+      const { error: deleteError } = await this.storage.remove(
+        'customizer-uploads',
+        filePaths,
+      );
 
       if (deleteError) {
         this.logger.error(`Failed to delete files: ${deleteError.message}`);
         throw new BadRequestException('Failed to delete session files');
       }
 
+      const filesDeleted =
+        filePaths.length +
+        (await this.removeProductionFiles(folderPath, {
+          includeHistory: true,
+          includeSlots: true,
+        }));
+
+      await this.sessions.markDeleted(folderPath);
+
       this.logger.log(
-        `Deleted ${files.length} files from session: ${sessionId}`,
+        `Deleted ${filesDeleted} files from session: ${sessionId}`,
       );
 
       return {
         success: true,
-        message: `Session cleanup completed. ${files.length} files deleted.`,
-        filesDeleted: files.length,
+        message: `Session cleanup completed. ${filesDeleted} files deleted.`,
+        filesDeleted,
       };
     } catch (error) {
       this.logger.error(
@@ -941,73 +2968,268 @@ export class CustomizerService {
   }
 
   /**
-   * Return shaped image public URLs for a sessionId.
-   * Finds folders named `sessionId` or `sessionId-<productId>` and returns any pngs except `original.png`.
+   * Clean production files of a session from the private bucket, with signed URLs
+   * that expire after getProductionUrlTtl() seconds. Covers folders named `sessionId`
+   * or `sessionId-<productId>`, narrowed to one product when `productId` is given.
    */
-  async getShapesBySession(sessionId: string): Promise<{
+  async getProductionFiles(
+    sessionId: string,
+    productId?: string,
+  ): Promise<{
     sessionId: string;
+    expiresIn: number;
     folders: Array<{
       folder: string;
-      shapedFiles: Array<{ name: string; publicUrl: string }>;
+      files: Array<{ name: string; fileId: string; signedUrl: string }>;
     }>;
   }> {
     if (!sessionId || sessionId.trim() === '') {
       throw new BadRequestException('Session ID is required');
     }
 
-    if (!this.supabase) {
+    this.storage.assertAvailable();
+
+    const bucket = getProductionBucket();
+    const expiresIn = getProductionUrlTtl();
+
+    try {
+      // Production folders mirror the customizer-uploads ones
+      const matched = await this.sessions.find(sessionId, productId);
+
+      const folders: Array<{
+        folder: string;
+        files: Array<{ name: string; fileId: string; signedUrl: string }>;
+      }> = [];
+
+      for (const entry of matched) {
+        const folderPath = entry.storagePrefix;
+
+        const { data: files, error: listFilesError } =
+          await this.storage.listAll(bucket, folderPath);
+
+        if (listFilesError) {
+          continue;
+        }
+
+        // Slot designs are listed by their path inside the folder (slots/<slot>/...)
+        const candidates = [
+          ...(files || [])
+            .filter(
+              (f: any) =>
+                f?.name &&
+                f.name !== HISTORY_FOLDER_NAME &&
+                f.name !== SLOTS_FOLDER_NAME,
+            )
+            .map((f: any) => String(f.name)),
+          ...(await this.listSlotFiles(folderPath, { bucket })).map((f) =>
+            f.path.substring(folderPath.length + 1),
+          ),
+        ];
+
+        const signedFiles: Array<{
+          name: string;
+          fileId: string;
+          signedUrl: string;
+        }> = [];
+        for (const name of candidates) {
+          const fileId = `${folderPath}/${name}`;
+          const { data: signedUrl, error: signError } =
+            await this.storage.signedUrl(bucket, fileId, expiresIn);
+
+          if (signError || !signedUrl) {
+            this.logger.warn(
+              `Failed to sign production file ${fileId}: ${signError?.message ?? 'no URL returned'}`,
+            );
+            continue;
+          }
+          signedFiles.push({ name, fileId, signedUrl });
+        }
+
+        if (signedFiles.length > 0) {
+          folders.push({ folder: folderPath, files: signedFiles });
+        }
+      }
+
+      if (folders.length === 0) {
+        throw new NotFoundException(
+          'No production files found for this session',
+        );
+      }
+
+      return { sessionId, expiresIn, folders };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch production files for session ${sessionId}:`,
+        error,
+      );
+      if (error instanceof NotFoundException) throw error;
+      throw new BadRequestException('Failed to fetch production files');
+    }
+  }
+
+  /**
+   * Fresh URLs for files of a session in customizer-uploads, for storefront
+   * pages whose signed URLs expired. Every file id must lie in one of the
+   * session's folders; `expiresIn` is null when URLs do not expire.
+   */
+  async refreshAssetUrls(
+    sessionId: string,
+    fileIds: string[],
+  ): Promise<{
+    sessionId: string;
+    expiresIn: number | null;
+    urls: Record<string, string>;
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+    if (
+      !Array.isArray(fileIds) ||
+      fileIds.length === 0 ||
+      fileIds.some((fileId) => typeof fileId !== 'string')
+    ) {
+      throw new BadRequestException(
+        'fileIds must be a non-empty array of file ids',
+      );
+    }
+    if (fileIds.length > MAX_REFRESHED_ASSETS) {
+      throw new BadRequestException(
+        `At most ${MAX_REFRESHED_ASSETS} file ids can be refreshed at once`,
+      );
+    }
+
+    this.storage.assertAvailable();
+
+    const prefixes = (await this.sessions.find(sessionId)).map(
+      (entry) => `${entry.storagePrefix}/`,
+    );
+    const foreign = fileIds.find(
+      (fileId) =>
+        !prefixes.some((prefix) => fileId.startsWith(prefix)) ||
+        fileId.split('/').includes('..'),
+    );
+    if (foreign !== undefined) {
       throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
+        `File ${foreign} does not belong to session ${sessionId}`,
       );
     }
 
-    try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
+    const urls: Record<string, string> = {};
+    for (const fileId of new Set(fileIds)) {
+      urls[fileId] = await this.assetUrls.url(fileId);
+    }
 
-      if (listRootError) {
-        throw new Error(listRootError.message || 'Failed to list customizer root');
-      }
+    return { sessionId, expiresIn: this.assetUrls.expiresIn(), urls };
+  }
 
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
+  /**
+   * Laser cut outline of the current render of a session-product folder (or slot),
+   * read from the production bucket as named by the manifest
+   */
+  async getCutPathFile(
+    sessionId: string,
+    productId: string,
+    format: 'svg' | 'dxf',
+    slotId?: string,
+  ): Promise<{ fileName: string; contentType: string; buffer: Buffer }> {
+    const manifest = await this.getSessionManifest(
+      sessionId,
+      productId,
+      slotId,
+    );
+    const cut = manifest.renders.cut;
+    if (!cut) {
+      throw new NotFoundException(
+        'No cut path for this design; re-render it to generate one',
+      );
+    }
+
+    const fileName = cut[format];
+    const slot = await this.resolveSlot(productId, slotId);
+    const buffer = await this.downloadFile(
+      `${this.getDesignFolder(sessionId, productId, slot)}/${fileName}`,
+      getProductionBucket(),
+    );
+    if (!buffer) {
+      throw new NotFoundException(`Cut path file ${fileName} not found`);
+    }
+
+    return {
+      fileName,
+      contentType: format === 'svg' ? 'image/svg+xml' : 'application/dxf',
+      buffer,
+    };
+  }
+
+  /**
+   * Return shaped image public URLs for a sessionId.
+   * Finds folders named `sessionId` or `sessionId-<productId>` and returns any pngs except `original.png`.
+   * Each shaped image carries the URL of its product mockup when one was rendered.
+   */
+  async getShapesBySession(sessionId: string): Promise<{
+    sessionId: string;
+    folders: Array<{
+      folder: string;
+      shapedFiles: Array<{
+        name: string;
+        publicUrl: string;
+        mockupUrl: string | null;
+      }>;
+    }>;
+  }> {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    this.storage.assertAvailable();
+
+    try {
+      const matched = await this.sessions.find(sessionId);
+      const knownShapes = await this.shapeRegistry.getShapeIds();
 
       const folders: Array<any> = [];
 
       for (const entry of matched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } =
+          await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError) {
           // skip folder on error
           continue;
         }
 
-        const shapedFiles: Array<{ name: string; publicUrl: string }> = [];
+        const shapedFiles: Array<{
+          name: string;
+          publicUrl: string;
+          mockupUrl: string | null;
+        }> = [];
+        const fileNames = new Set(
+          (files || []).map((f: any) => String(f?.name || '')),
+        );
+        const publicUrlOf = (name: string) =>
+          this.assetUrls.url(`${folderPath}/${name}`);
 
         for (const f of files || []) {
           if (!f || !f.name) continue;
-          if (f.name === 'original.png') continue;
           if (!f.name.toLowerCase().endsWith('.png')) continue;
+          // Only shaped renders (<shape>_<timestamp>.png): skips the original, the
+          // background, print renders, the slot layout and legacy shape.png/qr.png
+          if (!knownShapes.has(this.shapeIdFromFileName(f.name))) continue;
 
-          const filePath = `${folderPath}/${f.name}`;
-          const { data: urlData } = this.supabase.storage
-            .from('customizer-uploads')
-            .getPublicUrl(filePath);
+          const publicUrl = await publicUrlOf(f.name);
 
-          const baseUrl = urlData?.publicUrl || '';
-          const cacheBuster = `v=${Date.now()}_${Math.random().toString(36).substring(2,8)}`;
-          const publicUrl = baseUrl ? `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}${cacheBuster}` : '';
+          const mockupName = getMockupFileName(f.name);
 
           if (publicUrl) {
-            shapedFiles.push({ name: f.name, publicUrl });
+            shapedFiles.push({
+              name: f.name,
+              publicUrl,
+              mockupUrl: fileNames.has(mockupName)
+                ? await publicUrlOf(mockupName)
+                : null,
+            });
           }
         }
 
@@ -1016,7 +3238,10 @@ export class CustomizerService {
 
       return { sessionId, folders };
     } catch (error) {
-      this.logger.error(`Failed to fetch shapes for session ${sessionId}:`, error);
+      this.logger.error(
+        `Failed to fetch shapes for session ${sessionId}:`,
+        error,
+      );
       throw new BadRequestException('Failed to fetch shaped images');
     }
   }
@@ -1039,45 +3264,25 @@ export class CustomizerService {
       throw new BadRequestException('Session ID is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
-      );
-    }
+    this.storage.assertAvailable();
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        throw new Error(listRootError.message || 'Failed to list customizer root');
-      }
-
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
-
       // If productId specified, narrow to the specific folder if present
-      const productId = options?.productId;
-      let filteredMatched = matched;
-      if (productId) {
-        const exact = `${sessionId}-${productId}`;
-        filteredMatched = matched.filter((e: any) => e.name === exact || e.name === sessionId);
-      }
+      const filteredMatched = await this.sessions.find(
+        sessionId,
+        options?.productId,
+      );
 
-      let best: { folder: string; name: string; publicUrl: string; timestamp: number } | null = null;
+      let best: { folder: string; name: string; timestamp: number } | null =
+        null;
 
-      const knownShapes = new Set(['circle', 'heart', 'rectangle']);
+      const knownShapes = await this.shapeRegistry.getShapeIds();
 
       for (const entry of filteredMatched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } =
+          await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError || !files) {
           continue;
@@ -1089,10 +3294,8 @@ export class CustomizerService {
           if (lower === 'original.png') continue;
           if (!lower.endsWith('.png')) continue;
 
-          // extract shape prefix from filename (before '_' or '-')
-          const base = lower.split('.')[0];
-          const m = base.match(/^([a-z]+)[_\-]?.*/i);
-          const candidate = m ? m[1].toLowerCase() : '';
+          // extract shape id from filename (<shape>_<timestamp>.png)
+          const candidate = this.shapeIdFromFileName(lower);
           if (!knownShapes.has(candidate)) {
             // skip non-shape files (e.g., qr_code.png)
             continue;
@@ -1103,9 +3306,9 @@ export class CustomizerService {
             continue;
           }
 
-          // Determine timestamp: prefer metadata fields from Supabase response
+          // Determine timestamp: prefer metadata fields from the storage listing
           let ts = 0;
-          const possible = f.updated_at || f.last_modified || f.created_at || f.timeCreated || f.metadata?.updated_at;
+          const possible = f.updated_at || f.created_at;
           if (possible) {
             const parsed = Date.parse(possible as string);
             if (!Number.isNaN(parsed)) ts = parsed;
@@ -1125,18 +3328,8 @@ export class CustomizerService {
 
           // If still zero, set to epoch 0 so it won't be chosen over anything with a timestamp
 
-          const filePath = `${folderPath}/${f.name}`;
-          const { data: urlData } = this.supabase.storage
-            .from('customizer-uploads')
-            .getPublicUrl(filePath);
-
-          const baseUrl = urlData?.publicUrl || '';
-          if (!baseUrl) continue;
-          const cacheBuster = `v=${Date.now()}_${Math.random().toString(36).substring(2,8)}`;
-          const publicUrl = `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}${cacheBuster}`;
-
           if (!best || ts > best.timestamp) {
-            best = { folder: folderPath, name: f.name, publicUrl, timestamp: ts };
+            best = { folder: folderPath, name: f.name, timestamp: ts };
           }
         }
       }
@@ -1145,9 +3338,23 @@ export class CustomizerService {
         throw new NotFoundException('No shaped image found for this session');
       }
 
-      return { sessionId, folder: best.folder, name: best.name, publicUrl: best.publicUrl, timestamp: best.timestamp };
+      const publicUrl = await this.assetUrls.url(`${best.folder}/${best.name}`);
+      if (!publicUrl) {
+        throw new NotFoundException('No shaped image found for this session');
+      }
+
+      return {
+        sessionId,
+        folder: best.folder,
+        name: best.name,
+        publicUrl,
+        timestamp: best.timestamp,
+      };
     } catch (error) {
-      this.logger.error(`Failed to fetch latest shape for session ${sessionId}:`, error);
+      this.logger.error(
+        `Failed to fetch latest shape for session ${sessionId}:`,
+        error,
+      );
       if (error instanceof NotFoundException) throw error;
       throw new BadRequestException('Failed to fetch shaped image');
     }
@@ -1155,7 +3362,7 @@ export class CustomizerService {
 
   /**
    * Return the set of shape types present for a sessionId.
-   * Parses shaped filenames (expected format: <shape>[_|-]<timestamp>.png) and returns known shapes.
+   * Parses shaped filenames (expected format: <shape>[_|-]<timestamp>.png) and returns registered shapes.
    */
   async getShapeTypesBySession(sessionId: string): Promise<{
     sessionId: string;
@@ -1166,37 +3373,21 @@ export class CustomizerService {
       throw new BadRequestException('Session ID is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.',
-      );
-    }
+    this.storage.assertAvailable();
 
-    const knownShapes = new Set(['circle', 'heart', 'rectangle']);
     const foundShapes = new Set<string>();
     const folders: Array<{ folder: string; shapes: string[] }> = [];
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        throw new Error(listRootError.message || 'Failed to list customizer root');
-      }
+      const knownShapes = await this.shapeRegistry.getShapeIds();
 
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
+      const matched = await this.sessions.find(sessionId);
 
       for (const entry of matched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } =
+          await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError || !files) {
           continue;
@@ -1210,24 +3401,36 @@ export class CustomizerService {
           if (name === 'original.png') continue;
           if (!name.endsWith('.png')) continue;
 
-          // extract segment before first underscore or dash
-          const base = name.split('.')[0];
-          const m = base.match(/^([a-z]+)[_\-]?.*/i);
-          if (!m) continue;
-          const candidate = m[1].toLowerCase();
+          const candidate = this.shapeIdFromFileName(name);
           if (knownShapes.has(candidate)) {
             shapesInFolder.add(candidate);
             foundShapes.add(candidate);
           }
         }
 
-        folders.push({ folder: folderPath, shapes: Array.from(shapesInFolder) });
+        folders.push({
+          folder: folderPath,
+          shapes: Array.from(shapesInFolder),
+        });
       }
 
       return { sessionId, shapes: Array.from(foundShapes), folders };
     } catch (error) {
-      this.logger.error(`Failed to fetch shape types for session ${sessionId}:`, error);
+      this.logger.error(
+        `Failed to fetch shape types for session ${sessionId}:`,
+        error,
+      );
       throw new BadRequestException('Failed to fetch shape types');
     }
   }
+
+  /**
+   * Extract the shape id from a shaped filename (<shape>[_|-]<timestamp>.png).
+   * Shape ids may contain hyphens, so only a trailing numeric segment is stripped.
+   */
+  private shapeIdFromFileName(fileName: string): string {
+    const base = fileName.toLowerCase().replace(/\.png$/, '');
+    const m = base.match(/^(.+?)(?:[_-]\d+)?$/);
+    return m ? m[1] : '';
+  }
 }
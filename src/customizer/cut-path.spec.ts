@@ -0,0 +1,83 @@
+import { buildCutPath, cutPathToDxf, cutPathToSvg } from './cut-path';
+
+const square = {
+  path: 'M0,0 L100,0 L100,100 L0,100 Z',
+  viewBox: '0 0 100 100',
+};
+// Square frame: outer square with a square hole
+const frame = {
+  path: 'M0,0 L100,0 L100,100 L0,100 Z M25,25 L25,75 L75,75 L75,25 Z',
+  viewBox: '0 0 100 100',
+};
+
+function bounds(points: Array<{ x: number; y: number }>) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+}
+
+describe('buildCutPath', () => {
+  it('fits the shape into the trim and shifts it by the bleed', () => {
+    const cut = buildCutPath(square, {
+      widthMm: 80,
+      heightMm: 60,
+      bleedMm: 3,
+    });
+
+    expect(cut.widthMm).toBe(86);
+    expect(cut.heightMm).toBe(66);
+    expect(cut.outlines).toHaveLength(1);
+    // Centred like preserveAspectRatio="xMidYMid meet"
+    const box = bounds(cut.outlines[0]);
+    expect(box.minX).toBeCloseTo(13);
+    expect(box.maxX).toBeCloseTo(73);
+    expect(box.minY).toBeCloseTo(3);
+    expect(box.maxY).toBeCloseTo(63);
+  });
+
+  it('grows outlines and shrinks holes by half the kerf', () => {
+    const cut = buildCutPath(
+      frame,
+      { widthMm: 100, heightMm: 100, bleedMm: 0 },
+      0.2,
+    );
+
+    const [outer, hole] = cut.outlines.map(bounds);
+    expect(outer.minX).toBeCloseTo(-0.1);
+    expect(outer.maxX).toBeCloseTo(100.1);
+    expect(hole.minX).toBeCloseTo(25.1);
+    expect(hole.maxX).toBeCloseTo(74.9);
+  });
+});
+
+describe('cut path export', () => {
+  const cut = buildCutPath(frame, { widthMm: 50, heightMm: 50, bleedMm: 2 });
+
+  it('writes an SVG in millimetres with one path per outline', () => {
+    const svg = cutPathToSvg(cut);
+
+    expect(svg).toContain('width="54mm" height="54mm" viewBox="0 0 54 54"');
+    expect(svg.match(/<path /g)).toHaveLength(2);
+  });
+
+  it('writes a DXF with one closed polyline per outline, y flipped', () => {
+    const lines = cutPathToDxf(cut).trim().split('\n');
+
+    expect(lines.filter((line) => line === 'POLYLINE')).toHaveLength(2);
+    expect(lines.filter((line) => line === 'VERTEX')).toHaveLength(8);
+    expect(lines.slice(-2)).toEqual(['0', 'EOF']);
+    // First vertex of the outer square: (2, 2) from the top is y = 52 in DXF
+    const vertex = lines.indexOf('VERTEX');
+    expect(lines.slice(vertex + 3, vertex + 7)).toEqual([
+      '10',
+      '2',
+      '20',
+      '52',
+    ]);
+  });
+});
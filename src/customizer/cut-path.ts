@@ -0,0 +1,152 @@
+import { ShapeDefinition } from './shape-registry.service';
+import { Point, flattenSvgPath, offsetPolygon, polygonArea } from './svg-path';
+
+/** Closed cut outlines in millimetres, on a canvas the size of the print file */
+export interface CutPath {
+  /** Canvas size: trim plus bleed on every side, so the outline registers with the print */
+  widthMm: number;
+  heightMm: number;
+  /** Closed polygons (first point repeated last), y pointing down */
+  outlines: Point[][];
+}
+
+/** Straight segments per curve; at product sizes this keeps the chord error well below a laser's kerf */
+const CURVE_SEGMENTS = 64;
+
+/**
+ * Outline of a shape at a physical size, matching the mask the renders use: the
+ * viewBox is fitted into the trim like preserveAspectRatio="xMidYMid meet", then
+ * shifted by the bleed. Every outline is offset by half the kerf so the laser cuts
+ * outside the piece (and inside holes), leaving the part at its nominal size.
+ */
+export function buildCutPath(
+  shape: Pick<ShapeDefinition, 'path' | 'viewBox'>,
+  size: { widthMm: number; heightMm: number; bleedMm: number },
+  kerfMm: number = 0,
+): CutPath {
+  const [minX, minY, viewBoxWidth, viewBoxHeight] = shape.viewBox
+    .split(/[\s,]+/)
+    .map(Number);
+  const scale = Math.min(
+    size.widthMm / viewBoxWidth,
+    size.heightMm / viewBoxHeight,
+  );
+  const offsetX = (size.widthMm - viewBoxWidth * scale) / 2 + size.bleedMm;
+  const offsetY = (size.heightMm - viewBoxHeight * scale) / 2 + size.bleedMm;
+
+  const polygons = flattenSvgPath(shape.path, CURVE_SEGMENTS)
+    .filter((points) => points.length >= 3)
+    .map((points) =>
+      points.map((p) => ({
+        x: (p.x - minX) * scale + offsetX,
+        y: (p.y - minY) * scale + offsetY,
+      })),
+    )
+    .filter((points) => Math.abs(polygonArea(points)) > 1e-6);
+
+  const outlines = polygons.map((points, index) => {
+    if (kerfMm <= 0) return points;
+    // Subpaths inside an odd number of others are holes: they shrink instead of grow
+    const depth = polygons.filter(
+      (other, otherIndex) =>
+        otherIndex !== index && containsPoint(other, points[0]),
+    ).length;
+    return offsetPolygon(points, depth % 2 === 0 ? kerfMm / 2 : -kerfMm / 2);
+  });
+
+  return {
+    widthMm: size.widthMm + size.bleedMm * 2,
+    heightMm: size.heightMm + size.bleedMm * 2,
+    outlines,
+  };
+}
+
+/** Even-odd point-in-polygon test */
+function containsPoint(polygon: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * SVG in millimetres with the outlines as red hairlines, the usual "cut" convention
+ * of laser software
+ */
+export function cutPathToSvg(cut: CutPath): string {
+  const paths = cut.outlines
+    .map((points) => {
+      const ring = points.slice(0, -1);
+      const d = ring
+        .map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`)
+        .join(' ');
+      return `  <path d="${d} Z" fill="none" stroke="#ff0000" stroke-width="0.01"/>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${round(cut.widthMm)}mm" height="${round(cut.heightMm)}mm" viewBox="0 0 ${round(cut.widthMm)} ${round(cut.heightMm)}">
+${paths}
+</svg>
+`;
+}
+
+/**
+ * ASCII DXF (R12 entities, millimetre units) with one closed POLYLINE per outline on
+ * layer CUT. DXF's y axis points up, so outlines are flipped within the canvas.
+ */
+export function cutPathToDxf(cut: CutPath): string {
+  // DXF is a flat list of (group code, value) pairs
+  const pairs: Array<[number, string | number]> = [
+    [0, 'SECTION'],
+    [2, 'HEADER'],
+    [9, '$ACADVER'],
+    [1, 'AC1009'],
+    [9, '$INSUNITS'],
+    [70, 4],
+    [9, '$EXTMIN'],
+    [10, 0],
+    [20, 0],
+    [9, '$EXTMAX'],
+    [10, round(cut.widthMm)],
+    [20, round(cut.heightMm)],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'],
+    [2, 'ENTITIES'],
+  ];
+
+  for (const points of cut.outlines) {
+    // 66: vertices follow, 10/20/30: the R12 dummy point, 70: closed polyline
+    pairs.push(
+      [0, 'POLYLINE'],
+      [8, 'CUT'],
+      [66, 1],
+      [10, 0],
+      [20, 0],
+      [30, 0],
+      [70, 1],
+    );
+    for (const p of points.slice(0, -1)) {
+      pairs.push(
+        [0, 'VERTEX'],
+        [8, 'CUT'],
+        [10, round(p.x)],
+        [20, round(cut.heightMm - p.y)],
+      );
+    }
+    pairs.push([0, 'SEQEND'], [8, 'CUT']);
+  }
+
+  pairs.push([0, 'ENDSEC'], [0, 'EOF']);
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+}
@@ -0,0 +1,30 @@
+import { describeFile, getAppVersion } from './design-manifest';
+
+describe('design manifest helpers', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('describes a file by name, sha256 and size', () => {
+    expect(describeFile('original.png', Buffer.from('abc'))).toEqual({
+      file: 'original.png',
+      sha256:
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      sizeBytes: 3,
+    });
+  });
+
+  it('prefers APP_VERSION for the app version', () => {
+    process.env = { ...env, APP_VERSION: '1.2.3' };
+    expect(getAppVersion()).toBe('1.2.3');
+  });
+
+  it('falls back to the package.json version', () => {
+    process.env = { ...env };
+    delete process.env.APP_VERSION;
+    delete process.env.VERCEL_GIT_COMMIT_SHA;
+    expect(getAppVersion()).toBe('0.0.1');
+  });
+});
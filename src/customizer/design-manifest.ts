@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CustomizationData } from './customization-data';
+import { PrintDimensions } from './product-spec.service';
+import { QualityReport } from './image-quality';
+
+/** Sidecar written next to the renders in every session-product folder */
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/** Bumped when the manifest layout changes in a way readers must handle */
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestFile {
+  /** File name inside the session-product folder */
+  file: string;
+  /** SHA-256 of the stored bytes, hex encoded */
+  sha256: string;
+  sizeBytes: number;
+}
+
+export interface DesignManifest {
+  manifestVersion: number;
+  sessionId: string;
+  productId: string;
+  /** Print slot the design fills, for products with several */
+  slot?: string;
+  /** When this render was produced (ISO 8601) */
+  createdAt: string;
+  appVersion: string;
+  /**
+   * `upload` for a fresh photo, `rerender` when the stored original was reused,
+   * `revert` when an earlier render was restored from the history
+   */
+  source: 'upload' | 'rerender' | 'revert';
+  /** History entry id the design was restored from */
+  revertedFrom?: string;
+  input: ManifestFile & {
+    mimetype: string;
+    /** Format the customer actually uploaded (e.g. image/heic) */
+    sourceMimetype: string;
+    /** SHA-256 of the file as uploaded, before normalization; null when unknown */
+    sourceSha256: string | null;
+    width: number;
+    height: number;
+  };
+  /** Tile for `pattern` backgrounds */
+  backgroundImage: ManifestFile | null;
+  /** Full customization payload as applied, with the resolved shape id */
+  customization: CustomizationData;
+  /** Design template layered over the photo, as it was when rendered */
+  template?: { id: string; name: string; updatedAt: string | null } | null;
+  renders: {
+    preview: { file: string; width: number; height: number };
+    print: { file: string } & PrintDimensions;
+    /** Design shown on the product photo, when the product has a mockup template */
+    mockup?: { file: string; width: number; height: number } | null;
+    /** Laser cut outlines (production bucket), registered with the print file */
+    cut?: { svg: string; dxf: string; kerfMm: number } | null;
+  };
+  quality: QualityReport;
+}
+
+export function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Describe a stored file by name, hash and size
+ */
+export function describeFile(file: string, buffer: Buffer): ManifestFile {
+  return { file, sha256: sha256(buffer), sizeBytes: buffer.length };
+}
+
+let cachedAppVersion: string | null = null;
+
+/**
+ * Version of the running app: APP_VERSION, the deployed commit on Vercel, or the
+ * package.json version
+ */
+export function getAppVersion(): string {
+  if (process.env.APP_VERSION) return process.env.APP_VERSION;
+  if (process.env.VERCEL_GIT_COMMIT_SHA) {
+    return process.env.VERCEL_GIT_COMMIT_SHA;
+  }
+
+  if (cachedAppVersion === null) {
+    try {
+      const pkg = JSON.parse(
+        fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf8'),
+      ) as { version?: string };
+      cachedAppVersion = String(pkg.version || 'unknown');
+    } catch {
+      cachedAppVersion = process.env.npm_package_version || 'unknown';
+    }
+  }
+  return cachedAppVersion;
+}
@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DEFAULT_TEMPLATE_ANCHOR,
+  assertSafeSvg,
+  parseTemplateAnchor,
+  placeTemplate,
+} from './design-template.service';
+
+describe('parseTemplateAnchor', () => {
+  it('parses JSON or flat fields with defaults', () => {
+    expect(parseTemplateAnchor({})).toBeUndefined();
+    expect(parseTemplateAnchor({ anchor: '{"position":"fill"}' })).toEqual(
+      DEFAULT_TEMPLATE_ANCHOR,
+    );
+    expect(
+      parseTemplateAnchor({
+        anchorPosition: 'Bottom-Right',
+        anchorWidth: '40',
+        anchorOffsetY: '-5',
+        clip: 'false',
+      }),
+    ).toEqual({
+      position: 'bottom-right',
+      width: 40,
+      offsetX: 0,
+      offsetY: -5,
+      clip: false,
+    });
+  });
+
+  it('rejects unknown positions and out-of-range sizes', () => {
+    expect(() => parseTemplateAnchor({ anchorPosition: 'middle' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parseTemplateAnchor({ anchor: { width: 0 } })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parseTemplateAnchor({ anchor: { offsetX: 150 } })).toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('placeTemplate', () => {
+  const anchor = { ...DEFAULT_TEMPLATE_ANCHOR, width: 40 };
+
+  it('stretches fill templates over the trim area', () => {
+    expect(placeTemplate(DEFAULT_TEMPLATE_ANCHOR, 10, 20, 500, 400)).toEqual({
+      left: 0,
+      top: 0,
+      width: 500,
+      height: 400,
+    });
+  });
+
+  it('pins sized templates to their anchor point, keeping the aspect ratio', () => {
+    expect(
+      placeTemplate(
+        { ...anchor, position: 'bottom-right' },
+        200,
+        100,
+        500,
+        500,
+      ),
+    ).toEqual({ left: 300, top: 400, width: 200, height: 100 });
+    expect(
+      placeTemplate({ ...anchor, position: 'top' }, 200, 100, 500, 500),
+    ).toEqual({ left: 150, top: 0, width: 200, height: 100 });
+    expect(
+      placeTemplate(
+        { ...anchor, position: 'center', offsetX: 10, offsetY: -10 },
+        200,
+        100,
+        500,
+        500,
+      ),
+    ).toEqual({ left: 200, top: 150, width: 200, height: 100 });
+  });
+});
+
+describe('assertSafeSvg', () => {
+  const svg = (body: string, attributes = '') =>
+    `<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"${attributes}>${body}</svg>`;
+
+  it('accepts drawings with in-document and raster image references', () => {
+    expect(() =>
+      assertSafeSvg(
+        svg(
+          '<defs><linearGradient id="g"/></defs>' +
+            '<rect fill="url(#g)" style="fill: url(\'#g\')" width="10" height="10"/>' +
+            '<use href="#g"/><image href="data:image/png;base64,AAAA"/>',
+        ),
+      ),
+    ).not.toThrow();
+  });
+
+  it('rejects scripts, handlers, entities and external references', () => {
+    for (const markup of [
+      svg('<script>alert(1)</script>'),
+      svg(
+        '<html:script xmlns:html="http://www.w3.org/1999/xhtml">alert(1)</html:script>',
+      ),
+      svg('<foreignObject><div/></foreignObject>'),
+      svg('<set attributeName="href" to="javascript:alert(1)"/>'),
+      svg('', ' onload="alert(1)"'),
+      svg('<rect width="1" height="1" ONCLICK = "alert(1)"/>'),
+      `<!DOCTYPE svg [<!ENTITY x "y">]>${svg('')}`,
+      svg('<a href="javascript:alert(1)"><text>x</text></a>'),
+      svg('<image href="https://example.com/x.png"/>'),
+      svg('<image href="data:image/svg+xml;base64,PHN2Zz4="/>'),
+      svg('<rect style="fill: url(https://example.com/x.svg)"/>'),
+      svg('<style>@import "https://example.com/x.css";</style>'),
+      '<div>not an svg</div>',
+    ]) {
+      expect(() => assertSafeSvg(markup)).toThrow(BadRequestException);
+    }
+  });
+});
@@ -0,0 +1,648 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import sharp from 'sharp';
+import { normalizeImage } from './image-normalizer';
+
+export const TEMPLATE_KINDS = [
+  'frame',
+  'sticker',
+  'border',
+  'text-art',
+] as const;
+export type TemplateKind = (typeof TEMPLATE_KINDS)[number];
+
+export const TEMPLATE_POSITIONS = [
+  'fill',
+  'center',
+  'top',
+  'bottom',
+  'left',
+  'right',
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+] as const;
+export type TemplatePosition = (typeof TEMPLATE_POSITIONS)[number];
+
+/**
+ * Where a template sits on the shaped render. `fill` stretches the asset over the
+ * whole trim area (frames, borders); the other positions pin it to that point of the
+ * trim area at `width` percent of the trim width, keeping the asset's aspect ratio.
+ */
+export interface TemplateAnchor {
+  position: TemplatePosition;
+  /** Asset width as a percentage of the trim width (ignored for fill) */
+  width: number;
+  /** Shift from the anchored position, in percentages of the trim width / height */
+  offsetX: number;
+  offsetY: number;
+  /** Keep the asset inside the shape outline; off lets stickers overhang the edge */
+  clip: boolean;
+}
+
+export interface DesignTemplate {
+  id: string;
+  name: string;
+  kind: TemplateKind;
+  /** Free-form labels for filtering, e.g. `mothers-day` or `christmas` */
+  tags: string[];
+  assetPath: string;
+  assetUrl: string;
+  assetType: 'image/png' | 'image/svg+xml';
+  /** Intrinsic asset size, in pixels */
+  assetWidth: number;
+  assetHeight: number;
+  anchor: TemplateAnchor;
+  /** Shape ids the template is made for; empty means any shape */
+  shapes: string[];
+  updatedAt: string | null;
+}
+
+export interface SaveTemplateInput {
+  id: string;
+  name?: string;
+  kind?: string;
+  tags?: unknown;
+  anchor?: TemplateAnchor;
+  shapes?: unknown;
+  asset?: Express.Multer.File;
+}
+
+/** Row of the customizer_design_templates table */
+interface DesignTemplateRow {
+  id: string;
+  name: string;
+  kind: TemplateKind;
+  tags: string[] | null;
+  asset_path: string;
+  asset_type: DesignTemplate['assetType'];
+  asset_width: number | null;
+  asset_height: number | null;
+  anchor: TemplateAnchor;
+  shapes: string[] | null;
+  updated_at: string | null;
+}
+
+const BUCKET = 'customizer-uploads';
+const TABLE = 'customizer_design_templates';
+const TEMPLATE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+/** PNG assets are stored at most this wide; SVG assets are rasterized at render size */
+const MAX_ASSET_WIDTH = 4000;
+const ASSET_CACHE_SIZE = 30;
+
+export const DEFAULT_TEMPLATE_ANCHOR: TemplateAnchor = {
+  position: 'fill',
+  width: 30,
+  offsetX: 0,
+  offsetY: 0,
+  clip: true,
+};
+
+/**
+ * Parse anchor rules from `anchor` (JSON { position, width, offsetX, offsetY, clip })
+ * or the flat fields anchorPosition, anchorWidth, anchorOffsetX, anchorOffsetY, clip.
+ * Undefined when none are given.
+ */
+export function parseTemplateAnchor(
+  body: Record<string, any>,
+): TemplateAnchor | undefined {
+  let raw: unknown = body.anchor;
+  if (raw === undefined || raw === '') {
+    const flat: Record<string, unknown> = {
+      position: body.anchorPosition,
+      width: body.anchorWidth,
+      offsetX: body.anchorOffsetX,
+      offsetY: body.anchorOffsetY,
+      clip: body.clip,
+    };
+    if (Object.values(flat).every((value) => value === undefined)) {
+      return undefined;
+    }
+    raw = flat;
+  }
+
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new BadRequestException('anchor must be valid JSON');
+    }
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new BadRequestException('anchor must be an object');
+  }
+  const fields = raw as Record<string, string | number | boolean | undefined>;
+
+  const given = (value: unknown) => value !== undefined && value !== '';
+  const position = given(fields.position)
+    ? String(fields.position).trim().toLowerCase()
+    : DEFAULT_TEMPLATE_ANCHOR.position;
+  if (!(TEMPLATE_POSITIONS as readonly string[]).includes(position)) {
+    throw new BadRequestException(
+      `anchor.position must be one of: ${TEMPLATE_POSITIONS.join(', ')}`,
+    );
+  }
+
+  const number = (value: unknown, name: string, fallback: number) => {
+    if (!given(value)) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new BadRequestException(`anchor.${name} must be a number`);
+    }
+    return parsed;
+  };
+  const width = number(fields.width, 'width', DEFAULT_TEMPLATE_ANCHOR.width);
+  const offsetX = number(fields.offsetX, 'offsetX', 0);
+  const offsetY = number(fields.offsetY, 'offsetY', 0);
+  if (width <= 0 || width > 100) {
+    throw new BadRequestException('anchor.width must be between 0 and 100');
+  }
+  if (Math.abs(offsetX) > 100 || Math.abs(offsetY) > 100) {
+    throw new BadRequestException(
+      'anchor.offsetX and anchor.offsetY must be between -100 and 100',
+    );
+  }
+
+  return {
+    position: position as TemplatePosition,
+    width,
+    offsetX,
+    offsetY,
+    clip: given(fields.clip)
+      ? ['true', '1', 'yes', 'on'].includes(String(fields.clip).toLowerCase())
+      : DEFAULT_TEMPLATE_ANCHOR.clip,
+  };
+}
+
+/**
+ * Pixel box of a template on a trim area of `width` x `height`
+ */
+export function placeTemplate(
+  anchor: TemplateAnchor,
+  assetWidth: number,
+  assetHeight: number,
+  width: number,
+  height: number,
+): { left: number; top: number; width: number; height: number } {
+  if (anchor.position === 'fill') {
+    return { left: 0, top: 0, width, height };
+  }
+
+  const boxWidth = Math.max(1, Math.round((anchor.width / 100) * width));
+  const boxHeight = Math.max(
+    1,
+    Math.round((boxWidth * assetHeight) / assetWidth),
+  );
+  const [vertical, horizontal] = anchor.position.includes('-')
+    ? anchor.position.split('-')
+    : ['top', 'bottom'].includes(anchor.position)
+      ? [anchor.position, 'center']
+      : ['center', anchor.position];
+
+  const left =
+    horizontal === 'left'
+      ? 0
+      : horizontal === 'right'
+        ? width - boxWidth
+        : (width - boxWidth) / 2;
+  const top =
+    vertical === 'top'
+      ? 0
+      : vertical === 'bottom'
+        ? height - boxHeight
+        : (height - boxHeight) / 2;
+
+  return {
+    left: Math.round(left + (anchor.offsetX / 100) * width),
+    top: Math.round(top + (anchor.offsetY / 100) * height),
+    width: boxWidth,
+    height: boxHeight,
+  };
+}
+
+/**
+ * Reject SVG markup that could run script or load anything when the stored asset is
+ * opened from the storage origin: script-capable elements (also namespace-prefixed),
+ * animations, event handler attributes, entities, and references other than
+ * in-document `#id` links and embedded raster images
+ */
+export function assertSafeSvg(markup: string): void {
+  const references = markup.match(/(?:href|src)\s*=\s*["'][^"']*["']/gi) ?? [];
+  const urls = markup.match(/url\s*\(\s*[^)]*/gi) ?? [];
+  if (
+    !/<svg[\s>]/i.test(markup) ||
+    /<([\w-]+:)?(script|foreignObject|iframe|embed|object|handler|set|animate\w*)[\s/>]/i.test(
+      markup,
+    ) ||
+    /[\s"'/]on[a-z]+\s*=/i.test(markup) ||
+    /<!ENTITY|@import/i.test(markup) ||
+    references.some(
+      (reference) =>
+        !/=\s*["']\s*(#|data:image\/(png|jpe?g|gif|webp)[;,])/i.test(reference),
+    ) ||
+    urls.some((url) => !/^url\s*\(\s*["']?#/i.test(url))
+  ) {
+    throw new BadRequestException(
+      'SVG assets must not contain scripts, event handlers, entities or external references',
+    );
+  }
+}
+
+/**
+ * Staff-curated overlays (frames, stickers, seasonal borders, text art) that customers
+ * layer over their photo. Stored in `customizer_design_templates` with the asset under
+ * `templates/<id>/` in the customizer bucket.
+ */
+@Injectable()
+export class DesignTemplateService {
+  private readonly logger = new Logger(DesignTemplateService.name);
+  /** Downloaded assets, keyed by storage path and template version */
+  private readonly assetCache = new Map<string, Buffer>();
+
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly supabase: SupabaseService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
+
+  /**
+   * Templates in the catalog, optionally narrowed by kind, tag or shape
+   */
+  async listTemplates(
+    filter: { kind?: string; tag?: string; shape?: string } = {},
+  ): Promise<DesignTemplate[]> {
+    const supabase = this.supabase.client;
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to list design templates: ${error.message}`,
+      );
+    }
+
+    const kind = filter.kind?.trim().toLowerCase();
+    const tag = filter.tag?.trim().toLowerCase();
+    const shape = filter.shape?.trim().toLowerCase();
+    const templates = await Promise.all(
+      ((data || []) as DesignTemplateRow[]).map((row) => this.fromRow(row)),
+    );
+    return templates.filter(
+      (template) =>
+        (!kind || template.kind === kind) &&
+        (!tag || template.tags.includes(tag)) &&
+        (!shape ||
+          template.shapes.length === 0 ||
+          template.shapes.includes(shape)),
+    );
+  }
+
+  /**
+   * A template by id, or null when it does not exist
+   */
+  async getTemplate(id: string): Promise<DesignTemplate | null> {
+    const supabase = this.supabase.client;
+    if (!supabase || !id) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('id', id.toLowerCase())
+        .maybeSingle<DesignTemplateRow>();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data ? await this.fromRow(data) : null;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load design template ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Create or update a template. The asset is required for a new template; omitted
+   * fields keep their current values.
+   */
+  async saveTemplate(input: SaveTemplateInput): Promise<DesignTemplate> {
+    const supabase = this.supabase.getClient();
+
+    const id = (input.id || '').trim().toLowerCase();
+    if (!TEMPLATE_ID_PATTERN.test(id) || id.length > 40) {
+      throw new BadRequestException(
+        'Template id must be lowercase letters, digits and single hyphens (max 40 characters)',
+      );
+    }
+
+    const existing = await this.getTemplate(id);
+    if (!existing && !input.asset) {
+      throw new BadRequestException('asset is required for a new template');
+    }
+
+    const name = (input.name ?? existing?.name ?? '').trim();
+    if (!name) {
+      throw new BadRequestException('Template name is required');
+    }
+
+    const kind = (input.kind ?? existing?.kind ?? '').trim().toLowerCase();
+    if (!(TEMPLATE_KINDS as readonly string[]).includes(kind)) {
+      throw new BadRequestException(
+        `kind must be one of: ${TEMPLATE_KINDS.join(', ')}`,
+      );
+    }
+
+    let assetPath = existing?.assetPath ?? '';
+    let assetType = existing?.assetType ?? 'image/png';
+    let assetWidth = existing?.assetWidth ?? 0;
+    let assetHeight = existing?.assetHeight ?? 0;
+    if (input.asset) {
+      const asset = await this.prepareAsset(input.asset);
+      assetType = asset.type;
+      assetWidth = asset.width;
+      assetHeight = asset.height;
+      assetPath = `templates/${id}/asset.${asset.type === 'image/svg+xml' ? 'svg' : 'png'}`;
+
+      const { error } = await this.storage.upload(
+        BUCKET,
+        assetPath,
+        asset.buffer,
+        {
+          contentType: asset.type,
+          cacheControl: '3600',
+          upsert: true,
+        },
+      );
+      if (error) {
+        throw new BadRequestException(
+          `Failed to upload template asset: ${error.message}`,
+        );
+      }
+    }
+
+    const { error } = await supabase.from(TABLE).upsert({
+      id,
+      name,
+      kind,
+      tags:
+        input.tags !== undefined
+          ? parseList(input.tags, 'tags')
+          : (existing?.tags ?? []),
+      asset_path: assetPath,
+      asset_type: assetType,
+      asset_width: assetWidth,
+      asset_height: assetHeight,
+      anchor: input.anchor ?? existing?.anchor ?? DEFAULT_TEMPLATE_ANCHOR,
+      shapes:
+        input.shapes !== undefined
+          ? parseList(input.shapes, 'shapes')
+          : (existing?.shapes ?? []),
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to save design template: ${error.message}`,
+      );
+    }
+
+    // A PNG replaced by an SVG (or the other way round) leaves the old file behind
+    if (existing && existing.assetPath !== assetPath) {
+      await this.storage.remove(BUCKET, [existing.assetPath]);
+    }
+    this.assetCache.clear();
+
+    this.logger.log(`Saved design template ${id}`);
+    return (await this.getTemplate(id))!;
+  }
+
+  /**
+   * Remove a template and its asset. Designs already rendered with it keep their files.
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    const supabase = this.supabase.getClient();
+
+    const existing = await this.getTemplate(id);
+    if (!existing) {
+      throw new NotFoundException(`Design template ${id} not found`);
+    }
+
+    const { error } = await supabase.from(TABLE).delete().eq('id', existing.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete design template: ${error.message}`,
+      );
+    }
+
+    await this.storage.remove(BUCKET, [existing.assetPath]);
+    this.assetCache.clear();
+
+    this.logger.log(`Deleted design template ${existing.id}`);
+  }
+
+  /**
+   * Template layer for a render: the asset placed on a transparent canvas of the trim
+   * size plus `bleed` px on every side, positioned relative to the trim area. SVG
+   * assets are rasterized at the target size so print renders stay sharp.
+   */
+  async renderOverlay(
+    template: DesignTemplate,
+    width: number,
+    height: number,
+    bleed = 0,
+  ): Promise<Buffer> {
+    const box = placeTemplate(
+      template.anchor,
+      template.assetWidth,
+      template.assetHeight,
+      width,
+      height,
+    );
+    const asset = await this.loadAsset(template);
+    const density =
+      template.assetType === 'image/svg+xml'
+        ? Math.min(
+            2400,
+            Math.max(72, (72 * box.width) / (template.assetWidth || box.width)),
+          )
+        : undefined;
+    const layer = await sharp(asset, density ? { density } : undefined)
+      .resize(box.width, box.height, { fit: 'fill' })
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+
+    // Crop whatever an offset pushes past the canvas before compositing
+    const canvasWidth = width + bleed * 2;
+    const canvasHeight = height + bleed * 2;
+    const left = box.left + bleed;
+    const top = box.top + bleed;
+    const visibleLeft = Math.max(0, left);
+    const visibleTop = Math.max(0, top);
+    const visibleWidth = Math.min(canvasWidth, left + box.width) - visibleLeft;
+    const visibleHeight = Math.min(canvasHeight, top + box.height) - visibleTop;
+
+    const canvas = sharp({
+      create: {
+        width: canvasWidth,
+        height: canvasHeight,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    });
+    if (visibleWidth <= 0 || visibleHeight <= 0) {
+      return canvas.png().toBuffer();
+    }
+
+    return canvas
+      .composite([
+        {
+          input: await sharp(layer)
+            .extract({
+              left: visibleLeft - left,
+              top: visibleTop - top,
+              width: visibleWidth,
+              height: visibleHeight,
+            })
+            .png()
+            .toBuffer(),
+          left: visibleLeft,
+          top: visibleTop,
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Validate an uploaded asset: SVG is kept as markup (see assertSafeSvg), anything
+   * else goes through the image normalizer and is stored as PNG
+   */
+  private async prepareAsset(file: Express.Multer.File): Promise<{
+    buffer: Buffer;
+    type: DesignTemplate['assetType'];
+    width: number;
+    height: number;
+  }> {
+    const head = file.buffer.subarray(0, 1024).toString('utf8').trimStart();
+    if (head.startsWith('<')) {
+      assertSafeSvg(file.buffer.toString('utf8'));
+
+      let metadata: sharp.Metadata;
+      try {
+        metadata = await sharp(file.buffer).metadata();
+      } catch {
+        throw new BadRequestException('SVG asset could not be read');
+      }
+      if (!metadata.width || !metadata.height) {
+        throw new BadRequestException('SVG asset needs a width and height');
+      }
+      return {
+        buffer: file.buffer,
+        type: 'image/svg+xml',
+        width: metadata.width,
+        height: metadata.height,
+      };
+    }
+
+    const normalized = await normalizeImage(file);
+    const { data, info } = await sharp(normalized.buffer)
+      .resize({ width: MAX_ASSET_WIDTH, withoutEnlargement: true })
+      .ensureAlpha()
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      type: 'image/png',
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  private async loadAsset(template: DesignTemplate): Promise<Buffer> {
+    // Assets are replaced in place, so the template version is part of the key
+    const key = `${template.assetPath}@${template.updatedAt ?? ''}`;
+    const cached = this.assetCache.get(key);
+    if (cached) return cached;
+
+    this.storage.assertAvailable();
+
+    const { data: buffer, error } = await this.storage.download(
+      BUCKET,
+      template.assetPath,
+    );
+    if (error || !buffer) {
+      throw new BadRequestException(
+        `Template asset ${template.assetPath} could not be downloaded`,
+      );
+    }
+
+    if (this.assetCache.size >= ASSET_CACHE_SIZE) {
+      // Maps iterate in insertion order, so this drops the oldest asset
+      this.assetCache.delete(this.assetCache.keys().next().value as string);
+    }
+    this.assetCache.set(key, buffer);
+    return buffer;
+  }
+
+  private async fromRow(row: DesignTemplateRow): Promise<DesignTemplate> {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      tags: row.tags ?? [],
+      assetPath: row.asset_path,
+      assetUrl: await this.assetUrls.url(row.asset_path),
+      assetType: row.asset_type,
+      assetWidth: Number(row.asset_width) || 0,
+      assetHeight: Number(row.asset_height) || 0,
+      anchor: { ...DEFAULT_TEMPLATE_ANCHOR, ...row.anchor },
+      shapes: row.shapes ?? [],
+      updatedAt: row.updated_at ?? null,
+    };
+  }
+}
+
+/**
+ * Lowercase ids from a JSON array, an array or a comma-separated string
+ */
+function parseList(value: unknown, name: string): string[] {
+  let list = value;
+  if (typeof list === 'string') {
+    const text = list.trim();
+    if (text.startsWith('[')) {
+      try {
+        list = JSON.parse(text);
+      } catch {
+        throw new BadRequestException(`${name} must be valid JSON`);
+      }
+    } else {
+      list = text ? text.split(',') : [];
+    }
+  }
+  if (!Array.isArray(list)) {
+    throw new BadRequestException(`${name} must be a list`);
+  }
+  return [
+    ...new Set(
+      list
+        .map((item) => String(item).trim().toLowerCase())
+        .filter((item) => item !== ''),
+    ),
+  ];
+}
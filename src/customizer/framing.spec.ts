@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+import { SubjectRegion, detectSubject, suggestFraming } from './framing';
+
+describe('suggestFraming', () => {
+  const square = { width: 500, height: 500 };
+
+  // Where the focus point ends up on the shape, in percent, for a suggestion
+  const focusOnShape = (fraction: number, position: number, zoom: number) =>
+    position + (fraction - 0.5) * zoom * 100;
+
+  it('zooms a centered subject to fill the shape', () => {
+    const subject: SubjectRegion = {
+      focus: { x: 0.5, y: 0.5 },
+      box: { left: 0.25, top: 0.25, width: 0.5, height: 0.5 },
+    };
+
+    expect(
+      suggestFraming(subject, { width: 1000, height: 1000 }, square),
+    ).toMatchObject({ x: 50, y: 50, zoom: 1.7 });
+  });
+
+  it('moves an off-center subject to the middle of the shape', () => {
+    const subject: SubjectRegion = {
+      focus: { x: 0.6, y: 0.4 },
+      box: { left: 0.5, top: 0.3, width: 0.2, height: 0.2 },
+    };
+
+    const { x, y, zoom } = suggestFraming(
+      subject,
+      { width: 1000, height: 1000 },
+      square,
+    );
+    expect(zoom).toBeGreaterThan(1);
+    expect(focusOnShape(0.6, x, zoom)).toBeCloseTo(50, 0);
+    expect(focusOnShape(0.4, y, zoom)).toBeCloseTo(50, 0);
+  });
+
+  it('maps the subject through the centered cover crop and mirroring', () => {
+    // Landscape photo on a square shape: only the middle 1000px are visible at zoom 1
+    const subject: SubjectRegion = {
+      focus: { x: 0.45, y: 0.5 },
+      box: { left: 0.4, top: 0.4, width: 0.1, height: 0.2 },
+    };
+    const source = { width: 2000, height: 1000 };
+
+    const plain = suggestFraming(subject, source, square);
+    const mirrored = suggestFraming(subject, source, square, { flipH: true });
+
+    // 0.45 of the photo is 0.4 of the visible part
+    expect(focusOnShape(0.4, plain.x, plain.zoom)).toBeCloseTo(50, 0);
+    expect(mirrored.x).toBeCloseTo(100 - plain.x, 5);
+    expect(mirrored.zoom).toBe(plain.zoom);
+  });
+
+  it('never leaves the shape uncovered or exceeds maxZoom', () => {
+    const subject: SubjectRegion = {
+      focus: { x: 0.95, y: 0.5 },
+      box: { left: 0.94, top: 0.49, width: 0.02, height: 0.02 },
+    };
+
+    const { x, zoom } = suggestFraming(
+      subject,
+      { width: 1000, height: 1000 },
+      square,
+      { maxZoom: 1.5 },
+    );
+    expect(zoom).toBeLessThanOrEqual(1.5);
+    expect(x).toBeGreaterThanOrEqual(100 - 50 * zoom);
+    expect(x).toBeLessThanOrEqual(50 * zoom);
+  });
+
+  it('keeps the default framing for a flat image', () => {
+    const subject: SubjectRegion = {
+      focus: { x: 0.5, y: 0.5 },
+      box: { left: 0, top: 0, width: 1, height: 1 },
+    };
+
+    expect(
+      suggestFraming(subject, { width: 800, height: 600 }, square),
+    ).toMatchObject({ x: 50, y: 50, zoom: 1 });
+  });
+});
+
+describe('detectSubject', () => {
+  it('finds a disc on a plain background', async () => {
+    const image = await sharp(
+      Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600">' +
+          '<rect width="800" height="600" fill="#888888"/>' +
+          '<circle cx="600" cy="150" r="80" fill="#e02020"/></svg>',
+      ),
+    )
+      .png()
+      .toBuffer();
+
+    const { focus, box } = await detectSubject(image);
+
+    expect(focus.x).toBeCloseTo(0.75, 1);
+    expect(focus.y).toBeCloseTo(0.25, 1);
+    expect(box.left).toBeGreaterThan(0.6);
+    expect(box.left + box.width).toBeLessThan(0.9);
+    expect(box.top).toBeGreaterThan(0.05);
+    expect(box.top + box.height).toBeLessThan(0.45);
+  });
+});
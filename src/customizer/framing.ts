@@ -0,0 +1,242 @@
+import sharp from 'sharp';
+import { CustomizationData } from './customization-data';
+import { Point } from './svg-path';
+
+/** Where the subject of a photo is, in fractions (0-1) of the image */
+export interface SubjectRegion {
+  /** Most interesting point, from sharp's attention strategy */
+  focus: Point;
+  /** Box holding most of the image detail */
+  box: { left: number; top: number; width: number; height: number };
+}
+
+export interface FramingSuggestion {
+  /** Same semantics as the upload fields: image center in percent of the shape, zoom factor */
+  x: number;
+  y: number;
+  zoom: number;
+  /** Detected subject, in percentages of the (cropped) source image */
+  focus: Point;
+  subject: { x: number; y: number; width: number; height: number };
+}
+
+/** Longest side of the downscaled copy the analysis runs on */
+const ANALYSIS_SIZE = 256;
+/** Share of the image detail the subject box must hold */
+const SUBJECT_ENERGY_SHARE = 0.9;
+/** Edges weaker than this fraction of the strongest one count as noise */
+const EDGE_NOISE_FLOOR = 0.1;
+/** Share of the shape the subject should fill after zooming */
+const TARGET_FILL = 0.85;
+/** Never suggest more zoom than this */
+export const MAX_SUGGESTED_ZOOM = 3;
+
+/**
+ * Locate the subject of a photo with local heuristics: sharp's attention strategy
+ * (skin tones, saturation, edges) for the focus point, and the spread of edge
+ * energy for its extent. Flat images yield the whole frame around the center.
+ */
+export async function detectSubject(image: Buffer): Promise<SubjectRegion> {
+  const { data: analysis, info } = await sharp(image)
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const width = info.width;
+  const height = info.height;
+
+  // Attention is only computed when something is cropped, so trim one row
+  const { info: attention } = await sharp(analysis)
+    .resize(width, Math.max(1, height - 1), {
+      fit: 'cover',
+      position: sharp.strategy.attention,
+    })
+    .toBuffer({ resolveWithObject: true });
+
+  const grey = await sharp(analysis).greyscale().raw().toBuffer();
+
+  // Sobel gradient magnitude per pixel
+  const energy = new Float64Array(width * height);
+  let maxEnergy = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => grey[(y + dy) * width + x + dx];
+      const gx =
+        at(1, -1) +
+        2 * at(1, 0) +
+        at(1, 1) -
+        at(-1, -1) -
+        2 * at(-1, 0) -
+        at(-1, 1);
+      const gy =
+        at(-1, 1) +
+        2 * at(0, 1) +
+        at(1, 1) -
+        at(-1, -1) -
+        2 * at(0, -1) -
+        at(1, -1);
+      const e = Math.abs(gx) + Math.abs(gy);
+      energy[y * width + x] = e;
+      maxEnergy = Math.max(maxEnergy, e);
+    }
+  }
+
+  const columns = new Float64Array(width);
+  const rows = new Float64Array(height);
+  let total = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const e = energy[y * width + x];
+      if (e <= maxEnergy * EDGE_NOISE_FLOOR) continue;
+      columns[x] += e;
+      rows[y] += e;
+      total += e;
+    }
+  }
+
+  const focus: Point =
+    attention.attentionX !== undefined && attention.attentionY !== undefined
+      ? {
+          x: (attention.attentionX + 0.5) / width,
+          y: (attention.attentionY + 0.5) / height,
+        }
+      : { x: 0.5, y: 0.5 };
+
+  if (total === 0) {
+    return {
+      focus: { x: 0.5, y: 0.5 },
+      box: { left: 0, top: 0, width: 1, height: 1 },
+    };
+  }
+
+  const [left, right] = quantileRange(columns, total);
+  const [top, bottom] = quantileRange(rows, total);
+  return {
+    focus,
+    box: {
+      left: left / width,
+      top: top / height,
+      width: (right - left) / width,
+      height: (bottom - top) / height,
+    },
+  };
+}
+
+/**
+ * Smallest index range [start, end) holding SUBJECT_ENERGY_SHARE of the total,
+ * trimming the same share from both ends
+ */
+function quantileRange(values: Float64Array, total: number): [number, number] {
+  const cut = (total * (1 - SUBJECT_ENERGY_SHARE)) / 2;
+  let start = 0;
+  for (let sum = 0; start < values.length - 1; start++) {
+    sum += values[start];
+    if (sum > cut) break;
+  }
+  let end = values.length;
+  for (let sum = 0; end > start + 1; end--) {
+    sum += values[end - 1];
+    if (sum > cut) break;
+  }
+  return [start, end];
+}
+
+/**
+ * Turn a detected subject into x/y/zoom for the render, which cover-fits the
+ * (cropped) source to the shape centered and then scales it by zoom around the
+ * x/y point. The subject is centered and zoomed to fill about TARGET_FILL of the
+ * shape, but never so far that the image stops covering the shape or beyond
+ * `maxZoom`; zoom stays at least 1.
+ */
+export function suggestFraming(
+  subject: SubjectRegion,
+  source: { width: number; height: number },
+  output: { width: number; height: number },
+  options: Pick<CustomizationData, 'flipH' | 'flipV'> & {
+    maxZoom?: number;
+  } = {},
+): FramingSuggestion {
+  // Part of the source that is visible at zoom 1, in source pixels
+  const aspect = output.width / output.height;
+  const coveredWidth = Math.min(source.width, source.height * aspect);
+  const coveredHeight = coveredWidth / aspect;
+  const coveredLeft = (source.width - coveredWidth) / 2;
+  const coveredTop = (source.height - coveredHeight) / 2;
+
+  // Fractions of the visible part, mirrored like the render
+  const toU = (fraction: number) => {
+    const u = (fraction * source.width - coveredLeft) / coveredWidth;
+    return options.flipH ? 1 - u : u;
+  };
+  const toV = (fraction: number) => {
+    const v = (fraction * source.height - coveredTop) / coveredHeight;
+    return options.flipV ? 1 - v : v;
+  };
+
+  const { focus, box } = subject;
+  const u = toU(focus.x);
+  const v = toV(focus.y);
+
+  // The subject box must fit on both sides of the centered focus point
+  const halfWidth = Math.max(
+    Math.abs(toU(box.left) - u),
+    Math.abs(toU(box.left + box.width) - u),
+  );
+  const halfHeight = Math.max(
+    Math.abs(toV(box.top) - v),
+    Math.abs(toV(box.top + box.height) - v),
+  );
+  const extent = Math.max(2 * halfWidth, 2 * halfHeight);
+
+  const maxZoom = Math.max(
+    1,
+    Math.min(MAX_SUGGESTED_ZOOM, options.maxZoom ?? MAX_SUGGESTED_ZOOM),
+  );
+  // Rounded down so a DPI-based maxZoom is not exceeded
+  const fillZoom =
+    Math.floor(
+      Math.max(
+        1,
+        Math.min(maxZoom, extent > 0 ? TARGET_FILL / extent : maxZoom),
+      ) * 100,
+    ) / 100;
+
+  // Placing the image center at p puts the focus at p + (u - 0.5) * zoom; aim for 50,
+  // keep the image edges outside the shape (100 - 50 * zoom <= p <= 50 * zoom) and
+  // stay within the 0-100 range the render accepts
+  const place = (fraction: number, zoom: number) => {
+    const position = 50 - (fraction - 0.5) * zoom * 100;
+    const min = Math.max(0, 100 - 50 * zoom);
+    const max = Math.min(100, 50 * zoom);
+    return Math.round(Math.max(min, Math.min(max, position)) * 10) / 10;
+  };
+  const offCenter = (zoom: number) =>
+    Math.abs(place(u, zoom) + (u - 0.5) * zoom * 100 - 50) +
+    Math.abs(place(v, zoom) + (v - 0.5) * zoom * 100 - 50);
+
+  // A subject near the edge cannot be centered at every zoom; less zoom keeps it
+  // whole, so step down while that brings it noticeably closer to the center
+  let zoom = fillZoom;
+  for (let candidate = fillZoom; candidate >= 1; candidate -= 0.01) {
+    if (offCenter(candidate) < offCenter(zoom) - 1) {
+      zoom = Math.round(candidate * 100) / 100;
+    }
+  }
+
+  const percent = (fraction: number) => Math.round(fraction * 1000) / 10;
+  return {
+    x: place(u, zoom),
+    y: place(v, zoom),
+    zoom,
+    focus: { x: percent(focus.x), y: percent(focus.y) },
+    subject: {
+      x: percent(box.left),
+      y: percent(box.top),
+      width: percent(box.width),
+      height: percent(box.height),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { normalizeImage } from './image-normalizer';
+
+describe('normalizeImage', () => {
+  const solid = (channels: 3 | 4) =>
+    sharp({
+      create: {
+        width: 30,
+        height: 20,
+        channels,
+        background: { r: 200, g: 0, b: 0, alpha: channels === 4 ? 0.5 : 1 },
+      },
+    });
+
+  it('applies EXIF orientation and strips metadata', async () => {
+    const input = await solid(3)
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const image = await normalizeImage({ buffer: input });
+    const metadata = await sharp(image.buffer).metadata();
+
+    expect(image).toMatchObject({
+      mimetype: 'image/jpeg',
+      sourceMimetype: 'image/jpeg',
+      width: 20,
+      height: 30,
+    });
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('converts WebP to JPEG and keeps transparency as PNG', async () => {
+    const opaque = await normalizeImage({
+      buffer: await solid(3).webp().toBuffer(),
+    });
+    const transparent = await normalizeImage({
+      buffer: await solid(4).webp().toBuffer(),
+    });
+
+    expect(opaque.mimetype).toBe('image/jpeg');
+    expect(opaque.sourceMimetype).toBe('image/webp');
+    expect(transparent.mimetype).toBe('image/png');
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(
+      normalizeImage({ buffer: Buffer.from('not an image') }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import heicDecode from 'heic-decode';
+
+/** Formats accepted on ingest; the actual format is sniffed from the file contents */
+const ACCEPTED_IMAGE_DESCRIPTION = 'PNG, JPG, WebP, AVIF and HEIC';
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  /** Canonical format: PNG when the image has transparency or was a PNG, JPEG otherwise */
+  mimetype: 'image/png' | 'image/jpeg';
+  extension: 'png' | 'jpg';
+  /** Format the customer actually uploaded, detected from the file contents */
+  sourceMimetype: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert an upload into its canonical format: EXIF orientation applied, colors in sRGB
+ * and all EXIF/GPS/XMP metadata stripped. HEIC (HEVC) is decoded with libheif since the
+ * bundled libvips only reads AVIF.
+ */
+export async function normalizeImage(file: {
+  buffer: Buffer;
+  mimetype?: string;
+}): Promise<NormalizedImage> {
+  if (!file?.buffer || file.buffer.length === 0) {
+    throw new BadRequestException('No file provided');
+  }
+
+  const invalid = () =>
+    new BadRequestException(
+      `Only ${ACCEPTED_IMAGE_DESCRIPTION} images are allowed`,
+    );
+
+  let metadata: sharp.Metadata | null = null;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    metadata = null;
+  }
+
+  let sourceMimetype: string;
+  let pipeline: sharp.Sharp;
+
+  if (metadata && ['jpeg', 'png', 'webp'].includes(metadata.format as string)) {
+    sourceMimetype = `image/${metadata.format}`;
+    pipeline = sharp(file.buffer);
+  } else if (metadata?.format === 'heif' && metadata.compression === 'av1') {
+    sourceMimetype = 'image/avif';
+    pipeline = sharp(file.buffer);
+  } else if (isHeif(file.buffer)) {
+    sourceMimetype = 'image/heic';
+    try {
+      const decoded = await heicDecode({ buffer: file.buffer });
+      const pixels = Buffer.from(
+        decoded.data.buffer,
+        decoded.data.byteOffset,
+        decoded.data.byteLength,
+      );
+      pipeline = sharp(pixels, {
+        raw: { width: decoded.width, height: decoded.height, channels: 4 },
+      });
+    } catch {
+      throw new BadRequestException('HEIC image could not be decoded');
+    }
+  } else {
+    throw invalid();
+  }
+
+  try {
+    // rotate() without an angle applies the EXIF orientation; metadata is dropped
+    // because withMetadata() is never called
+    const oriented = pipeline.rotate();
+    const keepPng = sourceMimetype === 'image/png' || !!metadata?.hasAlpha;
+
+    const { data, info } = keepPng
+      ? await oriented.png().toBuffer({ resolveWithObject: true })
+      : await oriented
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality: 92, mozjpeg: true })
+          .toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: data,
+      mimetype: keepPng ? 'image/png' : 'image/jpeg',
+      extension: keepPng ? 'png' : 'jpg',
+      sourceMimetype,
+      width: info.width,
+      height: info.height,
+    };
+  } catch (error) {
+    if (error instanceof BadRequestException) throw error;
+    throw invalid();
+  }
+}
+
+/**
+ * HEIF container check on the ISO-BMFF `ftyp` box major brand
+ */
+function isHeif(buffer: Buffer): boolean {
+  if (buffer.length < 12 || buffer.toString('ascii', 4, 8) !== 'ftyp') {
+    return false;
+  }
+  const brand = buffer.toString('ascii', 8, 12);
+  return ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand);
+}
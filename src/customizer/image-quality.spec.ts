@@ -0,0 +1,74 @@
+import { assessImageQuality, QualityThresholds } from './image-quality';
+import { PrintDimensions } from './product-spec.service';
+
+describe('assessImageQuality', () => {
+  // 60mm at 300 DPI
+  const printSize: PrintDimensions = {
+    widthPx: 709,
+    heightPx: 709,
+    bleedPx: 24,
+    widthMm: 60,
+    heightMm: 60,
+    bleedMm: 2,
+    dpi: 300,
+  };
+  const thresholds: QualityThresholds = {
+    warnDpi: 200,
+    rejectDpi: 100,
+    maxUpscale: 2,
+    minVisibleFraction: 0.4,
+  };
+
+  it('rates a large square photo as good', () => {
+    const report = assessImageQuality(
+      { width: 2000, height: 2000 },
+      { zoom: 1 },
+      printSize,
+      thresholds,
+    );
+
+    expect(report.verdict).toBe('good');
+    expect(report.reasons).toEqual([]);
+    expect(report.effectiveDpi).toBe(846);
+  });
+
+  it('rejects a thumbnail and flags the upscaling', () => {
+    const report = assessImageQuality(
+      { width: 200, height: 200 },
+      { zoom: 1 },
+      printSize,
+      thresholds,
+    );
+
+    expect(report.verdict).toBe('reject');
+    expect(report.reasons.map((r) => r.code)).toEqual([
+      'low_resolution',
+      'heavy_upscaling',
+    ]);
+  });
+
+  it('accounts for zoom and crop', () => {
+    const report = assessImageQuality(
+      { width: 2000, height: 2000 },
+      { zoom: 2, crop: { x: 0, y: 0, width: 50, height: 50 } },
+      printSize,
+      thresholds,
+    );
+
+    expect(report.effectiveDpi).toBe(212);
+    expect(report.verdict).toBe('good');
+  });
+
+  it('warns about extreme aspect mismatch', () => {
+    const report = assessImageQuality(
+      { width: 6000, height: 1500 },
+      { zoom: 1 },
+      printSize,
+      thresholds,
+    );
+
+    expect(report.verdict).toBe('warn');
+    expect(report.visibleFraction).toBe(0.25);
+    expect(report.reasons[0].code).toBe('aspect_mismatch');
+  });
+});
@@ -0,0 +1,120 @@
+import { CustomizationData } from './customization-data';
+import { PrintDimensions } from './product-spec.service';
+
+export type QualityVerdict = 'good' | 'warn' | 'reject';
+
+export interface QualityReason {
+  code: 'low_resolution' | 'heavy_upscaling' | 'aspect_mismatch';
+  severity: 'warn' | 'reject';
+  message: string;
+}
+
+export interface QualityReport {
+  verdict: QualityVerdict;
+  reasons: QualityReason[];
+  /** Source pixels per inch of the printed trim area */
+  effectiveDpi: number;
+  /** How much the source is enlarged for the print render (> 1 means upscaling) */
+  upscaleFactor: number;
+  /** Share of the (cropped) source that remains visible after cover-fitting (0-1) */
+  visibleFraction: number;
+  source: { width: number; height: number };
+  targetDpi: number;
+}
+
+export interface QualityThresholds {
+  warnDpi: number;
+  rejectDpi: number;
+  maxUpscale: number;
+  minVisibleFraction: number;
+}
+
+/**
+ * Thresholds from environment (QUALITY_WARN_DPI, QUALITY_REJECT_DPI,
+ * QUALITY_MAX_UPSCALE, QUALITY_MIN_VISIBLE_FRACTION)
+ */
+export function getQualityThresholds(): QualityThresholds {
+  return {
+    warnDpi: parseFloat(process.env.QUALITY_WARN_DPI || '') || 200,
+    rejectDpi: parseFloat(process.env.QUALITY_REJECT_DPI || '') || 100,
+    maxUpscale: parseFloat(process.env.QUALITY_MAX_UPSCALE || '') || 2,
+    minVisibleFraction:
+      parseFloat(process.env.QUALITY_MIN_VISIBLE_FRACTION || '') || 0.4,
+  };
+}
+
+/**
+ * Assess how well a source image of `source` pixels will print at `printSize`
+ * with the requested crop and zoom. Mirrors the geometry of the render: the
+ * (cropped) source is cover-fitted to the trim area times zoom.
+ */
+export function assessImageQuality(
+  source: { width: number; height: number },
+  customizationData: Pick<CustomizationData, 'zoom' | 'crop'>,
+  printSize: PrintDimensions,
+  thresholds: QualityThresholds = getQualityThresholds(),
+): QualityReport {
+  const crop = customizationData.crop;
+  const sourceWidth = crop ? (source.width * crop.width) / 100 : source.width;
+  const sourceHeight = crop
+    ? (source.height * crop.height) / 100
+    : source.height;
+  // Same clamp as the render
+  const zoom = Math.max(0.1, Math.min(5, customizationData.zoom));
+
+  const targetWidth = printSize.widthPx * zoom;
+  const targetHeight = printSize.heightPx * zoom;
+  const scaleX = targetWidth / sourceWidth;
+  const scaleY = targetHeight / sourceHeight;
+  const upscaleFactor = Math.max(scaleX, scaleY);
+  const visibleFraction = Math.min(scaleX, scaleY) / upscaleFactor;
+  const effectiveDpi = printSize.dpi / upscaleFactor;
+
+  const reasons: QualityReason[] = [];
+
+  if (effectiveDpi < thresholds.rejectDpi) {
+    reasons.push({
+      code: 'low_resolution',
+      severity: 'reject',
+      message: `Image resolution is too low for this product: ${Math.round(effectiveDpi)} DPI at print size (minimum ${thresholds.rejectDpi}). Upload a larger photo or zoom out.`,
+    });
+  } else if (effectiveDpi < thresholds.warnDpi) {
+    reasons.push({
+      code: 'low_resolution',
+      severity: 'warn',
+      message: `Image may print slightly blurry: ${Math.round(effectiveDpi)} DPI at print size (recommended ${thresholds.warnDpi}).`,
+    });
+  }
+
+  if (upscaleFactor > thresholds.maxUpscale) {
+    reasons.push({
+      code: 'heavy_upscaling',
+      severity: 'warn',
+      message: `Image is enlarged ${upscaleFactor.toFixed(1)}x for printing.`,
+    });
+  }
+
+  if (visibleFraction < thresholds.minVisibleFraction) {
+    reasons.push({
+      code: 'aspect_mismatch',
+      severity: 'warn',
+      message: `Image proportions differ a lot from the product: only ${Math.round(visibleFraction * 100)}% of the photo will be visible.`,
+    });
+  }
+
+  const verdict: QualityVerdict = reasons.some((r) => r.severity === 'reject')
+    ? 'reject'
+    : reasons.length > 0
+      ? 'warn'
+      : 'good';
+
+  return {
+    verdict,
+    reasons,
+    effectiveDpi: Math.round(effectiveDpi),
+    upscaleFactor: Math.round(upscaleFactor * 100) / 100,
+    visibleFraction: Math.round(visibleFraction * 100) / 100,
+    source: { width: source.width, height: source.height },
+    targetDpi: printSize.dpi,
+  };
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { SupabaseService } from '../supabase/supabase.service';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import {
+  MockupService,
+  MockupTemplate,
+  getMockupFileName,
+} from './mockup.service';
+
+/** Supabase-like client whose template lookup resolves to `row` */
+function templateLookup(row: Record<string, unknown> | null) {
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: () => Promise.resolve({ data: row, error: null }),
+        }),
+      }),
+    }),
+  };
+  return { client, getClient: () => client } as unknown as SupabaseService;
+}
+
+/** RGB of the pixel at (x, y) */
+async function pixel(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return [data[offset], data[offset + 1], data[offset + 2]];
+}
+
+function solid(
+  width: number,
+  height: number,
+  background: sharp.RGBA,
+): sharp.Sharp {
+  return sharp({ create: { width, height, channels: 4, background } });
+}
+
+describe('MockupService', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mockup-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    storage = new LocalStorageProvider();
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('names a mockup after the shaped render it shows', () => {
+    expect(getMockupFileName('heart_1700000000000.png')).toBe(
+      'mockup_heart_1700000000000.jpg',
+    );
+    expect(getMockupFileName('rounded-star_1700000000000.PNG')).toBe(
+      'mockup_rounded-star_1700000000000.jpg',
+    );
+  });
+
+  it('maps a template row', async () => {
+    const service = new MockupService(
+      storage,
+      templateLookup({
+        product_id: 'p1',
+        base_image_path: 'mockups/p1/base.jpg',
+        overlay_image_path: null,
+        quad: [],
+        cutout: null,
+        base_width: '200',
+        base_height: 100,
+        updated_at: null,
+      }),
+      new AssetUrlService(storage),
+    );
+
+    expect(await service.getTemplate('p1')).toMatchObject({
+      productId: 'p1',
+      baseImageUrl: expect.stringContaining('mockups/p1/base.jpg'),
+      overlayImagePath: null,
+      overlayImageUrl: null,
+      cutout: true,
+      baseWidth: 200,
+      baseHeight: 100,
+    });
+  });
+
+  it('composites the design into the placement quad under the overlay', async () => {
+    await storage.upload(
+      'customizer-uploads',
+      'mockups/p1/base.jpg',
+      await solid(200, 100, { r: 255, g: 255, b: 255, alpha: 1 })
+        .jpeg()
+        .toBuffer(),
+    );
+    // Transparent overlay with a blue corner, drawn over the whole photo
+    await storage.upload(
+      'customizer-uploads',
+      'mockups/p1/overlay.png',
+      await solid(200, 100, { r: 0, g: 0, b: 0, alpha: 0 })
+        .composite([
+          {
+            input: await solid(20, 20, { r: 0, g: 0, b: 255, alpha: 1 })
+              .png()
+              .toBuffer(),
+            left: 0,
+            top: 0,
+          },
+        ])
+        .png()
+        .toBuffer(),
+    );
+    const template: MockupTemplate = {
+      productId: 'p1',
+      baseImagePath: 'mockups/p1/base.jpg',
+      baseImageUrl: '',
+      overlayImagePath: 'mockups/p1/overlay.png',
+      overlayImageUrl: null,
+      quad: [
+        { x: 25, y: 25 },
+        { x: 75, y: 25 },
+        { x: 75, y: 75 },
+        { x: 25, y: 75 },
+      ],
+      cutout: true,
+      baseWidth: 200,
+      baseHeight: 100,
+      updatedAt: null,
+    };
+    const service = new MockupService(
+      storage,
+      { client: null } as SupabaseService,
+      new AssetUrlService(storage),
+    );
+
+    const mockup = await service.renderMockup(
+      template,
+      await solid(50, 50, { r: 255, g: 0, b: 0, alpha: 1 }).png().toBuffer(),
+    );
+
+    expect(mockup).toMatchObject({ width: 200, height: 100 });
+    expect((await sharp(mockup.buffer).metadata()).format).toBe('jpeg');
+    const [red, green, blue] = await pixel(mockup.buffer, 100, 50);
+    expect(red).toBeGreaterThan(200);
+    expect(green).toBeLessThan(50);
+    expect(blue).toBeLessThan(50);
+    // Outside the quad the photo shows through; the overlay covers its corner
+    expect(Math.min(...(await pixel(mockup.buffer, 180, 10)))).toBeGreaterThan(
+      200,
+    );
+    const [cornerRed, , cornerBlue] = await pixel(mockup.buffer, 5, 5);
+    expect(cornerBlue).toBeGreaterThan(200);
+    expect(cornerRed).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,454 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import sharp from 'sharp';
+import { Point, polygonArea } from './svg-path';
+import { warpPerspective } from './perspective';
+import { normalizeImage } from './image-normalizer';
+
+export interface MockupTemplate {
+  productId: string;
+  baseImagePath: string;
+  baseImageUrl: string;
+  overlayImagePath: string | null;
+  overlayImageUrl: string | null;
+  /**
+   * Where the design goes on the base photo: top-left, top-right, bottom-right and
+   * bottom-left corners as percentages of the photo size
+   */
+  quad: Point[];
+  /** Show only the shape itself (transparent outside) instead of the customer's background */
+  cutout: boolean;
+  baseWidth: number;
+  baseHeight: number;
+  updatedAt: string | null;
+}
+
+/** Row of the customizer_mockup_templates table */
+interface MockupTemplateRow {
+  product_id: string;
+  base_image_path: string;
+  overlay_image_path: string | null;
+  quad: Point[];
+  cutout: boolean | null;
+  base_width: number | null;
+  base_height: number | null;
+  updated_at: string | null;
+}
+
+const BUCKET = 'customizer-uploads';
+const TABLE = 'customizer_mockup_templates';
+/** Base photos are stored at most this wide to keep mockup renders fast */
+const MAX_BASE_WIDTH = 1600;
+const IMAGE_CACHE_SIZE = 20;
+
+/**
+ * Name of the mockup rendered with a shaped render: `<shape>_<timestamp>.png` gets
+ * `mockup_<shape>_<timestamp>.jpg`, so listings can pair the two by name
+ */
+export function getMockupFileName(shapedFileName: string): string {
+  return `mockup_${shapedFileName.replace(/\.png$/i, '')}.jpg`;
+}
+
+/**
+ * Parse the design placement from a `quad` (four [x, y] or { x, y } corners) or a
+ * `rect` ({ x, y, width, height }), both in percentages of the base photo. The quad
+ * must be convex and list its corners clockwise from the top-left.
+ */
+export function parseMockupPlacement(body: Record<string, any>): Point[] {
+  const parseJson = (value: unknown, name: string): unknown => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new BadRequestException(`${name} must be valid JSON`);
+    }
+  };
+
+  let quad: Point[];
+  if (body.quad !== undefined && body.quad !== '') {
+    const raw = parseJson(body.quad, 'quad');
+    if (!Array.isArray(raw) || raw.length !== 4) {
+      throw new BadRequestException('quad must list exactly four corners');
+    }
+    quad = raw.map((corner: unknown) =>
+      Array.isArray(corner)
+        ? { x: Number(corner[0]), y: Number(corner[1]) }
+        : {
+            x: Number((corner as Partial<Point> | null)?.x),
+            y: Number((corner as Partial<Point> | null)?.y),
+          },
+    );
+  } else if (body.rect !== undefined && body.rect !== '') {
+    const rect = parseJson(body.rect, 'rect') as Record<string, unknown> | null;
+    const x = Number(rect?.x);
+    const y = Number(rect?.y);
+    const width = Number(rect?.width);
+    const height = Number(rect?.height);
+    if (
+      ![x, y, width, height].every(Number.isFinite) ||
+      width <= 0 ||
+      height <= 0
+    ) {
+      throw new BadRequestException(
+        'rect must be { x, y, width, height } with a positive width and height',
+      );
+    }
+    quad = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ];
+  } else {
+    throw new BadRequestException('Either quad or rect is required');
+  }
+
+  if (
+    quad.some(
+      (p) =>
+        !Number.isFinite(p.x) ||
+        !Number.isFinite(p.y) ||
+        p.x < 0 ||
+        p.x > 100 ||
+        p.y < 0 ||
+        p.y > 100,
+    )
+  ) {
+    throw new BadRequestException(
+      'Placement corners must be percentages between 0 and 100',
+    );
+  }
+
+  // Every turn must go the same (clockwise on screen) way for a convex quad
+  const turns = quad.map((p, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return (
+      (next.x - p.x) * (after.y - next.y) - (next.y - p.y) * (after.x - next.x)
+    );
+  });
+  if (turns.some((turn) => turn <= 0) || polygonArea(quad) < 1) {
+    throw new BadRequestException(
+      'Placement must be a convex quad listed top-left, top-right, bottom-right, bottom-left',
+    );
+  }
+
+  return quad;
+}
+
+/**
+ * Product photos with a placement area, used to show the customer's design on the
+ * actual product. One template per product, stored in `customizer_mockup_templates`
+ * with the photos under `mockups/<productId>/` in the customizer bucket.
+ */
+@Injectable()
+export class MockupService {
+  private readonly logger = new Logger(MockupService.name);
+  /** Downloaded template photos, keyed by storage path and template version */
+  private readonly imageCache = new Map<string, Buffer>();
+
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly supabase: SupabaseService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
+
+  /**
+   * Mockup template of a product, or null when it has none
+   */
+  async getTemplate(productId: string): Promise<MockupTemplate | null> {
+    const supabase = this.supabase.client;
+    if (!supabase || !productId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('product_id', productId)
+        .maybeSingle<MockupTemplateRow>();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data ? await this.fromRow(data) : null;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load mockup template for product ${productId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Create or update a product's mockup template. The base photo is required when
+   * the product has no template yet; omitted fields keep their current values.
+   */
+  async saveTemplate(
+    productId: string,
+    input: {
+      baseImage?: Express.Multer.File;
+      overlayImage?: Express.Multer.File;
+      removeOverlay?: boolean;
+      quad?: Point[];
+      cutout?: boolean;
+    },
+  ): Promise<MockupTemplate> {
+    const supabase = this.supabase.getClient();
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    const existing = await this.getTemplate(productId);
+    if (!existing && !input.baseImage) {
+      throw new BadRequestException('baseImage is required for a new template');
+    }
+    const quad = input.quad ?? existing?.quad;
+    if (!quad) {
+      throw new BadRequestException('Either quad or rect is required');
+    }
+
+    const folder = `mockups/${productId}`;
+    let baseImagePath = existing?.baseImagePath ?? '';
+    let baseWidth = existing?.baseWidth ?? 0;
+    let baseHeight = existing?.baseHeight ?? 0;
+    let overlayImagePath = input.removeOverlay
+      ? null
+      : (existing?.overlayImagePath ?? null);
+    const staleFiles: string[] = [];
+
+    let baseImage: Buffer | null = null;
+    if (input.baseImage) {
+      const normalized = await normalizeImage(input.baseImage);
+      const { data, info } = await sharp(normalized.buffer)
+        .resize({ width: MAX_BASE_WIDTH, withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 90, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true });
+
+      baseImage = data;
+      baseWidth = info.width;
+      baseHeight = info.height;
+    }
+
+    let overlayImage: Buffer | null = null;
+    if (input.overlayImage) {
+      const normalized = await normalizeImage(input.overlayImage);
+      // Overlays are drawn over the whole photo, so they are stored at its size
+      overlayImage = await sharp(normalized.buffer)
+        .resize(baseWidth, baseHeight, { fit: 'fill' })
+        .ensureAlpha()
+        .png()
+        .toBuffer();
+    } else if (
+      overlayImagePath &&
+      existing &&
+      (existing.baseWidth !== baseWidth || existing.baseHeight !== baseHeight)
+    ) {
+      throw new BadRequestException(
+        'The new baseImage has a different size than the current overlay. Upload a matching overlayImage or set removeOverlay.',
+      );
+    }
+
+    if (baseImage) {
+      baseImagePath = `${folder}/base.jpg`;
+      await this.uploadImage(baseImagePath, baseImage, 'image/jpeg');
+    }
+    if (overlayImage) {
+      overlayImagePath = `${folder}/overlay.png`;
+      await this.uploadImage(overlayImagePath, overlayImage, 'image/png');
+    }
+
+    if (existing?.overlayImagePath && !overlayImagePath) {
+      staleFiles.push(existing.overlayImagePath);
+    }
+
+    const { error } = await supabase.from(TABLE).upsert({
+      product_id: productId,
+      base_image_path: baseImagePath,
+      overlay_image_path: overlayImagePath,
+      quad,
+      cutout: input.cutout ?? existing?.cutout ?? true,
+      base_width: baseWidth,
+      base_height: baseHeight,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to save mockup template: ${error.message}`,
+      );
+    }
+
+    if (staleFiles.length > 0) {
+      await this.storage.remove(BUCKET, staleFiles);
+    }
+    this.imageCache.clear();
+
+    this.logger.log(`Saved mockup template for product ${productId}`);
+    return (await this.getTemplate(productId))!;
+  }
+
+  /**
+   * Remove a product's mockup template and its photos
+   */
+  async deleteTemplate(productId: string): Promise<void> {
+    const supabase = this.supabase.getClient();
+
+    const existing = await this.getTemplate(productId);
+    if (!existing) {
+      throw new NotFoundException(
+        `No mockup template for product ${productId}`,
+      );
+    }
+
+    const { error } = await supabase
+      .from(TABLE)
+      .delete()
+      .eq('product_id', productId);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete mockup template: ${error.message}`,
+      );
+    }
+
+    await this.storage.remove(
+      BUCKET,
+      [existing.baseImagePath, existing.overlayImagePath].filter(
+        (p): p is string => !!p,
+      ),
+    );
+    this.imageCache.clear();
+
+    this.logger.log(`Deleted mockup template for product ${productId}`);
+  }
+
+  /**
+   * Place a rendered design onto the template's product photo, perspective-warped
+   * into the placement quad, with the overlay (reflections, frame edge) on top
+   */
+  async renderMockup(
+    template: MockupTemplate,
+    design: Buffer,
+  ): Promise<{ buffer: Buffer; width: number; height: number }> {
+    const base = await this.loadImage(template.baseImagePath, template);
+    const { width, height } = await sharp(base).metadata();
+    if (!width || !height) {
+      throw new BadRequestException('Mockup base image could not be read');
+    }
+
+    const { data, info } = await sharp(design)
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const warped = warpPerspective(
+      { data, width: info.width, height: info.height },
+      template.quad.map((p) => ({
+        x: (p.x / 100) * width,
+        y: (p.y / 100) * height,
+      })),
+      { width, height },
+    );
+
+    const composites: sharp.OverlayOptions[] = [];
+    if (warped) {
+      composites.push({
+        input: warped.data,
+        raw: { width: warped.width, height: warped.height, channels: 4 },
+        left: warped.left,
+        top: warped.top,
+      });
+    }
+    if (template.overlayImagePath) {
+      const overlay = await this.loadImage(template.overlayImagePath, template);
+      composites.push({
+        input: await sharp(overlay)
+          .resize(width, height, { fit: 'fill' })
+          .png()
+          .toBuffer(),
+        left: 0,
+        top: 0,
+      });
+    }
+
+    const buffer = await sharp(base)
+      .composite(composites)
+      .jpeg({ quality: 85, mozjpeg: true })
+      .toBuffer();
+
+    return { buffer, width, height };
+  }
+
+  private async uploadImage(
+    filePath: string,
+    buffer: Buffer,
+    contentType: string,
+  ): Promise<void> {
+    const { error } = await this.storage.upload(BUCKET, filePath, buffer, {
+      contentType,
+      cacheControl: '3600',
+      upsert: true,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to upload mockup image: ${error.message}`,
+      );
+    }
+  }
+
+  private async loadImage(
+    filePath: string,
+    template: MockupTemplate,
+  ): Promise<Buffer> {
+    // Photos are replaced in place, so the template version is part of the key
+    const key = `${filePath}@${template.updatedAt ?? ''}`;
+    const cached = this.imageCache.get(key);
+    if (cached) return cached;
+
+    this.storage.assertAvailable();
+
+    const { data: buffer, error } = await this.storage.download(
+      BUCKET,
+      filePath,
+    );
+    if (error || !buffer) {
+      throw new BadRequestException(
+        `Mockup image ${filePath} could not be downloaded`,
+      );
+    }
+
+    if (this.imageCache.size >= IMAGE_CACHE_SIZE) {
+      // Maps iterate in insertion order, so this drops the oldest photo
+      this.imageCache.delete(this.imageCache.keys().next().value as string);
+    }
+    this.imageCache.set(key, buffer);
+    return buffer;
+  }
+
+  private async fromRow(row: MockupTemplateRow): Promise<MockupTemplate> {
+    return {
+      productId: row.product_id,
+      baseImagePath: row.base_image_path,
+      baseImageUrl: await this.assetUrls.url(row.base_image_path),
+      overlayImagePath: row.overlay_image_path || null,
+      overlayImageUrl: row.overlay_image_path
+        ? await this.assetUrls.url(row.overlay_image_path)
+        : null,
+      quad: row.quad,
+      cutout: row.cutout !== false,
+      baseWidth: Number(row.base_width) || 0,
+      baseHeight: Number(row.base_height) || 0,
+      updatedAt: row.updated_at ?? null,
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  applyHomography,
+  computeHomography,
+  warpPerspective,
+} from './perspective';
+
+describe('computeHomography', () => {
+  const square = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ];
+
+  it('maps each corner onto its target', () => {
+    const quad = [
+      { x: 10, y: 20 },
+      { x: 90, y: 10 },
+      { x: 120, y: 110 },
+      { x: 0, y: 90 },
+    ];
+    const h = computeHomography(square, quad);
+
+    square.forEach((corner, i) => {
+      const mapped = applyHomography(h, corner);
+      expect(mapped.x).toBeCloseTo(quad[i].x, 6);
+      expect(mapped.y).toBeCloseTo(quad[i].y, 6);
+    });
+  });
+
+  it('rejects collinear points', () => {
+    expect(() =>
+      computeHomography(
+        [
+          { x: 0, y: 0 },
+          { x: 50, y: 0 },
+          { x: 100, y: 0 },
+          { x: 0, y: 100 },
+        ],
+        square,
+      ),
+    ).toThrow('Degenerate quad');
+  });
+});
+
+describe('warpPerspective', () => {
+  it('fills the quad and leaves the rest of its bounding box transparent', () => {
+    // 4x4 opaque red source
+    const data = Buffer.alloc(4 * 4 * 4);
+    for (let i = 0; i < 16; i++) data.set([255, 0, 0, 255], i * 4);
+
+    const warped = warpPerspective(
+      { data, width: 4, height: 4 },
+      [
+        { x: 10, y: 0 },
+        { x: 20, y: 0 },
+        { x: 20, y: 20 },
+        { x: 0, y: 20 },
+      ],
+      { width: 30, height: 30 },
+    )!;
+
+    expect(warped).toMatchObject({ left: 0, top: 0, width: 20, height: 20 });
+    const pixel = (x: number, y: number) =>
+      Array.from(warped.data.subarray((y * 20 + x) * 4, (y * 20 + x) * 4 + 4));
+    expect(pixel(15, 10)).toEqual([255, 0, 0, 255]);
+    expect(pixel(1, 1)[3]).toBe(0);
+  });
+
+  it('returns null for a quad outside the canvas', () => {
+    const warped = warpPerspective(
+      { data: Buffer.alloc(16), width: 2, height: 2 },
+      [
+        { x: 50, y: 50 },
+        { x: 60, y: 50 },
+        { x: 60, y: 60 },
+        { x: 50, y: 60 },
+      ],
+      { width: 40, height: 40 },
+    );
+
+    expect(warped).toBeNull();
+  });
+});
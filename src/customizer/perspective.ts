@@ -0,0 +1,153 @@
+import { Point } from './svg-path';
+
+/** Raw RGBA pixels */
+export interface RgbaImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/** Warped pixels and where their top-left corner goes on the target canvas */
+export interface WarpedImage extends RgbaImage {
+  left: number;
+  top: number;
+}
+
+/**
+ * Homography mapping the four `from` points onto the four `to` points, as the
+ * eight coefficients h0..h7 of the 3x3 matrix (h8 = 1).
+ * Throws when the points are degenerate (three of them on a line).
+ */
+export function computeHomography(from: Point[], to: Point[]): number[] {
+  if (from.length !== 4 || to.length !== 4) {
+    throw new Error('A homography needs exactly four point pairs');
+  }
+
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      throw new Error('Degenerate quad: points must not be collinear');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+}
+
+export function applyHomography(h: number[], p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + 1;
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+/**
+ * Warp an RGBA image onto a quad (top-left, top-right, bottom-right, bottom-left,
+ * in canvas pixels). Only the quad's bounding box, clipped to the canvas, is
+ * returned; null when it falls outside the canvas. Sampling is bilinear on
+ * premultiplied alpha so the quad edges are anti-aliased without dark fringes.
+ */
+export function warpPerspective(
+  source: RgbaImage,
+  quad: Point[],
+  canvas: { width: number; height: number },
+): WarpedImage | null {
+  const left = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.x))));
+  const top = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.y))));
+  const right = Math.min(
+    canvas.width,
+    Math.ceil(Math.max(...quad.map((p) => p.x))),
+  );
+  const bottom = Math.min(
+    canvas.height,
+    Math.ceil(Math.max(...quad.map((p) => p.y))),
+  );
+  if (right <= left || bottom <= top) return null;
+
+  // Map canvas pixels back into the source, so every output pixel gets a sample
+  const h = computeHomography(quad, [
+    { x: 0, y: 0 },
+    { x: source.width, y: 0 },
+    { x: source.width, y: source.height },
+    { x: 0, y: source.height },
+  ]);
+
+  const width = right - left;
+  const height = bottom - top;
+  const out = Buffer.alloc(width * height * 4);
+  const src = source.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const s = applyHomography(h, { x: left + x + 0.5, y: top + y + 0.5 });
+      const sx = s.x - 0.5;
+      const sy = s.y - 0.5;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (
+        x0 < -1 ||
+        y0 < -1 ||
+        x0 >= source.width ||
+        y0 >= source.height ||
+        !Number.isFinite(sx) ||
+        !Number.isFinite(sy)
+      ) {
+        continue;
+      }
+
+      const fx = sx - x0;
+      const fy = sy - y0;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (const [dx, dy, weight] of [
+        [0, 0, (1 - fx) * (1 - fy)],
+        [1, 0, fx * (1 - fy)],
+        [0, 1, (1 - fx) * fy],
+        [1, 1, fx * fy],
+      ]) {
+        const px = x0 + dx;
+        const py = y0 + dy;
+        if (px < 0 || py < 0 || px >= source.width || py >= source.height) {
+          continue;
+        }
+        const i = (py * source.width + px) * 4;
+        const alpha = (src[i + 3] / 255) * weight;
+        r += src[i] * alpha;
+        g += src[i + 1] * alpha;
+        b += src[i + 2] * alpha;
+        a += alpha;
+      }
+
+      if (a <= 0) continue;
+      const o = (y * width + x) * 4;
+      out[o] = Math.round(r / a);
+      out[o + 1] = Math.round(g / a);
+      out[o + 2] = Math.round(b / a);
+      out[o + 3] = Math.round(a * 255);
+    }
+  }
+
+  return { data: out, width, height, left, top };
+}
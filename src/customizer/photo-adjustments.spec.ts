@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import {
+  adjustmentColorMatrix,
+  applyPhotoAdjustments,
+} from './photo-adjustments';
+
+describe('applyPhotoAdjustments', () => {
+  const pixel = async (image: Buffer) =>
+    Array.from((await sharp(image).raw().toBuffer()).subarray(0, 4));
+
+  const swatch = () =>
+    sharp({
+      create: {
+        width: 4,
+        height: 4,
+        channels: 4,
+        background: { r: 200, g: 100, b: 50, alpha: 0.5 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+  it('returns the image untouched without adjustments', async () => {
+    const image = await swatch();
+
+    expect(await applyPhotoAdjustments(image, undefined)).toBe(image);
+    expect(await applyPhotoAdjustments(image, {})).toBe(image);
+  });
+
+  it('applies brightness and contrast like CSS filters and keeps alpha', async () => {
+    const image = await swatch();
+
+    expect(
+      await pixel(await applyPhotoAdjustments(image, { brightness: 1.2 })),
+    ).toEqual([240, 120, 60, 128]);
+    expect(
+      await pixel(await applyPhotoAdjustments(image, { contrast: 1.5 })),
+    ).toEqual([236, 86, 11, 128]);
+  });
+
+  it('desaturates fully with saturation 0 or grayscale 1', async () => {
+    const image = await swatch();
+    const [r, g, b, alpha] = await pixel(
+      await applyPhotoAdjustments(image, { grayscale: 1 }),
+    );
+
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+    expect(alpha).toBe(128);
+    const [red, green, blue] = adjustmentColorMatrix({ saturation: 0 });
+    expect(green).toEqual(red);
+    expect(blue).toEqual(red);
+  });
+});
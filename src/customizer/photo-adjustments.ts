@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import { PhotoAdjustments } from './customization-data';
+
+type Matrix3 = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number],
+];
+
+const IDENTITY: Matrix3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row) =>
+    [0, 1, 2].map((col) =>
+      row.reduce((sum, value, k) => sum + value * b[k][col], 0),
+    ),
+  ) as Matrix3;
+}
+
+/** CSS saturate(s) */
+function saturateMatrix(s: number): Matrix3 {
+  return [
+    [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s],
+  ];
+}
+
+/** CSS grayscale(amount) */
+function grayscaleMatrix(amount: number): Matrix3 {
+  const a = 1 - amount;
+  return [
+    [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+  ];
+}
+
+/** CSS sepia(amount) */
+function sepiaMatrix(amount: number): Matrix3 {
+  const a = 1 - amount;
+  return [
+    [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+    [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+    [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+  ];
+}
+
+/**
+ * Color matrix for saturation, grayscale and sepia, applied in that order
+ * (the order of the fields in a CSS filter list built from the adjustments)
+ */
+export function adjustmentColorMatrix(adjustments: PhotoAdjustments): Matrix3 {
+  let matrix = IDENTITY;
+  if (adjustments.saturation !== undefined) {
+    matrix = multiply(saturateMatrix(adjustments.saturation), matrix);
+  }
+  if (adjustments.grayscale) {
+    matrix = multiply(grayscaleMatrix(adjustments.grayscale), matrix);
+  }
+  if (adjustments.sepia) {
+    matrix = multiply(sepiaMatrix(adjustments.sepia), matrix);
+  }
+  return matrix;
+}
+
+/**
+ * Apply photo adjustments with CSS filter semantics: brightness, contrast,
+ * saturation, grayscale, sepia, then sharpening. `scale` is the render width
+ * relative to the preview, so sharpening looks the same in print. Alpha is kept.
+ */
+export async function applyPhotoAdjustments(
+  image: Buffer,
+  adjustments: PhotoAdjustments | undefined,
+  scale = 1,
+): Promise<Buffer> {
+  if (!adjustments || Object.keys(adjustments).length === 0) return image;
+
+  const { hasAlpha } = await sharp(image).metadata();
+  let pipeline = sharp(image);
+
+  // brightness(b) then contrast(c): v' = c * (b * v - 0.5) + 0.5
+  const brightness = adjustments.brightness ?? 1;
+  const contrast = adjustments.contrast ?? 1;
+  if (brightness !== 1 || contrast !== 1) {
+    const a = contrast * brightness;
+    const b = 255 * 0.5 * (1 - contrast);
+    pipeline = pipeline.linear(
+      hasAlpha ? [a, a, a, 1] : [a, a, a],
+      hasAlpha ? [b, b, b, 0] : [b, b, b],
+    );
+  }
+
+  const matrix = adjustmentColorMatrix(adjustments);
+  if (matrix !== IDENTITY) {
+    // Materialize first so the color matrix sees the clamped linear result
+    pipeline = sharp(await pipeline.png().toBuffer()).recomb(matrix);
+  }
+
+  if (adjustments.sharpen) {
+    pipeline = sharp(await pipeline.png().toBuffer()).sharpen({
+      sigma: Math.max(0.3, adjustments.sharpen * scale),
+    });
+  }
+
+  return pipeline.png().toBuffer();
+}
@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common';
+import { parsePrintSlots, resolvePrintSlot } from './print-slots';
+
+describe('parsePrintSlots', () => {
+  it('parses a JSON slot list with defaults', () => {
+    expect(
+      parsePrintSlots(
+        '[{"id":"Front","x":0,"y":0,"width":50,"height":100,"shapes":["Heart"]},' +
+          '{"id":"back","label":"Back side","x":50,"y":0,"width":50,"height":100}]',
+      ),
+    ).toEqual([
+      {
+        id: 'front',
+        label: 'front',
+        x: 0,
+        y: 0,
+        width: 50,
+        height: 100,
+        shapes: ['heart'],
+      },
+      {
+        id: 'back',
+        label: 'Back side',
+        x: 50,
+        y: 0,
+        width: 50,
+        height: 100,
+        shapes: [],
+      },
+    ]);
+    expect(parsePrintSlots(undefined)).toEqual([]);
+  });
+
+  it('rejects bad ids, duplicates and rectangles outside the print area', () => {
+    const rect = { x: 0, y: 0, width: 50, height: 50 };
+
+    expect(() => parsePrintSlots([{ ...rect, id: 'a b' }])).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      parsePrintSlots([
+        { ...rect, id: 'a' },
+        { ...rect, id: 'A' },
+      ]),
+    ).toThrow(BadRequestException);
+    expect(() => parsePrintSlots([{ ...rect, id: 'a', x: 60 }])).toThrow(
+      BadRequestException,
+    );
+    expect(() => parsePrintSlots('{"id":"a"}')).toThrow(BadRequestException);
+  });
+});
+
+describe('resolvePrintSlot', () => {
+  const slots = parsePrintSlots([
+    { id: 'front', x: 0, y: 0, width: 50, height: 100 },
+    { id: 'back', x: 50, y: 0, width: 50, height: 100 },
+  ]);
+
+  it('finds the requested slot', () => {
+    expect(resolvePrintSlot(slots, '42', ' Back ')?.id).toBe('back');
+  });
+
+  it('requires a known slot only for products with slots', () => {
+    expect(resolvePrintSlot([], '42')).toBeNull();
+    expect(() => resolvePrintSlot([], '42', 'front')).toThrow(
+      BadRequestException,
+    );
+    expect(() => resolvePrintSlot(slots, '42')).toThrow(BadRequestException);
+    expect(() => resolvePrintSlot(slots, '42', 'side')).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+
+/** Subfolder of a session-product folder holding one folder per print slot */
+export const SLOTS_FOLDER_NAME = 'slots';
+
+/** Slot designs composed onto the product, in the session-product folder */
+export const LAYOUT_FILE_NAME = 'layout.png';
+/** Clean composed print file, in the production bucket */
+export const PRINT_LAYOUT_FILE_NAME = 'layout_print.png';
+
+/**
+ * Named print area of a product (locket side, collage cell). Each slot gets its own
+ * upload, customization and renders; the rectangle places it on the product's
+ * print area, in percentages of the trim size.
+ */
+export interface PrintSlot {
+  /** Lowercase id used in requests and folder names, e.g. `front` or `photo-1` */
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Shape ids the slot accepts; empty means any registered shape */
+  shapes: string[];
+}
+
+const SLOT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const MAX_SLOTS = 12;
+
+/**
+ * Validate a slot definition list (JSON string or array) as saved by staff.
+ * Rectangles must lie inside the print area; overlaps are allowed for layered designs.
+ */
+export function parsePrintSlots(raw: unknown): PrintSlot[] {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new BadRequestException('slots must be valid JSON');
+    }
+  }
+
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new BadRequestException('slots must be an array');
+  }
+  if (value.length > MAX_SLOTS) {
+    throw new BadRequestException(
+      `A product can have at most ${MAX_SLOTS} slots`,
+    );
+  }
+
+  const seen = new Set<string>();
+  return value.map((raw: unknown, index: number) => {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const id =
+      typeof entry.id === 'string' || typeof entry.id === 'number'
+        ? String(entry.id).trim().toLowerCase()
+        : '';
+    if (!SLOT_ID_PATTERN.test(id)) {
+      throw new BadRequestException(
+        `slots[${index}].id must be lowercase letters, digits or hyphens (max 32 chars)`,
+      );
+    }
+    if (seen.has(id)) {
+      throw new BadRequestException(`Duplicate slot id: ${id}`);
+    }
+    seen.add(id);
+
+    const x = Number(entry.x);
+    const y = Number(entry.y);
+    const width = Number(entry.width);
+    const height = Number(entry.height);
+    if (
+      ![x, y, width, height].every(Number.isFinite) ||
+      x < 0 ||
+      y < 0 ||
+      width <= 0 ||
+      height <= 0 ||
+      x + width > 100 ||
+      y + height > 100
+    ) {
+      throw new BadRequestException(
+        `slots[${index}] must be { x, y, width, height } in percentages inside the print area`,
+      );
+    }
+
+    if (entry.shapes !== undefined && !Array.isArray(entry.shapes)) {
+      throw new BadRequestException(`slots[${index}].shapes must be an array`);
+    }
+    const shapes = ((entry.shapes as unknown[]) ?? [])
+      .map((shape) => String(shape).trim().toLowerCase())
+      .filter(Boolean);
+
+    return {
+      id,
+      label: (typeof entry.label === 'string' && entry.label.trim()) || id,
+      x,
+      y,
+      width,
+      height,
+      shapes,
+    };
+  });
+}
+
+/**
+ * Find the slot a request targets. Products without slots take no slot; products
+ * with slots require one of theirs.
+ */
+export function resolvePrintSlot(
+  slots: PrintSlot[],
+  productId: string,
+  slotId?: string,
+): PrintSlot | null {
+  const requested = slotId?.trim().toLowerCase();
+
+  if (slots.length === 0) {
+    if (requested) {
+      throw new BadRequestException(`Product ${productId} has no print slots`);
+    }
+    return null;
+  }
+
+  if (!requested) {
+    throw new BadRequestException(
+      `slot is required for product ${productId} (one of: ${slots.map((s) => s.id).join(', ')})`,
+    );
+  }
+
+  const slot = slots.find((s) => s.id === requested);
+  if (!slot) {
+    throw new BadRequestException(
+      `Unknown slot ${requested} for product ${productId} (one of: ${slots.map((s) => s.id).join(', ')})`,
+    );
+  }
+  return slot;
+}
+
+/**
+ * Storage folder of a slot inside a session-product folder
+ */
+export function getSlotFolder(folderPath: string, slotId: string): string {
+  return `${folderPath}/${SLOTS_FOLDER_NAME}/${slotId}`;
+}
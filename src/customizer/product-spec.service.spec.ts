@@ -0,0 +1,92 @@
+import { SupabaseService } from '../supabase/supabase.service';
+import { ProductSpecService } from './product-spec.service';
+
+/** Supabase-like client whose spec lookup resolves to `result` */
+function specLookup(result: {
+  data: unknown;
+  error: { message: string } | null;
+}) {
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ maybeSingle: () => Promise.resolve(result) }),
+      }),
+    }),
+  };
+  return { client, getClient: () => client } as unknown as SupabaseService;
+}
+
+describe('ProductSpecService', () => {
+  afterEach(() => {
+    delete process.env.PRINT_DEFAULT_WIDTH_MM;
+    delete process.env.PRINT_DEFAULT_HEIGHT_MM;
+    delete process.env.PRINT_DEFAULT_DPI;
+  });
+
+  it('defaults products without a spec row', async () => {
+    const service = new ProductSpecService(
+      specLookup({ data: null, error: null }),
+    );
+
+    expect(await service.getSpec('42')).toEqual({
+      productId: '42',
+      widthMm: 60,
+      heightMm: undefined,
+      dpi: 300,
+      bleedMm: 2,
+      kerfMm: 0,
+      slots: [],
+      isDefault: true,
+    });
+  });
+
+  it('takes defaults from the environment', async () => {
+    process.env.PRINT_DEFAULT_WIDTH_MM = '80';
+    process.env.PRINT_DEFAULT_HEIGHT_MM = '50';
+    process.env.PRINT_DEFAULT_DPI = '600';
+    const service = new ProductSpecService({ client: null } as SupabaseService);
+
+    expect(await service.getSpec('42')).toMatchObject({
+      widthMm: 80,
+      heightMm: 50,
+      dpi: 600,
+      isDefault: true,
+    });
+  });
+
+  it('falls back to defaults when the lookup fails', async () => {
+    const service = new ProductSpecService(
+      specLookup({ data: null, error: { message: 'relation does not exist' } }),
+    );
+
+    expect((await service.getSpec('42')).isDefault).toBe(true);
+  });
+
+  it('reads a product row, coercing numeric columns', async () => {
+    const service = new ProductSpecService(
+      specLookup({
+        data: {
+          product_id: '42',
+          width_mm: '90.5',
+          height_mm: null,
+          dpi: 600,
+          bleed_mm: '3',
+          kerf_mm: null,
+          slots: null,
+        },
+        error: null,
+      }),
+    );
+
+    expect(await service.getSpec('42')).toEqual({
+      productId: '42',
+      widthMm: 90.5,
+      heightMm: undefined,
+      dpi: 600,
+      bleedMm: 3,
+      kerfMm: 0,
+      slots: [],
+      isDefault: false,
+    });
+  });
+});
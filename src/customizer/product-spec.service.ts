@@ -0,0 +1,254 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PrintSlot, parsePrintSlots } from './print-slots';
+
+export interface ProductPrintSpec {
+  productId: string;
+  /** Trim width in millimetres */
+  widthMm: number;
+  /** Trim height in millimetres; when absent it follows the shape aspect ratio */
+  heightMm?: number;
+  dpi: number;
+  /** Bleed added on every side, in millimetres */
+  bleedMm: number;
+  /** Laser kerf (cut width) the cut paths compensate for, in millimetres */
+  kerfMm: number;
+  /** Named print areas (front/back, collage cells); empty for single-image products */
+  slots: PrintSlot[];
+  /** True when no product-specific row exists and env defaults were used */
+  isDefault: boolean;
+}
+
+export interface PrintDimensions {
+  widthPx: number;
+  heightPx: number;
+  bleedPx: number;
+  widthMm: number;
+  heightMm: number;
+  bleedMm: number;
+  dpi: number;
+}
+
+/** Row of the customizer_product_specs table (numeric columns may arrive as strings) */
+interface ProductSpecRow {
+  product_id: string;
+  width_mm: number | string;
+  height_mm: number | string | null;
+  dpi: number | string;
+  bleed_mm: number | string | null;
+  kerf_mm: number | string | null;
+  slots: unknown;
+}
+
+const MM_PER_INCH = 25.4;
+const MAX_PRINT_SIDE_PX = 8000;
+
+@Injectable()
+export class ProductSpecService {
+  private readonly logger = new Logger(ProductSpecService.name);
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  /**
+   * Default spec from environment (PRINT_DEFAULT_WIDTH_MM, PRINT_DEFAULT_HEIGHT_MM,
+   * PRINT_DEFAULT_DPI, PRINT_DEFAULT_BLEED_MM, PRINT_DEFAULT_KERF_MM)
+   */
+  getDefaultSpec(productId: string): ProductPrintSpec {
+    const heightMm = parseFloat(process.env.PRINT_DEFAULT_HEIGHT_MM || '');
+    return {
+      productId,
+      widthMm: parseFloat(process.env.PRINT_DEFAULT_WIDTH_MM || '') || 60,
+      heightMm:
+        Number.isFinite(heightMm) && heightMm > 0 ? heightMm : undefined,
+      dpi: parseInt(process.env.PRINT_DEFAULT_DPI || '', 10) || 300,
+      bleedMm: Number(process.env.PRINT_DEFAULT_BLEED_MM ?? 2) || 0,
+      kerfMm: Number(process.env.PRINT_DEFAULT_KERF_MM ?? 0) || 0,
+      slots: [],
+      isDefault: true,
+    };
+  }
+
+  /**
+   * Return the print spec for a product, falling back to defaults
+   */
+  async getSpec(productId: string): Promise<ProductPrintSpec> {
+    const supabase = this.supabase.client;
+    if (!supabase || !productId) {
+      return this.getDefaultSpec(productId);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customizer_product_specs')
+        .select('*')
+        .eq('product_id', productId)
+        .maybeSingle<ProductSpecRow>();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      if (!data) {
+        return this.getDefaultSpec(productId);
+      }
+
+      return {
+        productId,
+        widthMm: Number(data.width_mm),
+        heightMm: data.height_mm ? Number(data.height_mm) : undefined,
+        dpi: Number(data.dpi),
+        bleedMm: Number(data.bleed_mm) || 0,
+        kerfMm: Number(data.kerf_mm) || 0,
+        slots: parsePrintSlots(data.slots),
+        isDefault: false,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load print spec for product ${productId}, using defaults: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return this.getDefaultSpec(productId);
+    }
+  }
+
+  /**
+   * Create or update the print spec for a product
+   */
+  async saveSpec(
+    productId: string,
+    input: {
+      widthMm: number;
+      heightMm?: number;
+      dpi: number;
+      bleedMm?: number;
+      kerfMm?: number;
+      /** Slot definitions; omitted keeps the slots already saved */
+      slots?: unknown;
+    },
+  ): Promise<ProductPrintSpec> {
+    const supabase = this.supabase.getClient();
+
+    if (!productId || productId.trim() === '') {
+      throw new BadRequestException('Product ID is required');
+    }
+
+    const widthMm = Number(input?.widthMm);
+    const heightMm =
+      input?.heightMm === undefined || input?.heightMm === null
+        ? undefined
+        : Number(input.heightMm);
+    const dpi = Number(input?.dpi);
+    const bleedMm = Number(input?.bleedMm ?? 0);
+    const kerfMm = Number(input?.kerfMm ?? 0);
+
+    if (!Number.isFinite(widthMm) || widthMm <= 0) {
+      throw new BadRequestException('widthMm must be a positive number');
+    }
+    if (
+      heightMm !== undefined &&
+      (!Number.isFinite(heightMm) || heightMm <= 0)
+    ) {
+      throw new BadRequestException('heightMm must be a positive number');
+    }
+    if (!Number.isFinite(dpi) || dpi < 72 || dpi > 1200) {
+      throw new BadRequestException('dpi must be between 72 and 1200');
+    }
+    if (!Number.isFinite(bleedMm) || bleedMm < 0 || bleedMm > 20) {
+      throw new BadRequestException('bleedMm must be between 0 and 20');
+    }
+    if (!Number.isFinite(kerfMm) || kerfMm < 0 || kerfMm > 2) {
+      throw new BadRequestException('kerfMm must be between 0 and 2');
+    }
+
+    const slots =
+      input?.slots === undefined
+        ? (await this.getSpec(productId)).slots
+        : parsePrintSlots(input.slots);
+    // Slot rectangles are percentages of the trim, so its height must be fixed
+    if (slots.length > 0 && heightMm === undefined) {
+      throw new BadRequestException(
+        'heightMm is required for products with slots',
+      );
+    }
+
+    const spec: ProductPrintSpec = {
+      productId,
+      widthMm,
+      heightMm,
+      dpi,
+      bleedMm,
+      kerfMm,
+      slots,
+      isDefault: false,
+    };
+
+    // Reject specs that would produce renders too large to process
+    this.getPrintDimensions(spec, widthMm / (heightMm || widthMm));
+
+    const { error } = await supabase.from('customizer_product_specs').upsert({
+      product_id: productId,
+      width_mm: widthMm,
+      height_mm: heightMm ?? null,
+      dpi,
+      bleed_mm: bleedMm,
+      kerf_mm: kerfMm,
+      slots,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to save product spec: ${error.message}`,
+      );
+    }
+
+    this.logger.log(`Saved print spec for product ${productId}`);
+    return spec;
+  }
+
+  /**
+   * Print spec of a single slot: its share of the trim at the product DPI. Slots are
+   * composed onto the product layout, which carries the bleed, so they have none.
+   */
+  getSlotSpec(spec: ProductPrintSpec, slot: PrintSlot): ProductPrintSpec {
+    const heightMm = spec.heightMm ?? spec.widthMm;
+    return {
+      ...spec,
+      widthMm: (spec.widthMm * slot.width) / 100,
+      heightMm: (heightMm * slot.height) / 100,
+      bleedMm: 0,
+      slots: [],
+    };
+  }
+
+  /**
+   * Convert a spec into pixel dimensions for a shape with the given aspect ratio
+   */
+  getPrintDimensions(
+    spec: ProductPrintSpec,
+    aspectRatio: number,
+  ): PrintDimensions {
+    const widthMm = spec.widthMm;
+    const heightMm = spec.heightMm || widthMm / aspectRatio;
+    const toPx = (mm: number) => Math.round((mm / MM_PER_INCH) * spec.dpi);
+
+    const dimensions: PrintDimensions = {
+      widthPx: toPx(widthMm),
+      heightPx: toPx(heightMm),
+      bleedPx: toPx(spec.bleedMm),
+      widthMm,
+      heightMm: Math.round(heightMm * 100) / 100,
+      bleedMm: spec.bleedMm,
+      dpi: spec.dpi,
+    };
+
+    if (
+      dimensions.widthPx + dimensions.bleedPx * 2 > MAX_PRINT_SIDE_PX ||
+      dimensions.heightPx + dimensions.bleedPx * 2 > MAX_PRINT_SIDE_PX
+    ) {
+      throw new BadRequestException(
+        `Print render would exceed ${MAX_PRINT_SIDE_PX}px per side. Reduce size or DPI.`,
+      );
+    }
+
+    return dimensions;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Private bucket for clean, print-quality files (CUSTOMIZER_PRODUCTION_BUCKET,
+ * default customizer-production). Its objects have no public URL; staff reach them
+ * through short-lived signed URLs from the production route. Paths mirror the
+ * public customizer-uploads bucket, e.g. `customizer/<sessionId>-<productId>/`.
+ */
+export function getProductionBucket(): string {
+  return process.env.CUSTOMIZER_PRODUCTION_BUCKET || 'customizer-production';
+}
+
+/**
+ * Lifetime in seconds of signed production file URLs
+ * (CUSTOMIZER_PRODUCTION_URL_TTL, default 10 minutes)
+ */
+export function getProductionUrlTtl(): number {
+  const ttl = parseInt(process.env.CUSTOMIZER_PRODUCTION_URL_TTL ?? '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 600;
+}
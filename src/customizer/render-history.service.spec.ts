@@ -0,0 +1,185 @@
+import { NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import { DesignManifest, MANIFEST_FILE_NAME } from './design-manifest';
+import { RenderHistoryService } from './render-history.service';
+
+const BUCKET = 'customizer-uploads';
+const PRODUCTION_BUCKET = 'customizer-production';
+const FOLDER = 'customizer/s1_100-p1';
+
+describe('RenderHistoryService', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+  let history: RenderHistoryService;
+  /** Render files of the folder's current design */
+  let current: Array<[string, string]> = [];
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'render-history-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    storage = new LocalStorageProvider();
+    history = new RenderHistoryService(storage, new AssetUrlService(storage));
+    current = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.STORAGE_LOCAL_DIR;
+    delete process.env.CUSTOMIZER_HISTORY_LIMIT;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  /** Replace the folder's design with a heart render made at `timestamp` */
+  async function putDesign(timestamp: number, zoom = 1): Promise<void> {
+    for (const [bucket, file] of current) {
+      await storage.remove(bucket, [file]);
+    }
+
+    const manifest = {
+      sessionId: 's1_100',
+      productId: 'p1',
+      createdAt: new Date(timestamp).toISOString(),
+      source: 'upload',
+      customization: { x: 50, y: 50, zoom, shape: 'heart' },
+      renders: {
+        preview: { file: `heart_${timestamp}.png`, width: 100, height: 100 },
+        print: { file: `print_heart_${timestamp}.png` },
+        mockup: null,
+        cut: null,
+      },
+    } as unknown as DesignManifest;
+    const files: Array<[string, string, string]> = [
+      [BUCKET, 'original.png', `original ${timestamp}`],
+      [BUCKET, `heart_${timestamp}.png`, `preview ${timestamp}`],
+      [BUCKET, MANIFEST_FILE_NAME, JSON.stringify(manifest)],
+      [PRODUCTION_BUCKET, `print_heart_${timestamp}.png`, `print ${timestamp}`],
+    ];
+    for (const [bucket, name, content] of files) {
+      await storage.upload(bucket, `${FOLDER}/${name}`, Buffer.from(content), {
+        upsert: true,
+      });
+    }
+    current = files
+      .filter(
+        ([, name]) => name.startsWith('heart_') || name.startsWith('print_'),
+      )
+      .map(([bucket, name]) => [bucket, `${FOLDER}/${name}`]);
+  }
+
+  async function read(bucket: string, file: string): Promise<string> {
+    const { data } = await storage.download(bucket, `${FOLDER}/${file}`);
+    return data?.toString('utf8') ?? '';
+  }
+
+  async function names(bucket: string, folder = FOLDER): Promise<string[]> {
+    const { data } = await storage.list(bucket, folder);
+    return (data ?? []).map((entry) => entry.name);
+  }
+
+  it('keeps only the newest CUSTOMIZER_HISTORY_LIMIT renders', async () => {
+    process.env.CUSTOMIZER_HISTORY_LIMIT = '2';
+
+    for (const timestamp of [1000, 2000, 3000]) {
+      await putDesign(timestamp);
+      expect(await history.archive(FOLDER)).toBe(String(timestamp));
+    }
+
+    expect((await history.list(FOLDER)).map((entry) => entry.id)).toEqual([
+      '3000',
+      '2000',
+    ]);
+    expect(await names(PRODUCTION_BUCKET, `${FOLDER}/history`)).toEqual([
+      '2000',
+      '3000',
+    ]);
+  });
+
+  it('archives nothing when the history is disabled', async () => {
+    process.env.CUSTOMIZER_HISTORY_LIMIT = '0';
+    await putDesign(1000);
+
+    expect(await history.archive(FOLDER)).toBeNull();
+    expect(await history.list(FOLDER)).toEqual([]);
+  });
+
+  it('restores an entry as the latest design and archives the one it replaces', async () => {
+    await putDesign(1000, 2);
+    await history.archive(FOLDER);
+    await putDesign(2000);
+    jest.spyOn(Date, 'now').mockReturnValue(5000);
+
+    const restored = await history.restore(FOLDER, '1000');
+
+    expect(restored.shapedFileId).toBe(`${FOLDER}/heart_5000.png`);
+    expect(restored.printFileId).toBe(`${FOLDER}/print_heart_5000.png`);
+    expect(await names(BUCKET)).toEqual([
+      'heart_5000.png',
+      'history',
+      MANIFEST_FILE_NAME,
+      'original.png',
+    ]);
+    expect(await read(BUCKET, 'heart_5000.png')).toBe('preview 1000');
+    expect(await read(BUCKET, 'original.png')).toBe('original 1000');
+    expect(await read(PRODUCTION_BUCKET, 'print_heart_5000.png')).toBe(
+      'print 1000',
+    );
+    expect((await history.list(FOLDER)).map((entry) => entry.id)).toEqual([
+      '2000',
+      '1000',
+    ]);
+  });
+
+  it('rewrites the restored manifest for the renamed renders', async () => {
+    await putDesign(1000, 2);
+    await history.archive(FOLDER);
+    await putDesign(2000);
+    jest.spyOn(Date, 'now').mockReturnValue(5000);
+
+    const { manifest } = await history.restore(FOLDER, '1000');
+
+    expect(manifest).toMatchObject({
+      source: 'revert',
+      revertedFrom: '1000',
+      customization: { zoom: 2, shape: 'heart' },
+      renders: {
+        preview: { file: 'heart_5000.png' },
+        print: { file: 'print_heart_5000.png' },
+        mockup: null,
+        cut: null,
+      },
+    });
+    expect(JSON.parse(await read(BUCKET, MANIFEST_FILE_NAME))).toEqual(
+      manifest,
+    );
+  });
+
+  it('restores an entry before pruning it from a full history', async () => {
+    process.env.CUSTOMIZER_HISTORY_LIMIT = '1';
+    await putDesign(1000);
+    await history.archive(FOLDER);
+    await putDesign(2000);
+
+    await history.restore(FOLDER, '1000');
+
+    expect((await history.list(FOLDER)).map((entry) => entry.id)).toEqual([
+      '2000',
+    ]);
+    expect(await read(BUCKET, 'original.png')).toBe('original 1000');
+  });
+
+  it('rejects unknown history entries', async () => {
+    await putDesign(1000);
+    await history.archive(FOLDER);
+
+    await expect(history.restore(FOLDER, '999')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(history.restore(FOLDER, '../1000')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
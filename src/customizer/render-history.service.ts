@@ -0,0 +1,412 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DesignManifest, MANIFEST_FILE_NAME } from './design-manifest';
+import { getProductionBucket } from './production-files';
+import { getMockupFileName } from './mockup.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+
+/** Subfolder of a session-product folder holding previous renders */
+export const HISTORY_FOLDER_NAME = 'history';
+
+const BUCKET = 'customizer-uploads';
+
+/** Shaped preview renders are named `<shape>_<timestamp>.png` */
+const SHAPED_RENDER_PATTERN = /^(.+?)_(\d+)\.png$/i;
+/** Product mockups are named `mockup_<shape>_<timestamp>.jpg` */
+const MOCKUP_RENDER_PATTERN = /^mockup_.+_\d+\.jpg$/i;
+/** Laser cut outlines are named `cut_<shape>_<timestamp>.svg|dxf` (production bucket) */
+const CUT_PATH_PATTERN = /^cut_.+_\d+\.(svg|dxf)$/i;
+/** Files that make up a design besides the renders */
+const DESIGN_FILE_PATTERN =
+  /^(original\.(png|jpe?g)|background\.png|manifest\.json)$/i;
+
+export interface RenderHistoryEntry {
+  /** Timestamp of the archived render, newest first in listings */
+  id: string;
+  shape: string;
+  createdAt: string | null;
+  customization: DesignManifest['customization'] | null;
+  shapedUrl: string;
+  /** Clean print file in the private production bucket */
+  printFileId: string | null;
+  mockupUrl: string | null;
+  files: string[];
+}
+
+/**
+ * Keeps a bounded history of previous renders per session-product folder under
+ * `<folder>/history/<timestamp>/`, each with its original, renders and manifest,
+ * so an earlier version can be promoted back to the latest one. Clean print files
+ * are archived under the same path in the private production bucket.
+ */
+@Injectable()
+export class RenderHistoryService {
+  private readonly logger = new Logger(RenderHistoryService.name);
+
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
+
+  /**
+   * Number of previous renders kept per session-product (CUSTOMIZER_HISTORY_LIMIT,
+   * default 10); 0 disables the history
+   */
+  getHistoryLimit(): number {
+    const limit = parseInt(process.env.CUSTOMIZER_HISTORY_LIMIT ?? '', 10);
+    return Number.isFinite(limit) && limit >= 0 ? limit : 10;
+  }
+
+  /**
+   * Copy the folder's current design into the history before it is replaced.
+   * Returns the history entry id, or null when there is nothing to archive.
+   */
+  async archive(folderPath: string): Promise<string | null> {
+    if (!this.storage.isConfigured() || this.getHistoryLimit() === 0)
+      return null;
+
+    const id = await this.copyToHistory(folderPath);
+    await this.prune(folderPath);
+    return id;
+  }
+
+  private async copyToHistory(folderPath: string): Promise<string | null> {
+    const names = await this.listFileNames(folderPath);
+    const shaped = names.find((name) => isShapedRender(name));
+    if (!shaped) return null;
+
+    const id = shaped.match(SHAPED_RENDER_PATTERN)![2];
+    const entryPath = `${folderPath}/${HISTORY_FOLDER_NAME}/${id}`;
+
+    // Already archived, e.g. when the same render is replaced twice
+    const existing = await this.listFileNames(entryPath);
+    if (existing.length > 0) return id;
+
+    const productionBucket = getProductionBucket();
+    const productionNames = await this.listFileNames(
+      folderPath,
+      productionBucket,
+    );
+    for (const [bucket, name] of [
+      ...names.filter((n) => isDesignFile(n)).map((n) => [BUCKET, n]),
+      ...productionNames.map((n) => [productionBucket, n]),
+    ]) {
+      const { error } = await this.storage.copy(
+        bucket,
+        `${folderPath}/${name}`,
+        `${entryPath}/${name}`,
+      );
+      if (error) {
+        throw new BadRequestException(
+          `Failed to archive ${name}: ${error.message}`,
+        );
+      }
+    }
+    this.logger.log(`Archived render ${id} of ${folderPath}`);
+    return id;
+  }
+
+  /**
+   * Previous renders of a folder, newest first
+   */
+  async list(folderPath: string): Promise<RenderHistoryEntry[]> {
+    if (!this.storage.isConfigured()) return [];
+
+    const entries: RenderHistoryEntry[] = [];
+    for (const id of await this.listEntryIds(folderPath)) {
+      const entryPath = `${folderPath}/${HISTORY_FOLDER_NAME}/${id}`;
+      const files = await this.listFileNames(entryPath);
+      const shaped = files.find((name) => isShapedRender(name));
+      if (!shaped) continue;
+
+      const print = (
+        await this.listFileNames(entryPath, getProductionBucket())
+      ).find((name) => name.toLowerCase().startsWith('print_'));
+      const mockup = files.find((name) => MOCKUP_RENDER_PATTERN.test(name));
+      const manifest = files.includes(MANIFEST_FILE_NAME)
+        ? await this.readJson<DesignManifest>(
+            `${entryPath}/${MANIFEST_FILE_NAME}`,
+          )
+        : null;
+
+      entries.push({
+        id,
+        shape: shaped.match(SHAPED_RENDER_PATTERN)![1].toLowerCase(),
+        createdAt: manifest?.createdAt ?? null,
+        customization: manifest?.customization ?? null,
+        shapedUrl: await this.assetUrls.url(`${entryPath}/${shaped}`),
+        printFileId: print ? `${entryPath}/${print}` : null,
+        mockupUrl: mockup
+          ? await this.assetUrls.url(`${entryPath}/${mockup}`)
+          : null,
+        files,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Make history entry `id` the folder's current design again. The design it replaces
+   * is archived first, and the restored renders get fresh timestamps so they become
+   * the latest shape of the session.
+   */
+  async restore(
+    folderPath: string,
+    id: string,
+  ): Promise<{
+    shapedFileId: string;
+    printFileId: string | null;
+    manifest: DesignManifest | null;
+  }> {
+    this.storage.assertAvailable();
+
+    const entryPath = `${folderPath}/${HISTORY_FOLDER_NAME}/${id}`;
+    const entryFiles = await this.listFileNames(entryPath);
+    const shaped = entryFiles.find((name) => isShapedRender(name));
+    if (!/^\d+$/.test(id) || !shaped) {
+      throw new NotFoundException(`History entry ${id} not found`);
+    }
+
+    // Pruning waits until the end so the entry being restored cannot be dropped
+    if (this.getHistoryLimit() > 0) {
+      await this.copyToHistory(folderPath);
+    }
+
+    const productionBucket = getProductionBucket();
+    const productionEntryFiles = await this.listFileNames(
+      entryPath,
+      productionBucket,
+    );
+    const current = [
+      ...(await this.listFileNames(folderPath))
+        .filter((name) => isDesignFile(name))
+        .map((name) => [BUCKET, name]),
+      ...(await this.listFileNames(folderPath, productionBucket)).map(
+        (name) => [productionBucket, name],
+      ),
+    ];
+    for (const bucket of [BUCKET, productionBucket]) {
+      const paths = current
+        .filter(([b]) => b === bucket)
+        .map(([, name]) => `${folderPath}/${name}`);
+      if (paths.length === 0) continue;
+
+      const { error } = await this.storage.remove(bucket, paths);
+      if (error) {
+        throw new BadRequestException(
+          `Failed to replace the current design: ${error.message}`,
+        );
+      }
+    }
+
+    const shape = shaped.match(SHAPED_RENDER_PATTERN)![1];
+    const timestamp = Date.now();
+    const shapedName = `${shape}_${timestamp}.png`;
+    const printName = `print_${shape}_${timestamp}.png`;
+    const mockupName = getMockupFileName(shapedName);
+    const cutName = (extension: string) =>
+      `cut_${shape}_${timestamp}.${extension.toLowerCase()}`;
+    let hasPrint = false;
+
+    for (const [bucket, name] of [
+      ...entryFiles.map((n) => [BUCKET, n]),
+      ...productionEntryFiles.map((n) => [productionBucket, n]),
+    ]) {
+      if (name === MANIFEST_FILE_NAME) continue;
+
+      let target = name;
+      if (name === shaped) {
+        target = shapedName;
+      } else if (name.toLowerCase().startsWith('print_')) {
+        target = printName;
+        hasPrint = hasPrint || bucket === productionBucket;
+      } else if (MOCKUP_RENDER_PATTERN.test(name)) {
+        target = mockupName;
+      } else if (CUT_PATH_PATTERN.test(name)) {
+        target = cutName(name.match(CUT_PATH_PATTERN)![1]);
+      }
+
+      const { error } = await this.storage.copy(
+        bucket,
+        `${entryPath}/${name}`,
+        `${folderPath}/${target}`,
+      );
+      if (error) {
+        throw new BadRequestException(
+          `Failed to restore ${name}: ${error.message}`,
+        );
+      }
+    }
+
+    // The manifest describes the renders by name, so it is rewritten rather than copied
+    let manifest = entryFiles.includes(MANIFEST_FILE_NAME)
+      ? await this.readJson<DesignManifest>(
+          `${entryPath}/${MANIFEST_FILE_NAME}`,
+        )
+      : null;
+    if (manifest) {
+      manifest = {
+        ...manifest,
+        createdAt: new Date().toISOString(),
+        source: 'revert',
+        revertedFrom: id,
+        renders: {
+          preview: { ...manifest.renders.preview, file: shapedName },
+          print: { ...manifest.renders.print, file: printName },
+          mockup: manifest.renders.mockup
+            ? { ...manifest.renders.mockup, file: mockupName }
+            : null,
+          cut: manifest.renders.cut
+            ? {
+                ...manifest.renders.cut,
+                svg: cutName('svg'),
+                dxf: cutName('dxf'),
+              }
+            : null,
+        },
+      };
+      const { error } = await this.storage.upload(
+        BUCKET,
+        `${folderPath}/${MANIFEST_FILE_NAME}`,
+        Buffer.from(JSON.stringify(manifest, null, 2)),
+        {
+          contentType: 'application/json',
+          cacheControl: '0',
+          upsert: true,
+        },
+      );
+      if (error) {
+        throw new BadRequestException(
+          `Failed to upload manifest: ${error.message}`,
+        );
+      }
+    }
+
+    await this.prune(folderPath);
+    this.logger.log(`Restored render ${id} of ${folderPath}`);
+
+    return {
+      shapedFileId: `${folderPath}/${shapedName}`,
+      printFileId: hasPrint ? `${folderPath}/${printName}` : null,
+      manifest,
+    };
+  }
+
+  /**
+   * Paths of every file in a folder's history, for deleting the folder completely
+   */
+  async listFilePaths(
+    folderPath: string,
+    bucket: string = BUCKET,
+  ): Promise<string[]> {
+    if (!this.storage.isConfigured()) return [];
+
+    const paths: string[] = [];
+    for (const id of await this.listEntryIds(folderPath, bucket)) {
+      const entryPath = `${folderPath}/${HISTORY_FOLDER_NAME}/${id}`;
+      for (const name of await this.listFileNames(entryPath, bucket)) {
+        paths.push(`${entryPath}/${name}`);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Drop the oldest entries beyond the history limit
+   */
+  private async prune(folderPath: string): Promise<void> {
+    const stale = (await this.listEntryIds(folderPath)).slice(
+      this.getHistoryLimit(),
+    );
+
+    for (const id of stale) {
+      const entryPath = `${folderPath}/${HISTORY_FOLDER_NAME}/${id}`;
+      for (const bucket of [BUCKET, getProductionBucket()]) {
+        const paths = (await this.listFileNames(entryPath, bucket)).map(
+          (name) => `${entryPath}/${name}`,
+        );
+        if (paths.length === 0) continue;
+
+        const { error } = await this.storage.remove(bucket, paths);
+        if (error) {
+          this.logger.warn(
+            `Failed to prune history entry ${entryPath}: ${error.message}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * History entry ids of a folder, newest first
+   */
+  private async listEntryIds(
+    folderPath: string,
+    bucket: string = BUCKET,
+  ): Promise<string[]> {
+    const { data, error } = await this.storage.listAll(
+      bucket,
+      `${folderPath}/${HISTORY_FOLDER_NAME}`,
+    );
+    if (error || !data) return [];
+
+    return data
+      .map((entry) => entry.name || '')
+      .filter((name) => /^\d+$/.test(name))
+      .sort((a, b) => Number(b) - Number(a));
+  }
+
+  /**
+   * Names of the files directly inside a folder (subfolders are skipped)
+   */
+  private async listFileNames(
+    folderPath: string,
+    bucket: string = BUCKET,
+  ): Promise<string[]> {
+    const { data, error } = await this.storage.listAll(bucket, folderPath);
+    if (error || !data) return [];
+
+    return data
+      .map((entry) => entry.name || '')
+      .filter(
+        (name) =>
+          name !== '' &&
+          name !== HISTORY_FOLDER_NAME &&
+          name !== '.emptyFolderPlaceholder',
+      );
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    const { data, error } = await this.storage.download(BUCKET, filePath);
+    if (error || !data) return null;
+
+    try {
+      return JSON.parse(data.toString('utf8')) as T;
+    } catch {
+      this.logger.warn(`Unreadable JSON in ${filePath}`);
+      return null;
+    }
+  }
+}
+
+function isShapedRender(name: string): boolean {
+  return (
+    SHAPED_RENDER_PATTERN.test(name) && !name.toLowerCase().startsWith('print_')
+  );
+}
+
+/**
+ * Renders plus the files needed to reproduce them
+ */
+function isDesignFile(name: string): boolean {
+  return (
+    SHAPED_RENDER_PATTERN.test(name) ||
+    MOCKUP_RENDER_PATTERN.test(name) ||
+    DESIGN_FILE_PATTERN.test(name)
+  );
+}
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { SessionUploadController } from './session-upload.controller';
 import { SessionUploadService } from './session-upload.service';
+import { StorageModule } from '../storage/storage.module';
+import { SessionsModule } from '../sessions/sessions.module';
 
 @Module({
+  imports: [StorageModule, SessionsModule],
   controllers: [SessionUploadController],
   providers: [SessionUploadService],
   exports: [SessionUploadService],
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { AssetUrlService } from '../storage/asset-url.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SessionUploadService } from './session-upload.service';
+
+function upload(buffer: Buffer, mimetype: string): Express.Multer.File[] {
+  return [{ buffer, mimetype } as Express.Multer.File];
+}
+
+function image(format: 'png' | 'jpeg'): Promise<Buffer> {
+  return sharp({
+    create: {
+      width: 200,
+      height: 200,
+      channels: 3,
+      background: { r: 200, g: 50, b: 50 },
+    },
+  })
+    .toFormat(format)
+    .toBuffer();
+}
+
+describe('SessionUploadService', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+  let record: jest.Mock;
+  let service: SessionUploadService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'session-upload-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    storage = new LocalStorageProvider();
+    record = jest.fn(() => Promise.resolve());
+    service = new SessionUploadService(
+      storage,
+      { record } as unknown as SessionsService,
+      new AssetUrlService(storage),
+    );
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function names(): Promise<string[]> {
+    const { data } = await storage.list('customizer-uploads', 'customizer/s1');
+    return (data ?? []).map((entry) => entry.name);
+  }
+
+  it('stores a JPEG original under its own extension', async () => {
+    const png = await image('png');
+
+    const result = await service.storeSessionFiles('s1', {
+      original: upload(await image('jpeg'), 'image/jpeg'),
+      shape: upload(png, 'image/png'),
+      qr: upload(png, 'image/png'),
+    });
+
+    expect(result.originalUrl).toContain('customizer/s1/original.jpg');
+    expect(await names()).toEqual(['original.jpg', 'qr.png', 'shape.png']);
+    const { data } = await storage.download(
+      'customizer-uploads',
+      'customizer/s1/original.jpg',
+    );
+    expect((await sharp(data!).metadata()).format).toBe('jpeg');
+    expect(record).toHaveBeenCalledWith('s1', null, [
+      'original.jpg',
+      'shape.png',
+      'qr.png',
+    ]);
+  });
+
+  it('replaces an original uploaded earlier in another format', async () => {
+    const png = await image('png');
+    const files = {
+      shape: upload(png, 'image/png'),
+      qr: upload(png, 'image/png'),
+    };
+
+    await service.storeSessionFiles('s1', {
+      ...files,
+      original: upload(await image('jpeg'), 'image/jpeg'),
+    });
+    await service.storeSessionFiles('s1', {
+      ...files,
+      original: upload(png, 'image/png'),
+    });
+
+    expect(await names()).toEqual(['original.png', 'qr.png', 'shape.png']);
+  });
+
+  it('rejects originals that are not images', async () => {
+    const png = await image('png');
+
+    await expect(
+      service.storeSessionFiles('s1', {
+        original: upload(Buffer.from('not an image'), 'image/png'),
+        shape: upload(png, 'image/png'),
+        qr: upload(png, 'image/png'),
+      }),
+    ).rejects.toThrow('Only PNG, JPG, WebP, AVIF and HEIC images are allowed');
+    expect(await names()).toEqual([]);
+  });
+});
@@ -1,58 +1,22 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
-import { createClient } from '@supabase/supabase-js';
-import { promises as dns } from 'dns';
+import { applyWatermark } from './watermark';
+import { normalizeImage } from './image-normalizer';
+import { getProductionBucket } from './production-files';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService, contentVersion } from '../storage/asset-url.service';
+import { SessionsService } from '../sessions/sessions.service';
 
 @Injectable()
 export class SessionUploadService {
   private readonly logger = new Logger(SessionUploadService.name);
-  private supabase: any;
 
-  constructor() {
-    this.initializeSupabase();
-  }
-
-  private async initializeSupabase(): Promise<void> {
-    try {
-      const supabaseUrl = process.env.SUPABASE_URL;
-      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
-
-      if (!supabaseUrl || !supabaseKey) {
-        this.logger.warn('Supabase credentials not configured; session upload disabled.');
-        this.supabase = null;
-        return;
-      }
-
-      // Quick DNS lookup to detect obvious misconfiguration (ENOTFOUND) early
-      try {
-        const host = new URL(supabaseUrl).hostname;
-        await dns.lookup(host);
-      } catch (err) {
-        this.logger.error('Supabase host lookup failed; storage operations will be disabled. Check SUPABASE_URL:', err?.message || err);
-        this.supabase = null;
-        return;
-      }
-
-      this.supabase = createClient(supabaseUrl, supabaseKey);
-      this.logger.log('SessionUploadService: Supabase client created');
-
-      // Optionally verify storage is accessible (warn only)
-      try {
-        // List root customizer folder to confirm storage connectivity
-        await this.supabase.storage.from('customizer-uploads').list('customizer');
-        this.logger.log('SessionUploadService: Supabase storage accessible');
-      } catch (err) {
-        this.logger.warn('SessionUploadService: Supabase storage appears unreachable or misconfigured:', err?.message || err);
-        // keep client but leave note in logs; actual upload calls will fail with clear errors
-      }
-    } catch (err) {
-      this.logger.error('Failed to initialize Supabase in SessionUploadService:', err);
-      this.supabase = null;
-    }
-  }
+  constructor(private readonly storage: StorageProvider, private readonly sessions: SessionsService, private readonly assetUrls: AssetUrlService) {}
 
   /**
    * Store provided files under folder customizer/<sessionId>/
    * Expects files.original[0], files.shape[0], files.qr[0]
+   * The original is normalized like other uploads and stored as original.png or original.jpg.
+   * The public shape.png is watermarked; the clean one goes to the private production bucket.
    */
   async storeSessionFiles(
     sessionId: string,
@@ -66,9 +30,7 @@ export class SessionUploadService {
       throw new BadRequestException('sessionId is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase is not configured');
-    }
+    this.storage.assertAvailable();
 
     const originalFile = files.original && files.original[0] ? files.original[0] : null;
     const shapeFile = files.shape && files.shape[0] ? files.shape[0] : null;
@@ -78,43 +40,54 @@ export class SessionUploadService {
       throw new BadRequestException('original, shape and qr files are required');
     }
 
+    // Rejects unsupported formats before anything is stored
+    const original = await normalizeImage(originalFile);
+    const originalName = `original.${original.extension}`;
+
     try {
       const folder = `customizer/${sessionId}`;
-      const origPath = `${folder}/original.png`;
+      const origPath = `${folder}/${originalName}`;
       const shapePath = `${folder}/shape.png`;
       const qrPath = `${folder}/qr.png`;
 
-      const upsertOpts = { contentType: originalFile.mimetype || 'image/png', cacheControl: '3600', upsert: true };
-
       // Upload original
-      let { error: origErr } = await this.supabase.storage.from('customizer-uploads').upload(origPath, originalFile.buffer, upsertOpts);
+      let { error: origErr } = await this.storage.upload('customizer-uploads', origPath, original.buffer, { contentType: original.mimetype, cacheControl: '3600', upsert: true });
       if (origErr) {
         this.logger.error('Failed to upload original:', origErr);
         throw new BadRequestException('Failed to upload original');
       }
 
-      // Upload shape
-      let { error: shapeErr } = await this.supabase.storage.from('customizer-uploads').upload(shapePath, shapeFile.buffer, { contentType: shapeFile.mimetype || 'image/png', cacheControl: '3600', upsert: true });
+      // An earlier original in the other format would otherwise be found first
+      const staleOriginal = original.extension === 'png' ? 'original.jpg' : 'original.png';
+      await this.storage.remove('customizer-uploads', [`${folder}/${staleOriginal}`]);
+
+      // Upload clean shape (production only) and its watermarked preview
+      let { error: cleanShapeErr } = await this.storage.upload(getProductionBucket(), shapePath, shapeFile.buffer, { contentType: shapeFile.mimetype || 'image/png', cacheControl: '3600', upsert: true });
+      if (cleanShapeErr) {
+        this.logger.error('Failed to upload clean shape:', cleanShapeErr);
+        throw new BadRequestException('Failed to upload shape');
+      }
+
+      const shapePreview = await applyWatermark(shapeFile.buffer);
+      let { error: shapeErr } = await this.storage.upload('customizer-uploads', shapePath, shapePreview, { contentType: 'image/png', cacheControl: '3600', upsert: true });
       if (shapeErr) {
         this.logger.error('Failed to upload shape:', shapeErr);
         throw new BadRequestException('Failed to upload shape');
       }
 
       // Upload qr
-      let { error: qrErr } = await this.supabase.storage.from('customizer-uploads').upload(qrPath, qrFile.buffer, { contentType: qrFile.mimetype || 'image/png', cacheControl: '3600', upsert: true });
+      let { error: qrErr } = await this.storage.upload('customizer-uploads', qrPath, qrFile.buffer, { contentType: qrFile.mimetype || 'image/png', cacheControl: '3600', upsert: true });
       if (qrErr) {
         this.logger.error('Failed to upload qr:', qrErr);
         throw new BadRequestException('Failed to upload qr');
       }
 
-      const { data: origUrlData } = this.supabase.storage.from('customizer-uploads').getPublicUrl(origPath);
-      const { data: shapeUrlData } = this.supabase.storage.from('customizer-uploads').getPublicUrl(shapePath);
-      const { data: qrUrlData } = this.supabase.storage.from('customizer-uploads').getPublicUrl(qrPath);
+      // Files are replaced under fixed names, so their URLs are versioned by content
+      const originalUrl = (await this.assetUrls.url(origPath, contentVersion(original.buffer))) || undefined;
+      const shapeUrl = (await this.assetUrls.url(shapePath, contentVersion(shapePreview))) || undefined;
+      const qrUrl = (await this.assetUrls.url(qrPath, contentVersion(qrFile.buffer))) || undefined;
 
-      const cacheBuster = `v=${Date.now()}_${Math.random().toString(36).substring(2,8)}`;
-      const originalUrl = origUrlData?.publicUrl ? `${origUrlData.publicUrl}${origUrlData.publicUrl.includes('?') ? '&' : '?'}${cacheBuster}` : undefined;
-      const shapeUrl = shapeUrlData?.publicUrl ? `${shapeUrlData.publicUrl}${shapeUrlData.publicUrl.includes('?') ? '&' : '?'}${cacheBuster}` : undefined;
-      const qrUrl = qrUrlData?.publicUrl ? `${qrUrlData.publicUrl}${qrUrlData.publicUrl.includes('?') ? '&' : '?'}${cacheBuster}` : undefined;
+      await this.sessions.record(sessionId, null, [originalName, 'shape.png', 'qr.png']);
 
       this.logger.log(`Stored session files for ${sessionId}`);
 
@@ -127,39 +100,22 @@ export class SessionUploadService {
 
   /**
    * Find the QR file for a given sessionId (searches folders named `sessionId` or `sessionId-<productId>`)
-   * Returns a public URL with a cache-busting query string.
+   * Returns its URL versioned by content (signed in private-assets mode).
    */
   async getQrPublicUrl(sessionId: string): Promise<{ publicUrl: string }> {
     if (!sessionId || sessionId.trim() === '') {
       throw new BadRequestException('sessionId is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase is not configured');
-    }
+    this.storage.assertAvailable();
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        this.logger.error('Failed to list customizer root:', listRootError);
-        throw new BadRequestException('Failed to list customizer folders');
-      }
-
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
+      const matched = await this.sessions.find(sessionId);
 
       for (const entry of matched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } = await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError || !files) continue;
 
@@ -171,14 +127,10 @@ export class SessionUploadService {
           const nameLower = f.name.toLowerCase();
           if (qrCandidates.includes(nameLower) || nameLower.startsWith('qr')) {
             const filePath = `${folderPath}/${f.name}`;
-            const { data: urlData } = this.supabase.storage
-              .from('customizer-uploads')
-              .getPublicUrl(filePath);
-
-            const baseUrl = urlData?.publicUrl || '';
-            if (!baseUrl) continue;
-            const cacheBuster = `v=${Date.now()}_${Math.random().toString(36).substring(2,8)}`;
-            const publicUrl = `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}${cacheBuster}`;
+            const { data: qrBuffer, error: downloadErr } = await this.storage.download('customizer-uploads', filePath);
+            if (downloadErr) continue;
+            const publicUrl = await this.assetUrls.url(filePath, contentVersion(qrBuffer));
+            if (!publicUrl) continue;
             return { publicUrl };
           }
         }
@@ -200,32 +152,15 @@ export class SessionUploadService {
       throw new BadRequestException('sessionId is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase is not configured');
-    }
+    this.storage.assertAvailable();
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        this.logger.error('Failed to list customizer root:', listRootError);
-        throw new BadRequestException('Failed to list customizer folders');
-      }
-
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
+      const matched = await this.sessions.find(sessionId);
 
       for (const entry of matched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } = await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError || !files) continue;
 
@@ -237,38 +172,13 @@ export class SessionUploadService {
           if (qrCandidates.includes(nameLower) || nameLower.startsWith('qr')) {
             const filePath = `${folderPath}/${f.name}`;
 
-            const { data: downloadData, error: downloadErr } = await this.supabase.storage
-              .from('customizer-uploads')
-              .download(filePath);
+            const { data: buffer, error: downloadErr } = await this.storage.download('customizer-uploads', filePath);
 
-            if (downloadErr || !downloadData) {
+            if (downloadErr || !buffer) {
               this.logger.warn(`Failed to download ${filePath}: ${downloadErr?.message || String(downloadErr)}`);
               continue;
             }
 
-            // Convert downloadData to Buffer
-            let buffer: Buffer;
-            // In Node environments downloadData may be a ReadableStream or have arrayBuffer()
-            if (typeof (downloadData as any).arrayBuffer === 'function') {
-              const ab = await (downloadData as any).arrayBuffer();
-              buffer = Buffer.from(ab);
-            } else if ((downloadData as any).pipe) {
-              // readable stream
-              const chunks: Buffer[] = [];
-              await new Promise<void>((resolve, reject) => {
-                (downloadData as any)
-                  .on('data', (c: Buffer) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)))
-                  .on('end', () => resolve())
-                  .on('error', (e: any) => reject(e));
-              });
-              buffer = Buffer.concat(chunks);
-            } else if (downloadData instanceof Uint8Array) {
-              buffer = Buffer.from(downloadData as Uint8Array);
-            } else {
-              // Fallback: try to coerce
-              buffer = Buffer.from(await (downloadData as any).toString());
-            }
-
             // Try to infer MIME from filename
             const mimeType = nameLower.endsWith('.png') ? 'image/png' : nameLower.endsWith('.jpg') || nameLower.endsWith('.jpeg') ? 'image/jpeg' : 'application/octet-stream';
 
@@ -293,32 +203,15 @@ export class SessionUploadService {
       throw new BadRequestException('sessionId is required');
     }
 
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase is not configured');
-    }
+    this.storage.assertAvailable();
 
     try {
-      const { data: entries, error: listRootError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .list('customizer');
-
-      if (listRootError) {
-        this.logger.error('Failed to list customizer root:', listRootError);
-        throw new BadRequestException('Failed to list customizer folders');
-      }
-
-      const matched = (entries || []).filter((e: any) => {
-        if (!e || !e.name) return false;
-        return e.name === sessionId || e.name.startsWith(`${sessionId}-`);
-      });
+      const matched = await this.sessions.find(sessionId);
 
       for (const entry of matched) {
-        const folderName = entry.name;
-        const folderPath = `customizer/${folderName}`;
+        const folderPath = entry.storagePrefix;
 
-        const { data: files, error: listFilesError } = await this.supabase.storage
-          .from('customizer-uploads')
-          .list(folderPath);
+        const { data: files, error: listFilesError } = await this.storage.listAll('customizer-uploads', folderPath);
 
         if (listFilesError || !files) continue;
 
@@ -331,35 +224,13 @@ export class SessionUploadService {
           if (origCandidates.includes(nameLower) || nameLower.startsWith('original')) {
             const filePath = `${folderPath}/${f.name}`;
 
-            const { data: downloadData, error: downloadErr } = await this.supabase.storage
-              .from('customizer-uploads')
-              .download(filePath);
+            const { data: buffer, error: downloadErr } = await this.storage.download('customizer-uploads', filePath);
 
-            if (downloadErr || !downloadData) {
+            if (downloadErr || !buffer) {
               this.logger.warn(`Failed to download ${filePath}: ${downloadErr?.message || String(downloadErr)}`);
               continue;
             }
 
-            // Convert downloadData to Buffer (same approach as getQrFile)
-            let buffer: Buffer;
-            if (typeof (downloadData as any).arrayBuffer === 'function') {
-              const ab = await (downloadData as any).arrayBuffer();
-              buffer = Buffer.from(ab);
-            } else if ((downloadData as any).pipe) {
-              const chunks: Buffer[] = [];
-              await new Promise<void>((resolve, reject) => {
-                (downloadData as any)
-                  .on('data', (c: Buffer) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)))
-                  .on('end', () => resolve())
-                  .on('error', (e: any) => reject(e));
-              });
-              buffer = Buffer.concat(chunks);
-            } else if (downloadData instanceof Uint8Array) {
-              buffer = Buffer.from(downloadData as Uint8Array);
-            } else {
-              buffer = Buffer.from(await (downloadData as any).toString());
-            }
-
             const mimeType = nameLower.endsWith('.png') ? 'image/png' : nameLower.endsWith('.jpg') || nameLower.endsWith('.jpeg') ? 'image/jpeg' : nameLower.endsWith('.webp') ? 'image/webp' : 'application/octet-stream';
 
             return { buffer, mimeType, name: f.name };
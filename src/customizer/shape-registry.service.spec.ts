@@ -0,0 +1,123 @@
+import { BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ShapeRegistryService } from './shape-registry.service';
+
+/** In-memory customizer_shapes table behind a Supabase-like client */
+function fakeSupabase(rows: Array<Record<string, unknown>> = []) {
+  const select = jest.fn(() => ({
+    order: () => Promise.resolve({ data: [...rows], error: null }),
+  }));
+  const client = {
+    from: () => ({
+      select,
+      upsert: (row: Record<string, unknown>) => {
+        rows.push(row);
+        return Promise.resolve({ error: null });
+      },
+      delete: () => ({
+        eq: (_column: string, id: string) => {
+          rows.splice(
+            rows.findIndex((row) => row.id === id),
+            1,
+          );
+          return Promise.resolve({ error: null });
+        },
+      }),
+    }),
+  };
+  const supabase = {
+    client,
+    getClient: () => client,
+  } as unknown as SupabaseService;
+  return { supabase, select };
+}
+
+const STAR = {
+  id: 'Star',
+  name: 'Star',
+  path: 'M50,5 L61,40 L98,40 L68,62 L79,96 L50,75 L21,96 L32,62 L2,40 L39,40 Z',
+};
+
+describe('ShapeRegistryService', () => {
+  it('serves the built-in shapes without Supabase', async () => {
+    const registry = new ShapeRegistryService({
+      client: null,
+    } as SupabaseService);
+
+    expect((await registry.listShapes()).map((shape) => shape.id)).toEqual([
+      'circle',
+      'heart',
+      'rectangle',
+    ]);
+    expect((await registry.getShape('HEART'))?.builtIn).toBe(true);
+  });
+
+  it('rejects reserved and built-in shape ids', async () => {
+    const registry = new ShapeRegistryService(fakeSupabase().supabase);
+
+    for (const id of [
+      'original',
+      'background',
+      'layout',
+      'print',
+      'mockup',
+      'cut',
+      'qrcode',
+    ]) {
+      await expect(registry.registerShape({ ...STAR, id })).rejects.toThrow(
+        `Shape id "${id}" is reserved`,
+      );
+    }
+    await expect(
+      registry.registerShape({ ...STAR, id: 'heart' }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(registry.removeShape('circle')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('ignores table rows with reserved ids', async () => {
+    const registry = new ShapeRegistryService(
+      fakeSupabase([
+        { ...STAR, id: 'original', view_box: null, aspect_ratio: null },
+        { ...STAR, id: 'star', view_box: null, aspect_ratio: null },
+      ]).supabase,
+    );
+
+    const ids = await registry.getShapeIds();
+    expect(ids).toContain('star');
+    expect(ids).not.toContain('original');
+  });
+
+  it('accepts only path commands and numbers in custom paths', async () => {
+    const registry = new ShapeRegistryService(fakeSupabase().supabase);
+
+    for (const path of [
+      'M0,0 L10,10 Z"/><script>alert(1)</script>',
+      'M0,0 url(#x)',
+      '',
+    ]) {
+      await expect(registry.registerShape({ ...STAR, path })).rejects.toThrow(
+        'Shape path must be non-empty SVG path data',
+      );
+    }
+  });
+
+  it('reloads custom shapes after one is registered or removed', async () => {
+    const { supabase, select } = fakeSupabase();
+    const registry = new ShapeRegistryService(supabase);
+
+    expect(await registry.getShapeIds()).not.toContain('star');
+    await registry.listShapes();
+    expect(select).toHaveBeenCalledTimes(1);
+
+    const shape = await registry.registerShape(STAR);
+    expect(shape).toMatchObject({ id: 'star', builtIn: false });
+    expect(await registry.getShapeIds()).toContain('star');
+    expect(select).toHaveBeenCalledTimes(2);
+
+    await registry.removeShape('star');
+    expect(await registry.getShapeIds()).not.toContain('star');
+    expect(select).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,388 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import sharp from 'sharp';
+
+export interface ShapeDefinition {
+  id: string;
+  name: string;
+  /** SVG path data, expressed in `viewBox` coordinates */
+  path: string;
+  viewBox: string;
+  /** Output width / height used when rendering this shape */
+  aspectRatio: number;
+  builtIn: boolean;
+}
+
+export interface RegisterShapeInput {
+  id: string;
+  name: string;
+  path: string;
+  viewBox?: string;
+  aspectRatio?: number;
+}
+
+/** Row of the customizer_shapes table */
+interface ShapeRow {
+  id: string;
+  name: string;
+  path: string;
+  view_box: string | null;
+  aspect_ratio: number | string | null;
+}
+
+const DEFAULT_VIEW_BOX = '0 0 100 100';
+
+/**
+ * Shapes that ship with the app. They are drawn in a 100x100 viewBox so they render
+ * identically to the original hard-coded masks at 500x500.
+ */
+const BUILT_IN_SHAPES: ShapeDefinition[] = [
+  {
+    id: 'circle',
+    name: 'Circle',
+    path: 'M50,0 A50,50 0 1,1 50,100 A50,50 0 1,1 50,0 Z',
+    viewBox: DEFAULT_VIEW_BOX,
+    aspectRatio: 1,
+    builtIn: true,
+  },
+  {
+    id: 'heart',
+    name: 'Heart',
+    path: 'M50,90 C25,75 10,60 10,45 C10,30 20,20 30,20 C38,20 45,25 50,35 C55,25 62,20 70,20 C80,20 90,30 90,45 C90,60 75,75 50,90 Z',
+    viewBox: DEFAULT_VIEW_BOX,
+    aspectRatio: 1,
+    builtIn: true,
+  },
+  {
+    id: 'rectangle',
+    name: 'Rectangle',
+    path: 'M10,8 H90 A2,2 0 0 1 92,10 V90 A2,2 0 0 1 90,92 H10 A2,2 0 0 1 8,90 V10 A2,2 0 0 1 10,8 Z',
+    viewBox: DEFAULT_VIEW_BOX,
+    aspectRatio: 1,
+    builtIn: true,
+  },
+];
+
+const SHAPE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// Names of non-shape files kept in session folders; a shape with one of these ids would be ambiguous
+const RESERVED_SHAPE_IDS = [
+  'original',
+  'background',
+  'print',
+  'mockup',
+  'qr',
+  'qrcode',
+  'originalcode',
+  'cut',
+  'layout',
+  'shape',
+  'manifest',
+];
+// Only path commands, numbers and separators: the path is interpolated into SVG markup.
+const SVG_PATH_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,\s+-]+$/;
+const CACHE_TTL_MS = 60 * 1000;
+
+@Injectable()
+export class ShapeRegistryService {
+  private readonly logger = new Logger(ShapeRegistryService.name);
+  private customShapes: ShapeDefinition[] = [];
+  private loadedAt = 0;
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  /**
+   * Return every available shape: built-ins first, then staff-registered shapes
+   */
+  async listShapes(): Promise<ShapeDefinition[]> {
+    const custom = await this.loadCustomShapes();
+    const builtInIds = new Set(BUILT_IN_SHAPES.map((s) => s.id));
+    return [...BUILT_IN_SHAPES, ...custom.filter((s) => !builtInIds.has(s.id))];
+  }
+
+  async getShape(id: string): Promise<ShapeDefinition | undefined> {
+    if (!id) return undefined;
+    const shapes = await this.listShapes();
+    return shapes.find((s) => s.id === id.toLowerCase());
+  }
+
+  async getShapeIds(): Promise<Set<string>> {
+    const shapes = await this.listShapes();
+    return new Set(shapes.map((s) => s.id));
+  }
+
+  /**
+   * Build the mask SVG for a shape: white shape on a transparent canvas of width x height.
+   * With `bleed` (px) the canvas grows by bleed on every side and the outline is pushed
+   * outwards by the same amount, so the print render keeps image past the trim line.
+   */
+  buildMaskSvg(
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    bleed: number = 0,
+  ): string {
+    if (bleed <= 0) {
+      return `<svg width="${width}" height="${height}" viewBox="${shape.viewBox}" xmlns="http://www.w3.org/2000/svg" preserveAspectRatio="xMidYMid meet">
+            <path d="${shape.path}" fill="white"/>
+          </svg>`;
+    }
+
+    // The stroke is drawn in viewBox units, so convert the pixel bleed using the meet scale
+    const [, , viewBoxWidth, viewBoxHeight] = shape.viewBox
+      .split(/[\s,]+/)
+      .map(Number);
+    const scale = Math.min(width / viewBoxWidth, height / viewBoxHeight);
+    const strokeWidth = (bleed * 2) / scale;
+
+    return `<svg width="${width + bleed * 2}" height="${height + bleed * 2}" xmlns="http://www.w3.org/2000/svg">
+            <svg x="${bleed}" y="${bleed}" width="${width}" height="${height}" viewBox="${shape.viewBox}" preserveAspectRatio="xMidYMid meet" overflow="visible">
+              <path d="${shape.path}" fill="white" stroke="white" stroke-width="${strokeWidth}" stroke-linejoin="round"/>
+            </svg>
+          </svg>`;
+  }
+
+  /**
+   * Like buildMaskSvg, but the outline is pulled inwards by `inset` px instead of pushed
+   * outwards. The canvas still grows by `bleed`, so the result lines up with bleed masks.
+   */
+  buildInsetMaskSvg(
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    inset: number,
+    bleed: number = 0,
+  ): string {
+    const [, , viewBoxWidth, viewBoxHeight] = shape.viewBox
+      .split(/[\s,]+/)
+      .map(Number);
+    const scale = Math.min(width / viewBoxWidth, height / viewBoxHeight);
+    const strokeWidth = (inset * 2) / scale;
+
+    // The black stroke in the mask erases a band of `inset` px inside the outline
+    return `<svg width="${width + bleed * 2}" height="${height + bleed * 2}" xmlns="http://www.w3.org/2000/svg">
+            <svg x="${bleed}" y="${bleed}" width="${width}" height="${height}" viewBox="${shape.viewBox}" preserveAspectRatio="xMidYMid meet">
+              <defs>
+                <mask id="inset" maskUnits="userSpaceOnUse">
+                  <path d="${shape.path}" fill="white" stroke="black" stroke-width="${strokeWidth}" stroke-linejoin="round"/>
+                </mask>
+              </defs>
+              <path d="${shape.path}" fill="white" mask="url(#inset)"/>
+            </svg>
+          </svg>`;
+  }
+
+  /**
+   * Build the safe-area SVG for a shape: white where content may go, black elsewhere.
+   * The outline is pulled inwards by `inset` px, away from the cut line.
+   */
+  buildSafeAreaSvg(
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    inset: number,
+  ): string {
+    const [, , viewBoxWidth, viewBoxHeight] = shape.viewBox
+      .split(/[\s,]+/)
+      .map(Number);
+    const scale = Math.min(width / viewBoxWidth, height / viewBoxHeight);
+    const strokeWidth = (inset * 2) / scale;
+
+    return `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+            <rect width="100%" height="100%" fill="black"/>
+            <svg width="${width}" height="${height}" viewBox="${shape.viewBox}" preserveAspectRatio="xMidYMid meet">
+              <path d="${shape.path}" fill="white" stroke="black" stroke-width="${strokeWidth}" stroke-linejoin="round"/>
+            </svg>
+          </svg>`;
+  }
+
+  /**
+   * Output dimensions for a shape given the base (preview) width
+   */
+  getOutputSize(
+    shape: ShapeDefinition,
+    baseWidth: number,
+  ): { width: number; height: number } {
+    return {
+      width: baseWidth,
+      height: Math.max(1, Math.round(baseWidth / shape.aspectRatio)),
+    };
+  }
+
+  /**
+   * Register (or update) a custom shape
+   */
+  async registerShape(input: RegisterShapeInput): Promise<ShapeDefinition> {
+    const supabase = this.supabase.getClient();
+
+    const shape = this.validateShapeInput(input);
+
+    if (BUILT_IN_SHAPES.some((s) => s.id === shape.id)) {
+      throw new BadRequestException(
+        `Shape "${shape.id}" is built in and cannot be replaced`,
+      );
+    }
+
+    // Render a small mask to make sure the path is something librsvg can draw
+    try {
+      const stats = await sharp(Buffer.from(this.buildMaskSvg(shape, 64, 64)))
+        .ensureAlpha()
+        .stats();
+      const alpha = stats.channels[3];
+      if (!alpha || alpha.max === 0) {
+        throw new Error('empty mask');
+      }
+    } catch (error) {
+      this.logger.warn(`Shape ${shape.id} failed to render:`, error);
+      throw new BadRequestException(
+        'Shape path could not be rendered. Check the path data and viewBox.',
+      );
+    }
+
+    const { error } = await supabase.from('customizer_shapes').upsert({
+      id: shape.id,
+      name: shape.name,
+      path: shape.path,
+      view_box: shape.viewBox,
+      aspect_ratio: shape.aspectRatio,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to register shape: ${error.message}`,
+      );
+    }
+
+    this.loadedAt = 0;
+    this.logger.log(`Registered shape: ${shape.id}`);
+    return shape;
+  }
+
+  /**
+   * Remove a custom shape. Built-in shapes cannot be removed.
+   */
+  async removeShape(id: string): Promise<void> {
+    const supabase = this.supabase.getClient();
+
+    if (BUILT_IN_SHAPES.some((s) => s.id === id)) {
+      throw new BadRequestException(
+        `Shape "${id}" is built in and cannot be removed`,
+      );
+    }
+
+    const { error } = await supabase
+      .from('customizer_shapes')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new BadRequestException(`Failed to remove shape: ${error.message}`);
+    }
+
+    this.loadedAt = 0;
+    this.logger.log(`Removed shape: ${id}`);
+  }
+
+  private validateShapeInput(input: RegisterShapeInput): ShapeDefinition {
+    const id = (input?.id || '').trim().toLowerCase();
+    if (!SHAPE_ID_PATTERN.test(id) || id.length > 40) {
+      throw new BadRequestException(
+        'Shape id must be lowercase letters, digits and single hyphens (max 40 characters)',
+      );
+    }
+
+    if (RESERVED_SHAPE_IDS.includes(id)) {
+      throw new BadRequestException(`Shape id "${id}" is reserved`);
+    }
+
+    const name = (input.name || '').trim();
+    if (!name) {
+      throw new BadRequestException('Shape name is required');
+    }
+
+    const path = (input.path || '').trim();
+    if (!path || path.length > 20000 || !SVG_PATH_PATTERN.test(path)) {
+      throw new BadRequestException(
+        'Shape path must be non-empty SVG path data (commands and numbers only)',
+      );
+    }
+
+    const viewBox = (input.viewBox || DEFAULT_VIEW_BOX).trim();
+    const viewBoxParts = viewBox.split(/[\s,]+/).map(Number);
+    if (
+      viewBoxParts.length !== 4 ||
+      viewBoxParts.some((n) => !Number.isFinite(n)) ||
+      viewBoxParts[2] <= 0 ||
+      viewBoxParts[3] <= 0
+    ) {
+      throw new BadRequestException(
+        'viewBox must be four numbers: minX minY width height',
+      );
+    }
+
+    const aspectRatio =
+      input.aspectRatio === undefined || input.aspectRatio === null
+        ? 1
+        : Number(input.aspectRatio);
+    if (!Number.isFinite(aspectRatio) || aspectRatio < 0.2 || aspectRatio > 5) {
+      throw new BadRequestException('aspectRatio must be between 0.2 and 5');
+    }
+
+    return {
+      id,
+      name,
+      path,
+      viewBox: viewBoxParts.join(' '),
+      aspectRatio,
+      builtIn: false,
+    };
+  }
+
+  private async loadCustomShapes(): Promise<ShapeDefinition[]> {
+    const supabase = this.supabase.client;
+    if (!supabase) {
+      return [];
+    }
+
+    if (Date.now() - this.loadedAt < CACHE_TTL_MS) {
+      return this.customShapes;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customizer_shapes')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      this.customShapes = ((data || []) as ShapeRow[])
+        .filter((row) => {
+          // Rows inserted straight into the table skip registerShape's checks
+          if (!RESERVED_SHAPE_IDS.includes(row.id)) return true;
+          this.logger.warn(
+            `Ignoring custom shape with reserved id "${row.id}"`,
+          );
+          return false;
+        })
+        .map((row) => ({
+          id: row.id,
+          name: row.name,
+          path: row.path,
+          viewBox: row.view_box || DEFAULT_VIEW_BOX,
+          aspectRatio: Number(row.aspect_ratio) || 1,
+          builtIn: false,
+        }));
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Keep serving the last known set (or built-ins only) if the table is unavailable
+      this.logger.warn(
+        `Failed to load custom shapes: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.loadedAt = Date.now();
+    }
+
+    return this.customShapes;
+  }
+}
@@ -0,0 +1,73 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { StaffSecretGuard, StrictStaffSecretGuard } from './staff-secret.guard';
+
+function contextWith(headers: Record<string, string> = {}): ExecutionContext {
+  const request = { method: 'GET', path: '/customizer/production/s1', headers };
+  return {
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function statusOf(run: () => unknown): number | undefined {
+  try {
+    run();
+  } catch (error) {
+    return (error as HttpException).getStatus();
+  }
+  return undefined;
+}
+
+describe('StaffSecretGuard', () => {
+  afterEach(() => {
+    delete process.env.STAFF_SECRET;
+  });
+
+  it('stays open without STAFF_SECRET (development mode)', () => {
+    expect(new StaffSecretGuard().canActivate(contextWith())).toBe(true);
+  });
+
+  it('requires the configured secret', () => {
+    process.env.STAFF_SECRET = 'letmein';
+    const guard = new StaffSecretGuard();
+
+    expect(statusOf(() => guard.canActivate(contextWith()))).toBe(
+      HttpStatus.UNAUTHORIZED,
+    );
+    expect(
+      statusOf(() =>
+        guard.canActivate(contextWith({ 'x-staff-secret': 'guess' })),
+      ),
+    ).toBe(HttpStatus.UNAUTHORIZED);
+    expect(
+      guard.canActivate(contextWith({ 'x-staff-secret': 'letmein' })),
+    ).toBe(true);
+  });
+});
+
+describe('StrictStaffSecretGuard', () => {
+  afterEach(() => {
+    delete process.env.STAFF_SECRET;
+  });
+
+  it('fails closed without STAFF_SECRET', () => {
+    const guard = new StrictStaffSecretGuard();
+
+    expect(
+      statusOf(() =>
+        guard.canActivate(contextWith({ 'x-staff-secret': 'anything' })),
+      ),
+    ).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+  });
+
+  it('requires the configured secret', () => {
+    process.env.STAFF_SECRET = 'letmein';
+    const guard = new StrictStaffSecretGuard();
+
+    expect(statusOf(() => guard.canActivate(contextWith()))).toBe(
+      HttpStatus.UNAUTHORIZED,
+    );
+    expect(
+      guard.canActivate(contextWith({ 'x-staff-secret': 'letmein' })),
+    ).toBe(true);
+  });
+});
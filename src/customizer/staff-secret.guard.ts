@@ -0,0 +1,60 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import type { Request } from 'express';
+
+/**
+ * Protects staff-only routes with the `x-staff-secret` header.
+ * When `STAFF_SECRET` is not configured the route stays open (development mode),
+ * mirroring how the cleanup routes treat `CLEANUP_SECRET`.
+ */
+@Injectable()
+export class StaffSecretGuard implements CanActivate {
+  protected readonly logger = new Logger(StaffSecretGuard.name);
+  /** Whether the route stays open while STAFF_SECRET is not configured */
+  protected readonly openWithoutSecret: boolean = true;
+
+  canActivate(context: ExecutionContext): boolean {
+    const configured = process.env.STAFF_SECRET;
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (!configured) {
+      if (!this.openWithoutSecret) {
+        this.logger.error(
+          `STAFF_SECRET not configured; refusing ${request.method} ${request.path}.`,
+        );
+        throw new HttpException(
+          'Staff access is not configured',
+          HttpStatus.SERVICE_UNAVAILABLE,
+        );
+      }
+
+      this.logger.warn(
+        `STAFF_SECRET not configured; allowing ${request.method} ${request.path} without secret (development mode).`,
+      );
+      return true;
+    }
+
+    const secret = request.headers['x-staff-secret'];
+    if (!secret || secret !== configured) {
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+    }
+
+    return true;
+  }
+}
+
+/**
+ * StaffSecretGuard without the development mode, for routes that hand out clean
+ * production files: they answer 503 until STAFF_SECRET is configured.
+ */
+@Injectable()
+export class StrictStaffSecretGuard extends StaffSecretGuard {
+  protected readonly logger = new Logger(StrictStaffSecretGuard.name);
+  protected readonly openWithoutSecret = false;
+}
@@ -0,0 +1,55 @@
+import {
+  flattenSvgPath,
+  offsetPolygon,
+  pointAtLength,
+  polygonArea,
+  polylineLength,
+} from './svg-path';
+
+describe('svg-path', () => {
+  const square = 'M0,0 H10 V10 H0 Z';
+  const circle = 'M50,0 A50,50 0 1,1 50,100 A50,50 0 1,1 50,0 Z';
+
+  it('flattens straight segments and closes subpaths', () => {
+    const [points] = flattenSvgPath(square);
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+      { x: 0, y: 0 },
+    ]);
+    expect(polylineLength(points)).toBe(40);
+  });
+
+  it('approximates arcs', () => {
+    const [points] = flattenSvgPath(circle, 64);
+    expect(polylineLength(points)).toBeCloseTo(Math.PI * 100, 0);
+    for (const p of points) {
+      expect(Math.hypot(p.x - 50, p.y - 50)).toBeCloseTo(50, 5);
+    }
+  });
+
+  it('handles relative commands and implicit linetos', () => {
+    const [points] = flattenSvgPath('m5,5 10,0 l0,10 z');
+    expect(points.slice(0, 3)).toEqual([
+      { x: 5, y: 5 },
+      { x: 15, y: 5 },
+      { x: 15, y: 15 },
+    ]);
+  });
+
+  it('walks along closed polylines', () => {
+    const [points] = flattenSvgPath(square);
+    expect(pointAtLength(points, 15).point).toEqual({ x: 10, y: 5 });
+    expect(pointAtLength(points, 45).point).toEqual({ x: 5, y: 0 });
+  });
+
+  it('shrinks polygons with a negative offset', () => {
+    const [points] = flattenSvgPath(square);
+    const inner = offsetPolygon(points, -2);
+    expect(inner[0].x).toBeCloseTo(2);
+    expect(inner[0].y).toBeCloseTo(2);
+    expect(Math.abs(polygonArea(inner))).toBeCloseTo(36);
+  });
+});
@@ -0,0 +1,355 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Flatten SVG path data into polylines, one per subpath.
+ * Curves and arcs are approximated with `segments` straight lines each;
+ * closed subpaths end with their starting point.
+ */
+export function flattenSvgPath(d: string, segments: number = 16): Point[][] {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g);
+  const subpaths: Point[][] = [];
+  if (!tokens) return subpaths;
+
+  let current: Point[] = [];
+  let pos: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Reflected control points for S/s and T/t
+  let lastCubic: Point | null = null;
+  let lastQuad: Point | null = null;
+  let command = '';
+  let i = 0;
+
+  const next = (): number => parseFloat(tokens[i++]);
+  const hasNumber = (): boolean =>
+    i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i]);
+  const lineTo = (p: Point) => {
+    current.push(p);
+    pos = p;
+  };
+
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      throw new Error('Path data must start with a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    const base = relative ? pos : { x: 0, y: 0 };
+    const upper = command.toUpperCase();
+    let cubic: Point | null = null;
+    let quad: Point | null = null;
+
+    switch (upper) {
+      case 'M': {
+        const p = { x: base.x + next(), y: base.y + next() };
+        if (current.length > 1) subpaths.push(current);
+        current = [p];
+        pos = p;
+        start = p;
+        // Further coordinate pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        lineTo({ x: base.x + next(), y: base.y + next() });
+        break;
+      case 'H':
+        lineTo({ x: base.x + next(), y: pos.y });
+        break;
+      case 'V':
+        lineTo({ x: pos.x, y: base.y + next() });
+        break;
+      case 'C':
+      case 'S': {
+        const c1: Point =
+          upper === 'C'
+            ? { x: base.x + next(), y: base.y + next() }
+            : lastCubic
+              ? { x: 2 * pos.x - lastCubic.x, y: 2 * pos.y - lastCubic.y }
+              : pos;
+        const c2 = { x: base.x + next(), y: base.y + next() };
+        const end = { x: base.x + next(), y: base.y + next() };
+        const p0 = pos;
+        for (let s = 1; s <= segments; s++) {
+          const t = s / segments;
+          const mt = 1 - t;
+          lineTo({
+            x:
+              mt * mt * mt * p0.x +
+              3 * mt * mt * t * c1.x +
+              3 * mt * t * t * c2.x +
+              t * t * t * end.x,
+            y:
+              mt * mt * mt * p0.y +
+              3 * mt * mt * t * c1.y +
+              3 * mt * t * t * c2.y +
+              t * t * t * end.y,
+          });
+        }
+        cubic = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c: Point =
+          upper === 'Q'
+            ? { x: base.x + next(), y: base.y + next() }
+            : lastQuad
+              ? { x: 2 * pos.x - lastQuad.x, y: 2 * pos.y - lastQuad.y }
+              : pos;
+        const end = { x: base.x + next(), y: base.y + next() };
+        const p0 = pos;
+        for (let s = 1; s <= segments; s++) {
+          const t = s / segments;
+          const mt = 1 - t;
+          lineTo({
+            x: mt * mt * p0.x + 2 * mt * t * c.x + t * t * end.x,
+            y: mt * mt * p0.y + 2 * mt * t * c.y + t * t * end.y,
+          });
+        }
+        quad = c;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = { x: base.x + next(), y: base.y + next() };
+        for (const p of arcPoints(
+          pos,
+          end,
+          rx,
+          ry,
+          rotation,
+          largeArc,
+          sweep,
+          segments,
+        )) {
+          lineTo(p);
+        }
+        break;
+      }
+      case 'Z':
+        if (current.length > 0) {
+          current.push(start);
+          subpaths.push(current);
+        }
+        current = [start];
+        pos = start;
+        break;
+      default:
+        throw new Error(`Unsupported path command: ${command}`);
+    }
+
+    lastCubic = cubic;
+    lastQuad = quad;
+
+    if (upper === 'Z' && hasNumber()) {
+      throw new Error('Unexpected number after closepath');
+    }
+  }
+
+  if (current.length > 1) subpaths.push(current);
+  return subpaths;
+}
+
+/**
+ * Sample an elliptical arc using the endpoint-to-center conversion from the SVG spec
+ */
+function arcPoints(
+  from: Point,
+  to: Point,
+  rx: number,
+  ry: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  segments: number,
+): Point[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [to];
+  }
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale radii up when they are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor =
+    (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle(
+    (x1 - cx1) / rx,
+    (y1 - cy1) / ry,
+    (-x1 - cx1) / rx,
+    (-y1 - cy1) / ry,
+  );
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const points: Point[] = [];
+  for (let s = 1; s <= segments; s++) {
+    const t = theta1 + (delta * s) / segments;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  // Land exactly on the end point to avoid drift between segments
+  points[points.length - 1] = to;
+  return points;
+}
+
+/**
+ * Total length of a polyline
+ */
+export function polylineLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].y - points[i - 1].y,
+    );
+  }
+  return length;
+}
+
+/**
+ * Point and tangent angle (radians) at `distance` along a polyline.
+ * Distances wrap around when the polyline is closed.
+ */
+export function pointAtLength(
+  points: Point[],
+  distance: number,
+): { point: Point; angle: number } {
+  const total = polylineLength(points);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const closed = points.length > 2 && first.x === last.x && first.y === last.y;
+
+  let remaining = closed
+    ? ((distance % total) + total) % total
+    : Math.min(Math.max(distance, 0), total);
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const segment = Math.hypot(b.x - a.x, b.y - a.y);
+    if (segment === 0) continue;
+    if (remaining <= segment || i === points.length - 1) {
+      const t = Math.min(1, remaining / segment);
+      return {
+        point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+        angle: Math.atan2(b.y - a.y, b.x - a.x),
+      };
+    }
+    remaining -= segment;
+  }
+
+  return { point: first, angle: 0 };
+}
+
+/**
+ * Distance along a polyline of the vertex closest to `target`
+ */
+export function closestLength(points: Point[], target: Point): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  let travelled = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0) {
+      travelled += Math.hypot(
+        points[i].x - points[i - 1].x,
+        points[i].y - points[i - 1].y,
+      );
+    }
+    const distance = Math.hypot(points[i].x - target.x, points[i].y - target.y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = travelled;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Signed area of a closed polygon (shoelace formula). Positive when the
+ * vertices run clockwise on screen, where y points down.
+ */
+export function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Offset a closed polygon by `distance` along its vertex normals: positive grows it,
+ * negative shrinks it. Good enough for smooth outlines; sharp concave corners may
+ * self-intersect. Miters are capped at twice the distance.
+ */
+export function offsetPolygon(points: Point[], distance: number): Point[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const closed = first.x === last.x && first.y === last.y;
+  const ring = closed ? points.slice(0, -1) : points;
+  const orientation = polygonArea(ring) >= 0 ? 1 : -1;
+
+  const normal = (a: Point, b: Point): Point => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return {
+      x: ((b.y - a.y) / length) * orientation,
+      y: (-(b.x - a.x) / length) * orientation,
+    };
+  };
+
+  const result = ring.map((p, i) => {
+    const prev = ring[(i - 1 + ring.length) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const n1 = normal(prev, p);
+    const n2 = normal(p, next);
+    const mx = n1.x + n2.x;
+    const my = n1.y + n2.y;
+    const length = Math.hypot(mx, my);
+    if (length < 1e-9) {
+      return { x: p.x + n1.x * distance, y: p.y + n1.y * distance };
+    }
+    // Miter length grows as 1 / cos(half the turn angle)
+    const cosHalf = length / 2;
+    const scale = distance / Math.max(cosHalf, 0.5);
+    return { x: p.x + (mx / length) * scale, y: p.y + (my / length) * scale };
+  });
+
+  return closed ? [...result, result[0]] : result;
+}
@@ -0,0 +1,135 @@
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { SupabaseService } from '../supabase/supabase.service';
+import { TextLayer } from './customization-data';
+import {
+  ShapeDefinition,
+  ShapeRegistryService,
+} from './shape-registry.service';
+import { TextLayerService } from './text-layer.service';
+
+const SIZE = 300;
+
+function layer(overrides: Partial<TextLayer> = {}): TextLayer {
+  return {
+    text: 'Hello',
+    font: 'roboto',
+    size: 8,
+    color: '#000000',
+    x: 50,
+    y: 50,
+    ...overrides,
+  };
+}
+
+/** Number of inked pixels inside the given box of a rendered overlay */
+async function inkIn(
+  overlay: Buffer,
+  box: { left: number; top: number; width: number; height: number },
+): Promise<number> {
+  const alpha = await sharp(overlay)
+    .extract(box)
+    .extractChannel(3)
+    .raw()
+    .toBuffer();
+  return alpha.filter((value) => value > 32).length;
+}
+
+describe('TextLayerService', () => {
+  const registry = new ShapeRegistryService({
+    client: null,
+  } as SupabaseService);
+  const service = new TextLayerService(registry);
+  let circle: ShapeDefinition;
+
+  beforeAll(async () => {
+    circle = (await registry.getShape('circle'))!;
+  });
+
+  it('renders straight text centered on x/y with a bundled font', async () => {
+    const overlay = await service.renderOverlay([layer()], circle, SIZE, SIZE, {
+      enforceSafeArea: true,
+    });
+
+    const { width, height } = await sharp(overlay).metadata();
+    expect([width, height]).toEqual([SIZE, SIZE]);
+    expect(
+      await inkIn(overlay, { left: 100, top: 130, width: 100, height: 40 }),
+    ).toBeGreaterThan(0);
+    expect(
+      await inkIn(overlay, { left: 0, top: 0, width: SIZE, height: 100 }),
+    ).toBe(0);
+  });
+
+  it('rejects text outside the safe area only when asked to', async () => {
+    const corner = layer({ x: 12, y: 12 });
+
+    await expect(
+      service.renderOverlay([layer(), corner], circle, SIZE, SIZE, {
+        enforceSafeArea: true,
+      }),
+    ).rejects.toThrow('Text layer 2 ("Hello") does not fit inside the Circle');
+    await expect(
+      service.renderOverlay([corner], circle, SIZE, SIZE),
+    ).resolves.toBeInstanceOf(Buffer);
+  });
+
+  it('rejects unknown fonts', async () => {
+    await expect(
+      service.renderOverlay(
+        [layer({ font: 'comic-sans' })],
+        circle,
+        SIZE,
+        SIZE,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('bends curved text along the top of the outline', async () => {
+    const overlay = await service.renderOverlay(
+      [layer({ text: 'Happy birthday', y: 0, curve: true })],
+      circle,
+      SIZE,
+      SIZE,
+      { enforceSafeArea: true },
+    );
+
+    expect(
+      await inkIn(overlay, { left: 50, top: 0, width: 200, height: 80 }),
+    ).toBeGreaterThan(0);
+    expect(
+      await inkIn(overlay, { left: 0, top: 100, width: SIZE, height: 200 }),
+    ).toBe(0);
+  });
+
+  it('rejects curved text longer than the outline', async () => {
+    await expect(
+      service.renderOverlay(
+        [
+          layer({
+            text: 'Much too long for this outline '.repeat(4),
+            curve: true,
+          }),
+        ],
+        circle,
+        SIZE,
+        SIZE,
+      ),
+    ).rejects.toThrow('is longer than the Circle outline');
+  });
+
+  it('falls back to straight text when the outline has no room for it', async () => {
+    // Text this tall pulls the outline inset past the circle's center
+    const tall = layer({ text: 'A', size: 150 });
+
+    const curved = await service.renderOverlay(
+      [{ ...tall, curve: true }],
+      circle,
+      SIZE,
+      SIZE,
+    );
+    const straight = await service.renderOverlay([tall], circle, SIZE, SIZE);
+
+    expect(curved.equals(straight)).toBe(true);
+  });
+});
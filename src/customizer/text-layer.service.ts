@@ -0,0 +1,436 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextLayer } from './customization-data';
+import {
+  ShapeDefinition,
+  ShapeRegistryService,
+} from './shape-registry.service';
+import {
+  Point,
+  closestLength,
+  flattenSvgPath,
+  offsetPolygon,
+  pointAtLength,
+  polygonArea,
+  polylineLength,
+} from './svg-path';
+
+export interface TextFont {
+  id: string;
+  name: string;
+  /** Pango font description (family and style) */
+  family: string;
+  file: string;
+}
+
+/** Fonts bundled in assets/fonts (SIL Open Font License, see OFL.txt) */
+const FONTS: TextFont[] = [
+  {
+    id: 'roboto',
+    name: 'Roboto',
+    family: 'Roboto',
+    file: 'Roboto-Regular.ttf',
+  },
+  {
+    id: 'roboto-bold',
+    name: 'Roboto Bold',
+    family: 'Roboto Bold',
+    file: 'Roboto-Bold.ttf',
+  },
+  {
+    id: 'montserrat',
+    name: 'Montserrat',
+    family: 'Montserrat',
+    file: 'Montserrat-Regular.ttf',
+  },
+  {
+    id: 'montserrat-bold',
+    name: 'Montserrat Bold',
+    family: 'Montserrat Bold',
+    file: 'Montserrat-Bold.ttf',
+  },
+  {
+    id: 'playfair',
+    name: 'Playfair Display',
+    family: 'Playfair Display',
+    file: 'PlayfairDisplay-Regular.ttf',
+  },
+  {
+    id: 'playfair-bold',
+    name: 'Playfair Display Bold',
+    family: 'Playfair Display Bold',
+    file: 'PlayfairDisplay-Bold.ttf',
+  },
+  {
+    id: 'great-vibes',
+    name: 'Great Vibes',
+    family: 'Great Vibes',
+    file: 'GreatVibes-Regular.ttf',
+  },
+];
+
+/** A rendered image and where its top-left corner goes on the canvas */
+interface PlacedImage {
+  input: Buffer;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Distance kept between text and the cut line, as a percentage of the output width */
+const SAFE_AREA_MARGIN_PERCENT = 4;
+/** Text alpha above which a pixel counts as ink for the safe-area check */
+const INK_ALPHA_THRESHOLD = 32;
+
+@Injectable()
+export class TextLayerService {
+  private readonly logger = new Logger(TextLayerService.name);
+  private readonly fontsDir =
+    process.env.CUSTOMIZER_FONTS_DIR ||
+    path.join(process.cwd(), 'assets', 'fonts');
+
+  constructor(private readonly shapeRegistry: ShapeRegistryService) {}
+
+  /**
+   * Fonts available to text layers
+   */
+  listFonts(): Array<{ id: string; name: string }> {
+    return FONTS.map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Render all text layers onto a transparent width x height canvas.
+   * With `enforceSafeArea` every layer must stay inside the shape's safe area,
+   * otherwise a BadRequestException names the offending layer.
+   */
+  async renderOverlay(
+    layers: TextLayer[],
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    options: { enforceSafeArea?: boolean } = {},
+  ): Promise<Buffer> {
+    const margin = (width * SAFE_AREA_MARGIN_PERCENT) / 100;
+    const safeArea = options.enforceSafeArea
+      ? await sharp(
+          Buffer.from(
+            this.shapeRegistry.buildSafeAreaSvg(shape, width, height, margin),
+          ),
+        )
+          .extractChannel(0)
+          .raw()
+          .toBuffer()
+      : null;
+
+    const composites: PlacedImage[] = [];
+
+    for (const [index, layer] of layers.entries()) {
+      const font = this.resolveFont(layer.font);
+      const placed = layer.curve
+        ? await this.renderCurvedText(layer, font, shape, width, height, margin)
+        : await this.renderStraightText(layer, font, width, height);
+
+      if (safeArea) {
+        const fits =
+          !placed.some((piece) => this.isOffCanvas(piece, width, height)) &&
+          (await this.fitsSafeArea(
+            await this.flatten(placed, width, height),
+            safeArea,
+          ));
+        if (!fits) {
+          throw new BadRequestException(
+            `Text layer ${index + 1} ("${layer.text}") does not fit inside the ${shape.name} safe area. Use a smaller size, shorter text or move it towards the center.`,
+          );
+        }
+      }
+
+      composites.push(...placed);
+    }
+
+    return this.flatten(composites, width, height);
+  }
+
+  private resolveFont(id: string): TextFont {
+    const font = FONTS.find((f) => f.id === id);
+    if (!font) {
+      throw new BadRequestException(
+        `Unknown font: ${id}. Must be one of: ${FONTS.map((f) => f.id).join(', ')}`,
+      );
+    }
+    return font;
+  }
+
+  /**
+   * Rasterize text with sharp/Pango using the bundled font file
+   */
+  private async renderText(
+    text: string,
+    font: TextFont,
+    sizePx: number,
+    color: string,
+  ): Promise<{ data: Buffer; width: number; height: number }> {
+    const fontfile = path.join(this.fontsDir, font.file);
+    if (!fs.existsSync(fontfile)) {
+      this.logger.error(`Font file missing: ${fontfile}`);
+      throw new BadRequestException(`Font ${font.id} is not available`);
+    }
+
+    const { data, info } = await sharp({
+      text: {
+        text: `<span foreground="${color}">${escapeMarkup(text)}</span>`,
+        font: `${font.family} ${Math.max(1, Math.round(sizePx))}`,
+        fontfile,
+        rgba: true,
+        align: 'centre',
+        // At 72 DPI one point is one pixel, so sizes map directly to the canvas
+        dpi: 72,
+      },
+    })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height };
+  }
+
+  private async renderStraightText(
+    layer: TextLayer,
+    font: TextFont,
+    width: number,
+    height: number,
+  ): Promise<PlacedImage[]> {
+    const text = await this.renderText(
+      layer.text,
+      font,
+      (width * layer.size) / 100,
+      layer.color,
+    );
+
+    return [
+      {
+        input: text.data,
+        left: Math.round((layer.x / 100) * width - text.width / 2),
+        top: Math.round((layer.y / 100) * height - text.height / 2),
+        width: text.width,
+        height: text.height,
+      },
+    ];
+  }
+
+  /**
+   * Bend a straight text strip along the shape outline by placing narrow vertical
+   * slices of it, each rotated to the outline tangent. The outline is pulled inwards
+   * so the strip sits inside the shape, and the walking direction is chosen so the
+   * text reads left to right and stays upright.
+   */
+  private async renderCurvedText(
+    layer: TextLayer,
+    font: TextFont,
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    margin: number,
+  ): Promise<PlacedImage[]> {
+    const strip = await this.renderText(
+      layer.text.replace(/\s*\n\s*/g, ' '),
+      font,
+      (width * layer.size) / 100,
+      layer.color,
+    );
+
+    const inset = margin + strip.height / 2 + 1;
+    let outline = this.outlinePoints(shape, width, height, inset);
+    if (!outline) {
+      return this.renderStraightText(layer, font, width, height);
+    }
+
+    const target = { x: (layer.x / 100) * width, y: (layer.y / 100) * height };
+    let anchor = closestLength(outline, target);
+    if (Math.cos(pointAtLength(outline, anchor).angle) < 0) {
+      outline = [...outline].reverse();
+      anchor = closestLength(outline, target);
+    }
+
+    if (strip.width > polylineLength(outline)) {
+      throw new BadRequestException(
+        `Text layer "${layer.text}" is longer than the ${shape.name} outline`,
+      );
+    }
+
+    const sliceWidth = Math.max(2, Math.round(strip.height / 10));
+    const composites: PlacedImage[] = [];
+
+    for (let left = 0; left < strip.width; left += sliceWidth) {
+      // One extra pixel of overlap hides seams on the outer side of bends
+      const extractWidth = Math.min(sliceWidth + 1, strip.width - left);
+      const { point, angle } = pointAtLength(
+        outline,
+        anchor + left + extractWidth / 2 - strip.width / 2,
+      );
+
+      const { data, info } = await sharp(strip.data)
+        .extract({ left, top: 0, width: extractWidth, height: strip.height })
+        .rotate((angle * 180) / Math.PI, {
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+
+      composites.push({
+        input: data,
+        left: Math.round(point.x - info.width / 2),
+        top: Math.round(point.y - info.height / 2),
+        width: info.width,
+        height: info.height,
+      });
+    }
+
+    return composites;
+  }
+
+  /**
+   * Longest closed outline of the shape in output pixels, pulled `inset` px inside
+   * the edge. Null when the inset swallows the shape.
+   */
+  private outlinePoints(
+    shape: ShapeDefinition,
+    width: number,
+    height: number,
+    inset: number,
+  ): Point[] | null {
+    const [minX, minY, viewBoxWidth, viewBoxHeight] = shape.viewBox
+      .split(/[\s,]+/)
+      .map(Number);
+    // Same mapping as preserveAspectRatio="xMidYMid meet" in the mask SVG
+    const scale = Math.min(width / viewBoxWidth, height / viewBoxHeight);
+    const offsetX = (width - viewBoxWidth * scale) / 2;
+    const offsetY = (height - viewBoxHeight * scale) / 2;
+
+    const subpaths = flattenSvgPath(shape.path, 32);
+    if (subpaths.length === 0) return null;
+
+    const outline = subpaths
+      .map((points) =>
+        points.map((p) => ({
+          x: (p.x - minX) * scale + offsetX,
+          y: (p.y - minY) * scale + offsetY,
+        })),
+      )
+      .reduce((a, b) => (polylineLength(b) > polylineLength(a) ? b : a));
+
+    const inner = offsetPolygon(outline, -inset);
+    // A collapsed outline flips orientation or shrinks to nothing
+    const area = polygonArea(outline);
+    const innerArea = polygonArea(inner);
+    if (Math.sign(innerArea) !== Math.sign(area) || Math.abs(innerArea) < 1) {
+      return null;
+    }
+    // Insetting a convex shape past its middle mirrors it through the center, which
+    // keeps the orientation but turns the edges around. Tight rounded corners turn
+    // around too, so the check goes by edge length rather than edge count.
+    let reversedLength = 0;
+    for (let i = 0; i + 1 < inner.length; i++) {
+      const dx = outline[i + 1].x - outline[i].x;
+      const dy = outline[i + 1].y - outline[i].y;
+      if (
+        dx * (inner[i + 1].x - inner[i].x) +
+          dy * (inner[i + 1].y - inner[i].y) <
+        0
+      ) {
+        reversedLength += Math.hypot(dx, dy);
+      }
+    }
+    if (reversedLength > polylineLength(outline) / 2) {
+      return null;
+    }
+
+    return inner;
+  }
+
+  private isOffCanvas(
+    piece: PlacedImage,
+    width: number,
+    height: number,
+  ): boolean {
+    return (
+      piece.left < 0 ||
+      piece.top < 0 ||
+      piece.left + piece.width > width ||
+      piece.top + piece.height > height
+    );
+  }
+
+  /**
+   * Composite placed pieces onto a transparent canvas. Pieces that do not fit the
+   * canvas are cropped to it first, since sharp rejects oversized overlays.
+   */
+  private async flatten(
+    pieces: PlacedImage[],
+    width: number,
+    height: number,
+  ): Promise<Buffer> {
+    const composites: sharp.OverlayOptions[] = [];
+    for (const piece of pieces) {
+      const left = Math.max(0, piece.left);
+      const top = Math.max(0, piece.top);
+      const right = Math.min(width, piece.left + piece.width);
+      const bottom = Math.min(height, piece.top + piece.height);
+      if (right <= left || bottom <= top) continue;
+
+      composites.push({
+        input: this.isOffCanvas(piece, width, height)
+          ? await sharp(piece.input)
+              .extract({
+                left: left - piece.left,
+                top: top - piece.top,
+                width: right - left,
+                height: bottom - top,
+              })
+              .png()
+              .toBuffer()
+          : piece.input,
+        left,
+        top,
+      });
+    }
+
+    return sharp({
+      create: {
+        width,
+        height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    })
+      .composite(composites)
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * True when no ink of the rendered layer falls outside the safe area
+   */
+  private async fitsSafeArea(
+    layerImage: Buffer,
+    safeArea: Buffer,
+  ): Promise<boolean> {
+    const alpha = await sharp(layerImage).extractChannel(3).raw().toBuffer();
+    for (let i = 0; i < alpha.length; i++) {
+      if (alpha[i] > INK_ALPHA_THRESHOLD && safeArea[i] < 128) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import { applyWatermark, getWatermarkMode } from './watermark';
+
+describe('applyWatermark', () => {
+  // 200x200 image: opaque blue left half, transparent right half
+  const image = () =>
+    sharp({
+      create: {
+        width: 200,
+        height: 200,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    })
+      .composite([
+        {
+          input: {
+            create: {
+              width: 100,
+              height: 200,
+              channels: 4,
+              background: { r: 40, g: 80, b: 160, alpha: 1 },
+            },
+          },
+          left: 0,
+          top: 0,
+        },
+      ])
+      .png()
+      .toBuffer();
+
+  const pixels = async (buffer: Buffer) =>
+    sharp(buffer).ensureAlpha().raw().toBuffer();
+
+  it('returns the image untouched when watermarking is off', async () => {
+    const input = await image();
+    expect(await applyWatermark(input, 'off')).toBe(input);
+  });
+
+  it('tiles the logo over opaque pixels only', async () => {
+    const before = await pixels(await image());
+    const after = await pixels(await applyWatermark(await image(), 'tiled'));
+
+    let changed = 0;
+    for (let y = 0; y < 200; y++) {
+      for (let x = 0; x < 200; x++) {
+        const i = (y * 200 + x) * 4;
+        if (x >= 100) {
+          expect(after[i + 3]).toBe(0);
+        } else if (
+          after[i] !== before[i] ||
+          after[i + 1] !== before[i + 1] ||
+          after[i + 2] !== before[i + 2]
+        ) {
+          changed++;
+        }
+      }
+    }
+    expect(changed).toBeGreaterThan(0);
+  });
+
+  it('places the corner logo in the bottom-right corner', async () => {
+    const after = await pixels(await applyWatermark(await image(), 'corner'));
+
+    const alphaAt = (x: number, y: number) => after[(y * 200 + x) * 4 + 3];
+    let cornerAlpha = 0;
+    for (let y = 140; y < 200; y++) {
+      for (let x = 140; x < 200; x++) {
+        cornerAlpha = Math.max(cornerAlpha, alphaAt(x, y));
+      }
+    }
+    expect(cornerAlpha).toBeGreaterThan(0);
+    expect(alphaAt(190, 10)).toBe(0);
+  });
+});
+
+describe('getWatermarkMode', () => {
+  const saved = process.env.CUSTOMIZER_WATERMARK;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.CUSTOMIZER_WATERMARK;
+    else process.env.CUSTOMIZER_WATERMARK = saved;
+  });
+
+  it('defaults to tiled for unknown values', () => {
+    process.env.CUSTOMIZER_WATERMARK = 'sideways';
+    expect(getWatermarkMode()).toBe('tiled');
+    process.env.CUSTOMIZER_WATERMARK = 'Corner';
+    expect(getWatermarkMode()).toBe('corner');
+  });
+});
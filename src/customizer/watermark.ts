@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+
+/** How storefront previews are marked: a repeated logo, one logo in a corner, or none */
+export type WatermarkMode = 'tiled' | 'corner' | 'off';
+
+const WATERMARK_MODES: WatermarkMode[] = ['tiled', 'corner', 'off'];
+
+/** Logo width as a fraction of the image width, and its opacity, per mode */
+const TILED_LOGO_SCALE = 0.2;
+const TILED_OPACITY = 0.25;
+const CORNER_LOGO_SCALE = 0.22;
+const CORNER_OPACITY = 0.6;
+/** Corner logo distance from the image edges, as a fraction of the image width */
+const CORNER_MARGIN = 0.03;
+/** The logo is keyed and cached at this width, larger than any preview needs */
+const LOGO_WIDTH = 600;
+
+/**
+ * Watermark mode for storefront previews (CUSTOMIZER_WATERMARK, default tiled)
+ */
+export function getWatermarkMode(): WatermarkMode {
+  const mode = (process.env.CUSTOMIZER_WATERMARK || '').trim().toLowerCase();
+  return WATERMARK_MODES.includes(mode as WatermarkMode)
+    ? (mode as WatermarkMode)
+    : 'tiled';
+}
+
+let logoPromise: Promise<Buffer> | null = null;
+
+/**
+ * The Loretana logo from public/ (or CUSTOMIZER_WATERMARK_LOGO) with its white
+ * background keyed out and trimmed, as a PNG
+ */
+function loadLogo(): Promise<Buffer> {
+  if (!logoPromise) {
+    logoPromise = prepareLogo().catch((error: unknown) => {
+      logoPromise = null;
+      throw error;
+    });
+  }
+  return logoPromise;
+}
+
+async function prepareLogo(): Promise<Buffer> {
+  const publicDir = path.join(process.cwd(), 'public');
+  const logoPath =
+    process.env.CUSTOMIZER_WATERMARK_LOGO ||
+    fs
+      .readdirSync(publicDir)
+      .filter((name) => /logo.*\.png$/i.test(name))
+      .map((name) => path.join(publicDir, name))[0];
+  if (!logoPath) {
+    throw new Error(`No watermark logo found in ${publicDir}`);
+  }
+
+  const { data, info } = await sharp(logoPath)
+    .resize({ width: LOGO_WIDTH, withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // White becomes transparent; colors are un-mixed from white so edges stay clean
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha =
+      ((255 - Math.min(data[i], data[i + 1], data[i + 2])) * data[i + 3]) / 255;
+    if (alpha <= 0) {
+      data[i + 3] = 0;
+      continue;
+    }
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round(
+        Math.max(0, 255 - ((255 - data[i + c]) * 255) / alpha),
+      );
+    }
+    data[i + 3] = Math.round(alpha);
+  }
+
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  })
+    .trim({ background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Logo resized to `width` with its alpha scaled by `opacity`
+ */
+async function renderLogo(
+  width: number,
+  opacity: number,
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(await loadLogo())
+    .resize({ width })
+    .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+/**
+ * Mark a storefront preview with the logo. Tiled marks only cover the opaque
+ * part of the image, so the area outside a cut shape stays transparent; the
+ * corner mark sits in the bottom-right corner either way. Returns a PNG.
+ */
+export async function applyWatermark(
+  image: Buffer,
+  mode: WatermarkMode = getWatermarkMode(),
+): Promise<Buffer> {
+  if (mode === 'off') return image;
+
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error('Cannot watermark an image without dimensions');
+  }
+
+  if (mode === 'corner') {
+    const logo = await renderLogo(
+      Math.max(16, Math.round(width * CORNER_LOGO_SCALE)),
+      CORNER_OPACITY,
+    );
+    const margin = Math.round(width * CORNER_MARGIN);
+    return sharp(image)
+      .composite([
+        {
+          input: logo.buffer,
+          left: Math.max(0, width - logo.width - margin),
+          top: Math.max(0, height - logo.height - margin),
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  const logo = await renderLogo(
+    Math.max(16, Math.round(width * TILED_LOGO_SCALE)),
+    TILED_OPACITY,
+  );
+  const stepX = Math.round(logo.width * 1.8);
+  const stepY = Math.round(logo.height * 1.4);
+
+  // Staggered rows, starting half a step outside so the edges are covered too
+  const tiles: sharp.OverlayOptions[] = [];
+  for (let row = 0, top = -Math.round(stepY / 2); top < height; row++) {
+    for (
+      let left = row % 2 === 0 ? -Math.round(stepX / 2) : 0;
+      left < width;
+      left += stepX
+    ) {
+      if (left + logo.width > 0 && top + logo.height > 0) {
+        tiles.push({ input: logo.buffer, left, top });
+      }
+    }
+    top += stepY;
+  }
+
+  const layer = await sharp({
+    create: {
+      width,
+      height,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite(tiles)
+    .png()
+    .toBuffer();
+
+  return sharp(image)
+    .composite([{ input: layer, blend: 'atop' }])
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,45 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import express from 'express';
+import { SupabaseService } from '../supabase/supabase.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly storage: StorageProvider,
+  ) {}
+
+  /**
+   * Readiness probe for load balancers and deploys.
+   * GET /health/ready
+   *
+   * Ready when storage can serve requests and Supabase, if configured, answers.
+   * Responds 503 otherwise, with the failing dependency in `data`.
+   */
+  @Get('ready')
+  async getReadiness(@Res({ passthrough: true }) res: express.Response) {
+    const supabase = await this.supabase.checkReadiness();
+    const localStorage = this.storage instanceof LocalStorageProvider;
+    const storageReady = localStorage || supabase.status === 'ready';
+    const ready = storageReady && supabase.status !== 'unreachable';
+
+    const statusCode = ready ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE;
+    res.status(statusCode);
+
+    return {
+      statusCode,
+      success: ready,
+      data: {
+        ready,
+        supabase,
+        storage: {
+          driver: localStorage ? 'local' : 'supabase',
+          ready: storageReady,
+        },
+      },
+      message: ready ? 'Service is ready' : 'Service is not ready',
+    };
+  }
+}
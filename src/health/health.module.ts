@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [SupabaseModule, StorageModule],
+  controllers: [HealthController],
+})
+export class HealthModule {}
@@ -9,13 +9,17 @@ import {
   HttpStatus,
   Logger,
 } from '@nestjs/common';
-import { ProductUploadsService } from './product-uploads.service';
+import { ProductUploadsService, UploadRecord } from './product-uploads.service';
+import { AssetUrlService } from '../storage/asset-url.service';
 
 @Controller('uploads')
 export class ProductUploadsController {
   private logger = new Logger(ProductUploadsController.name);
 
-  constructor(private readonly uploadsService: ProductUploadsService) {}
+  constructor(
+    private readonly uploadsService: ProductUploadsService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
 
   /**
    * Create an upload record with a short code
@@ -91,7 +95,7 @@ export class ProductUploadsController {
 
       return {
         success: true,
-        data: uploadRecord,
+        data: await this.withAssetUrls(uploadRecord),
       };
     } catch (error) {
       const errorMessage =
@@ -127,7 +131,9 @@ export class ProductUploadsController {
       return {
         success: true,
         count: uploadRecords.length,
-        data: uploadRecords,
+        data: await Promise.all(
+          uploadRecords.map((record) => this.withAssetUrls(record)),
+        ),
       };
     } catch (error) {
       const errorMessage =
@@ -224,4 +230,21 @@ export class ProductUploadsController {
       throw new HttpException(errorMessage, HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  /**
+   * Swap the stored image URLs of a record for ones the storefront can load
+   * (signed in private-assets mode)
+   */
+  private async withAssetUrls(record: UploadRecord): Promise<UploadRecord> {
+    return {
+      ...record,
+      imageUrl: await this.assetUrls.fromPublicUrl(record.imageUrl),
+      originalImageUrl:
+        record.originalImageUrl &&
+        (await this.assetUrls.fromPublicUrl(record.originalImageUrl)),
+      shapedImageUrl:
+        record.shapedImageUrl &&
+        (await this.assetUrls.fromPublicUrl(record.shapedImageUrl)),
+    };
+  }
 }
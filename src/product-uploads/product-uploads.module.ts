@@ -4,9 +4,11 @@ import { ProductsController } from './products.controller';
 import { ProductUploadsService } from './product-uploads.service';
 import { QrModule } from '../qr/qr.module';
 import { ShopifyModule } from '../shopify/shopify.module';
+import { StorageModule } from '../storage/storage.module';
+import { SupabaseModule } from '../supabase/supabase.module';
 
 @Module({
-  imports: [QrModule, ShopifyModule],
+  imports: [QrModule, ShopifyModule, StorageModule, SupabaseModule],
   controllers: [ProductUploadsController, ProductsController],
   providers: [ProductUploadsService],
   exports: [ProductUploadsService],
@@ -1,5 +1,5 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../supabase/supabase.service';
 
 export interface UploadRecord {
   id: string;
@@ -16,29 +16,23 @@ export interface UploadRecord {
   expiresAt?: string;
 }
 
+/**
+ * Storage paths a product code can own: its image, stored as PNG or JPEG depending
+ * on how the upload normalized, and its QR code
+ */
+export function getProductFilePaths(code: string): string[] {
+  return [
+    `products/${code}/${code}.png`,
+    `products/${code}/${code}.jpg`,
+    `products/${code}/qr_code.png`,
+  ];
+}
+
 @Injectable()
 export class ProductUploadsService {
   private logger = new Logger(ProductUploadsService.name);
-  private supabase: SupabaseClient | null = null;
-
-  constructor() {
-    this.initializeSupabase();
-  }
-
-  private initializeSupabase() {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      this.logger.warn(
-        'Supabase credentials not configured. Product uploads will be disabled.',
-      );
-      return;
-    }
-
-    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-    this.logger.log('Supabase initialized for product uploads');
-  }
+  constructor(private readonly supabase: SupabaseService) {}
 
   /**
    * Generate a short unique code (6-8 alphanumeric characters)
@@ -65,11 +59,7 @@ export class ProductUploadsService {
     code?: string,
     isUpdate: boolean = false,
   ): Promise<{ uploadId: string; qrUrl: string }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Cannot create or update upload record.',
-      );
-    }
+    const supabase = this.supabase.getClient();
 
     if (!imageUrl || typeof imageUrl !== 'string') {
       throw new BadRequestException(
@@ -87,7 +77,7 @@ export class ProductUploadsService {
 
       if (isUpdate && sessionId) {
         // First, fetch the existing record to get its ID
-        const { data: existingRecord, error: fetchError } = await this.supabase
+        const { data: existingRecord, error: fetchError } = await supabase
           .from('uploads')
           .select('id')
           .eq('code', finalCode)
@@ -102,7 +92,7 @@ export class ProductUploadsService {
         uploadId = existingRecord.id;
 
         // Now update the record
-        const { error: updateError } = await this.supabase
+        const { error: updateError } = await supabase
           .from('uploads')
           .update({
             image_url: imageUrl,
@@ -123,7 +113,7 @@ export class ProductUploadsService {
         );
       } else {
         // Create new record
-        const { data: insertData, error: insertError } = await this.supabase
+        const { data: insertData, error: insertError } = await supabase
           .from('uploads')
           .insert({
             code: finalCode,
@@ -178,11 +168,7 @@ export class ProductUploadsService {
     metadata?: Record<string, any>,
     code?: string,
   ): Promise<{ code: string; uploadId: string; qrUrl: string }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Cannot create upload record.',
-      );
-    }
+    const supabase = this.supabase.getClient();
 
     if (!imageUrl || typeof imageUrl !== 'string') {
       throw new BadRequestException(
@@ -198,7 +184,7 @@ export class ProductUploadsService {
       // Ensure code is unique (skip if code was provided as it's pre-validated)
       if (!code) {
         while (attempts < maxAttempts) {
-          const { data: existingRecord } = await this.supabase
+          const { data: existingRecord } = await supabase
             .from('uploads')
             .select('code')
             .eq('code', finalCode)
@@ -218,7 +204,7 @@ export class ProductUploadsService {
       }
 
       // Insert the upload record
-      const { data: uploadRecord, error: insertError } = await this.supabase
+      const { data: uploadRecord, error: insertError } = await supabase
         .from('uploads')
         .insert({
           code: finalCode,
@@ -265,16 +251,14 @@ export class ProductUploadsService {
    * Get upload record by short code
    */
   async getUploadByCode(code: string): Promise<UploadRecord | null> {
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase service is not configured.');
-    }
+    const supabase = this.supabase.getClient();
 
     if (!code || typeof code !== 'string') {
       throw new BadRequestException('Code is required and must be a string');
     }
 
     try {
-      const { data: uploadRecord, error: queryError } = await this.supabase
+      const { data: uploadRecord, error: queryError } = await supabase
         .from('uploads')
         .select('*')
         .eq('code', code.toUpperCase())
@@ -323,9 +307,7 @@ export class ProductUploadsService {
     originalImageUrl?: string,
     shapedImageUrl?: string,
   ): Promise<void> {
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase service is not configured.');
-    }
+    const supabase = this.supabase.getClient();
 
     try {
       const updateData: Record<string, any> = {};
@@ -336,7 +318,7 @@ export class ProductUploadsService {
         return;
       }
 
-      const { error: updateError } = await this.supabase
+      const { error: updateError } = await supabase
         .from('uploads')
         .update(updateData)
         .eq('code', code.toUpperCase());
@@ -365,16 +347,14 @@ export class ProductUploadsService {
    * Get all uploads for a session
    */
   async getUploadsBySession(sessionId: string): Promise<UploadRecord[]> {
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase service is not configured.');
-    }
+    const supabase = this.supabase.getClient();
 
     if (!sessionId || typeof sessionId !== 'string') {
       throw new BadRequestException('Session ID is required');
     }
 
     try {
-      const { data: uploadRecords, error: queryError } = await this.supabase
+      const { data: uploadRecords, error: queryError } = await supabase
         .from('uploads')
         .select('*')
         .eq('session_id', sessionId)
@@ -416,12 +396,10 @@ export class ProductUploadsService {
    * Delete an upload record
    */
   async deleteUpload(code: string): Promise<void> {
-    if (!this.supabase) {
-      throw new BadRequestException('Supabase service is not configured.');
-    }
+    const supabase = this.supabase.getClient();
 
     try {
-      const { error: deleteError } = await this.supabase
+      const { error: deleteError } = await supabase
         .from('uploads')
         .delete()
         .eq('code', code.toUpperCase());
@@ -13,35 +13,29 @@ import {
   Res,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ProductUploadsService } from './product-uploads.service';
+import {
+  ProductUploadsService,
+  getProductFilePaths,
+} from './product-uploads.service';
 import { QrService } from '../qr/qr.service';
 import { ShopifyService } from '../shopify/shopify.service';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { normalizeImage } from '../customizer/image-normalizer';
+import { SupabaseService } from '../supabase/supabase.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService, contentVersion } from '../storage/asset-url.service';
 
 @Controller('products')
 export class ProductsController {
   private logger = new Logger(ProductsController.name);
-  private supabase: SupabaseClient | null = null;
 
   constructor(
     private readonly uploadsService: ProductUploadsService,
     private readonly qrService: QrService,
     private readonly shopifyService: ShopifyService,
-  ) {
-    this.initializeSupabase();
-  }
-
-  private initializeSupabase() {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      this.logger.warn('Supabase credentials not configured');
-      return;
-    }
-
-    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-  }
+    private readonly storage: StorageProvider,
+    private readonly supabase: SupabaseService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
 
   /**
    * Upload original image file (no customization, no scaling)
@@ -61,20 +55,10 @@ export class ProductsController {
         throw new HttpException('File is required', HttpStatus.BAD_REQUEST);
       }
 
-      const allowedMimes = ['image/png', 'image/jpeg', 'image/jpg'];
-      if (!allowedMimes.includes(file.mimetype)) {
-        throw new HttpException(
-          'Only PNG and JPG files are allowed',
-          HttpStatus.BAD_REQUEST,
-        );
-      }
+      // Accepts PNG, JPG, WebP, AVIF and HEIC; stored as PNG/JPEG without EXIF/GPS data
+      const image = await normalizeImage(file);
 
-      if (!this.supabase) {
-        throw new HttpException(
-          'Supabase service is not configured',
-          HttpStatus.INTERNAL_SERVER_ERROR,
-        );
-      }
+      const supabase = this.supabase.getClient();
 
       // Step 0: Check if sessionId already exists in database
       let isNewSession = true;
@@ -94,9 +78,7 @@ export class ProductsController {
           
           // Remove old QR code from storage if exists
           const qrFilePath = `products/${existingSessionCode}/qr_code.png`;
-          await this.supabase.storage
-            .from('customizer-uploads')
-            .remove([qrFilePath]);
+          await this.storage.remove('customizer-uploads', [qrFilePath]);
         } else {
           sessionUpdateReason = `New session "${sessionId}" created`;
         }
@@ -115,7 +97,7 @@ export class ProductsController {
         const maxAttempts = 10;
 
         while (attempts < maxAttempts) {
-          const { data: existingRecord } = await this.supabase
+          const { data: existingRecord } = await supabase
             .from('uploads')
             .select('code')
             .eq('code', shortCode)
@@ -138,23 +120,22 @@ export class ProductsController {
       }
 
       // Step 2: Upload original image file (no customization or scaling)
-      const fileExtension =
-        file.originalname.endsWith('.jpg') ||
-        file.originalname.endsWith('.jpeg')
-          ? 'jpg'
-          : 'png';
-      const fileName = `${shortCode}.${fileExtension}`;
+      const fileName = `${shortCode}.${image.extension}`;
       const filePath = `products/${shortCode}/${fileName}`;
 
       this.logger.log(`Uploading original file for product code: ${shortCode}`);
 
-      const { error: uploadError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .upload(filePath, file.buffer, {
-          contentType: file.mimetype,
+      const { error: uploadError } = await this.storage.upload(
+        'customizer-uploads',
+        filePath,
+        image.buffer,
+        {
+          contentType: image.mimetype,
           cacheControl: '3600',
           upsert: true,
-        });
+          metadata: { sourceMimetype: image.sourceMimetype },
+        },
+      );
 
       if (uploadError) {
         throw new HttpException(
@@ -163,12 +144,19 @@ export class ProductsController {
         );
       }
 
-      // Step 3: Get public URL
-      const { data: urlData } = this.supabase.storage
-        .from('customizer-uploads')
-        .getPublicUrl(filePath);
+      if (existingSessionCode) {
+        // A re-upload in the other format would leave the previous image behind
+        const stalePaths = getProductFilePaths(shortCode).filter(
+          (path) => path !== filePath && !path.endsWith('/qr_code.png'),
+        );
+        await this.storage.remove('customizer-uploads', stalePaths);
+      }
 
-      const imageUrl = urlData?.publicUrl || '';
+      // Step 3: Get public URL, versioned by content as it is replaced in place
+      const imageUrl = this.assetUrls.publicUrl(
+        filePath,
+        contentVersion(image.buffer),
+      );
 
       if (!imageUrl) {
         throw new HttpException(
@@ -212,7 +200,7 @@ export class ProductsController {
           ? 'Product image uploaded and processed successfully'
           : 'Product image updated for existing session',
         code: shortCode,
-        imageUrl: imageUrl,
+        imageUrl: await this.assetUrls.fromPublicUrl(imageUrl),
         productUrl: productUrl,
         qrUrl: qrResult.qrUrl,
         qrFileId: qrResult.qrFileId,
@@ -260,7 +248,7 @@ export class ProductsController {
       return {
         success: true,
         code: uploadRecord.code,
-        imageUrl: uploadRecord.imageUrl,
+        imageUrl: await this.assetUrls.fromPublicUrl(uploadRecord.imageUrl),
         productName: uploadRecord.productName,
         productId: uploadRecord.productId,
         metadata: uploadRecord.metadata,
@@ -295,13 +283,6 @@ export class ProductsController {
         );
       }
 
-      if (!this.supabase) {
-        throw new HttpException(
-          'Supabase service is not configured',
-          HttpStatus.INTERNAL_SERVER_ERROR,
-        );
-      }
-
       const uploadRecords = await this.uploadsService.getUploadsBySession(sessionId);
 
       if (!uploadRecords || uploadRecords.length === 0) {
@@ -312,10 +293,11 @@ export class ProductsController {
       const uploadRecord = uploadRecords[0];
       const filePath = `customizer/${sessionId}/qr_code.png`;
 
-      // Download QR code image bytes from Supabase Storage
-      const { data, error } = await this.supabase.storage
-        .from('customizer-uploads')
-        .download(filePath);
+      // Download QR code image bytes from storage
+      const { data, error } = await this.storage.download(
+        'customizer-uploads',
+        filePath,
+      );
 
       if (error || !data) {
         throw new HttpException(
@@ -328,7 +310,7 @@ export class ProductsController {
       res.setHeader('Content-Type', 'image/png');
       res.setHeader('Content-Disposition', `inline; filename="qr_code_${uploadRecord.code}.png"`);
       res.setHeader('Cache-Control', 'public, max-age=3600');
-      res.send(Buffer.from(await data.arrayBuffer()));
+      res.send(data);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Failed to retrieve QR code';
@@ -355,23 +337,14 @@ export class ProductsController {
         );
       }
 
-      if (!this.supabase) {
-        throw new HttpException(
-          'Supabase service is not configured',
-          HttpStatus.INTERNAL_SERVER_ERROR,
-        );
-      }
-
       // Delete from database
       await this.uploadsService.deleteUpload(code);
 
       // Delete image files from storage
-      const { error: deleteError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .remove([
-          `products/${code}/${code}.png`,
-          `products/${code}/qr_code.png`,
-        ]);
+      const { error: deleteError } = await this.storage.remove(
+        'customizer-uploads',
+        getProductFilePaths(code),
+      );
 
       if (deleteError) {
         this.logger.warn(
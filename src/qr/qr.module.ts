@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { QrController } from './qr.controller';
 import { QrService } from './qr.service';
 import { ShopifyModule } from '../shopify/shopify.module';
+import { StorageModule } from '../storage/storage.module';
+import { SessionsModule } from '../sessions/sessions.module';
 
 @Module({
-  imports: [ShopifyModule],
+  imports: [ShopifyModule, StorageModule, SessionsModule],
   controllers: [QrController],
   providers: [QrService],
   exports: [QrService],
@@ -1,6 +1,8 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import * as QRCode from 'qrcode';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { StorageProvider } from '../storage/storage.provider';
+import { AssetUrlService, contentVersion } from '../storage/asset-url.service';
+import { SessionsService } from '../sessions/sessions.service';
 
 interface QrOptions {
   width?: number;
@@ -10,30 +12,16 @@ interface QrOptions {
 @Injectable()
 export class QrService {
   private logger = new Logger(QrService.name);
-  private supabase: SupabaseClient | null = null;
   private readonly defaultOptions: QrOptions = {
     width: 400,
     errorCorrectionLevel: 'H',
   };
 
-  constructor() {
-    this.initializeSupabase();
-  }
-
-  private initializeSupabase() {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      this.logger.warn(
-        'Supabase credentials not configured. QR code storage will be disabled.',
-      );
-      return;
-    }
-
-    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-    this.logger.log('Supabase Storage initialized successfully');
-  }
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly sessions: SessionsService,
+    private readonly assetUrls: AssetUrlService,
+  ) {}
 
   async toBuffer(url: string, options?: QrOptions): Promise<Buffer> {
     try {
@@ -69,11 +57,7 @@ export class QrService {
     sessionId: string,
     options?: QrOptions,
   ): Promise<{ qrUrl: string; qrFileId: string }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Cannot save QR code.',
-      );
-    }
+    this.storage.assertAvailable();
 
     if (!sessionId || sessionId.trim() === '') {
       throw new BadRequestException('Session ID is required');
@@ -95,14 +79,17 @@ export class QrService {
         `Uploading QR code for session: ${sessionId}, URL: ${url}`,
       );
 
-      // Upload QR code to Supabase
-      const { error: uploadError } = await this.supabase.storage
-        .from('customizer-uploads')
-        .upload(qrFilePath, qrBuffer, {
+      // Upload QR code to storage
+      const { error: uploadError } = await this.storage.upload(
+        'customizer-uploads',
+        qrFilePath,
+        qrBuffer,
+        {
           contentType: 'image/png',
           cacheControl: '3600',
           upsert: true,
-        });
+        },
+      );
 
       if (uploadError) {
         throw new BadRequestException(
@@ -110,17 +97,19 @@ export class QrService {
         );
       }
 
-      // Get public URL
-      const { data: qrUrlData } = this.supabase.storage
-        .from('customizer-uploads')
-        .getPublicUrl(qrFilePath);
+      await this.sessions.record(sessionId, null, [qrFileName]);
+
+      const qrUrl = await this.assetUrls.url(
+        qrFilePath,
+        contentVersion(qrBuffer),
+      );
 
       this.logger.log(
         `Successfully uploaded QR code for session: ${sessionId}`,
       );
 
       return {
-        qrUrl: qrUrlData?.publicUrl || '',
+        qrUrl,
         qrFileId: qrFilePath,
       };
     } catch (error) {
@@ -143,11 +132,7 @@ export class QrService {
   async getQrCodeBySession(
     sessionId: string,
   ): Promise<{ buffer: Buffer; path: string }> {
-    if (!this.supabase) {
-      throw new BadRequestException(
-        'Supabase service is not configured. Cannot retrieve QR code.',
-      );
-    }
+    this.storage.assertAvailable();
 
     if (!sessionId || sessionId.trim() === '') {
       throw new BadRequestException('Session ID is required');
@@ -160,10 +145,11 @@ export class QrService {
 
       this.logger.log(`Retrieving QR code for session: ${sessionId}`);
 
-      // Download QR code from Supabase
-      const { data, error } = await this.supabase.storage
-        .from('customizer-uploads')
-        .download(qrFilePath);
+      // Download QR code from storage
+      const { data, error } = await this.storage.download(
+        'customizer-uploads',
+        qrFilePath,
+      );
 
       if (error || !data) {
         throw new BadRequestException(
@@ -171,12 +157,11 @@ export class QrService {
         );
       }
 
-      const buffer = await data.arrayBuffer();
       this.logger.log(
         `Successfully retrieved QR code for session: ${sessionId}`,
       );
 
-      return { buffer: Buffer.from(buffer), path: qrFilePath };
+      return { buffer: data, path: qrFilePath };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Failed to retrieve QR code';
@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { isSessionFolder, listSessionFolders } from './session-folders';
+
+describe('session folders', () => {
+  it('matches the bare session folder and its product folders only', () => {
+    expect(isSessionFolder('s1', 's1')).toBe(true);
+    expect(isSessionFolder('s1-prod', 's1')).toBe(true);
+    expect(isSessionFolder('s10-prod', 's1')).toBe(false);
+  });
+
+  it('lists the folders of one session', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    try {
+      const storage = new LocalStorageProvider();
+      for (const folder of ['s1', 's1-p1', 's10-p1', 's2-p1']) {
+        await storage.upload(
+          'customizer-uploads',
+          `customizer/${folder}/original.png`,
+          Buffer.from('a'),
+        );
+      }
+
+      const { data } = await listSessionFolders(
+        storage,
+        'customizer-uploads',
+        's1',
+      );
+      expect(data?.map((e) => e.name)).toEqual(['s1', 's1-p1']);
+    } finally {
+      delete process.env.STORAGE_LOCAL_DIR;
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  StorageEntry,
+  StorageProvider,
+  StorageResult,
+} from '../storage/storage.provider';
+
+/** Folder holding one design folder per session, in both customizer buckets */
+export const SESSIONS_ROOT = 'customizer';
+
+/**
+ * True for the folders of a session: `<sessionId>` and `<sessionId>-<productId>`
+ */
+export function isSessionFolder(name: string, sessionId: string): boolean {
+  return name === sessionId || name.startsWith(`${sessionId}-`);
+}
+
+/**
+ * Design folders of a session under `customizer/`. Asks storage for names starting
+ * with the session id instead of listing every session, then drops longer ids
+ * sharing the prefix (`abc` must not match `abcd-...`).
+ */
+export async function listSessionFolders(
+  storage: StorageProvider,
+  bucket: string,
+  sessionId: string,
+): Promise<StorageResult<StorageEntry[]>> {
+  const { data: entries, error } = await storage.listAll(
+    bucket,
+    SESSIONS_ROOT,
+    { search: sessionId },
+  );
+  if (error) return { data: null, error };
+
+  return {
+    data: entries.filter((entry) => isSessionFolder(entry.name, sessionId)),
+    error: null,
+  };
+}
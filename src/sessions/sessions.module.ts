@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [SupabaseModule, StorageModule],
+  providers: [SessionsService],
+  exports: [SessionsService],
+})
+export class SessionsModule {}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SessionsService, getSessionPrefix } from './sessions.service';
+
+describe('SessionsService', () => {
+  it('builds session and session-product prefixes', () => {
+    expect(getSessionPrefix('a-b')).toBe('customizer/a-b');
+    expect(getSessionPrefix('a-b', '42')).toBe('customizer/a-b-42');
+  });
+
+  it('re-records a folder the backfill set aside for review', async () => {
+    const upsert = jest.fn(() => Promise.resolve({ error: null }));
+    const client = {
+      from: () => ({
+        select: () => ({
+          eq: () => ({
+            maybeSingle: () =>
+              Promise.resolve({
+                data: { files: ['original.png'], status: 'review' },
+                error: null,
+              }),
+          }),
+        }),
+        upsert,
+      }),
+    };
+    const sessions = new SessionsService(
+      { client } as unknown as SupabaseService,
+      {} as LocalStorageProvider,
+    );
+
+    await sessions.record('a-b', '42', ['heart_1.png']);
+
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        session_id: 'a-b',
+        product_id: '42',
+        storage_prefix: 'customizer/a-b-42',
+        files: ['heart_1.png', 'original.png'],
+        status: 'active',
+      }),
+      { onConflict: 'storage_prefix' },
+    );
+  });
+
+  it('falls back to storage folders without Supabase', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    try {
+      const storage = new LocalStorageProvider();
+      for (const folder of ['a-b', 'a-b-42', 'a-b-77', 'a-bc-42']) {
+        await storage.upload(
+          'customizer-uploads',
+          `customizer/${folder}/original.png`,
+          Buffer.from('a'),
+        );
+      }
+      const sessions = new SessionsService(
+        { client: null } as SupabaseService,
+        storage,
+      );
+
+      expect(
+        (await sessions.find('a-b')).map((s) => [s.storagePrefix, s.productId]),
+      ).toEqual([
+        ['customizer/a-b', null],
+        ['customizer/a-b-42', '42'],
+        ['customizer/a-b-77', '77'],
+      ]);
+      expect(
+        (await sessions.find('a-b', '42')).map((s) => s.storagePrefix),
+      ).toEqual(['customizer/a-b', 'customizer/a-b-42']);
+
+      // Writes are skipped; cleanup cannot run without the table
+      await expect(sessions.record('a-b', '42', ['x.png'])).resolves.toBe(
+        undefined,
+      );
+      await expect(sessions.listActive()).rejects.toThrow();
+    } finally {
+      delete process.env.STORAGE_LOCAL_DIR;
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { StorageProvider } from '../storage/storage.provider';
+import { SESSIONS_ROOT, listSessionFolders } from './session-folders';
+
+/**
+ * `review` marks folders the backfill could not attribute to a session and product;
+ * lookups and cleanup skip them until staff fix the row or an upload records it again
+ */
+export type SessionStatus = 'active' | 'deleted' | 'review';
+
+/**
+ * A design folder of a customer session: `customizer/<sessionId>` for session
+ * uploads and QR codes, `customizer/<sessionId>-<productId>` for customized products.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  /** Null for the bare session folder */
+  productId: string | null;
+  /** Folder in the customizer buckets, e.g. `customizer/abc-123` */
+  storagePrefix: string;
+  /** Current files, relative to the prefix (slot designs as `slots/<slot>/<file>`) */
+  files: string[];
+  status: SessionStatus;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+/** Row of the customizer_sessions table */
+interface SessionRow {
+  session_id: string;
+  product_id: string | null;
+  storage_prefix: string;
+  files: unknown;
+  status: SessionStatus;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+const TABLE = 'customizer_sessions';
+const BUCKET = 'customizer-uploads';
+const PAGE_SIZE = 1000;
+
+/**
+ * Folder of a session, or of one of its products
+ */
+export function getSessionPrefix(
+  sessionId: string,
+  productId?: string | null,
+): string {
+  return productId
+    ? `${SESSIONS_ROOT}/${sessionId}-${productId}`
+    : `${SESSIONS_ROOT}/${sessionId}`;
+}
+
+/**
+ * Registry of session folders in `customizer_sessions`, written by every upload
+ * path so lookups and cleanup know the session and product of a folder without
+ * parsing its name (session ids may contain hyphens).
+ *
+ * Without Supabase, lookups fall back to a prefix search of the storage folders
+ * and writes are skipped; cleanup needs the table and fails with 503.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly storage: StorageProvider,
+  ) {}
+
+  /**
+   * Record files written to a session folder and mark it active. Files are added to
+   * the recorded list, or replace it with `replace`. Failures are logged, not thrown:
+   * the files are already stored when this runs.
+   */
+  async record(
+    sessionId: string,
+    productId: string | null,
+    files: string[],
+    options: { replace?: boolean } = {},
+  ): Promise<void> {
+    const supabase = this.supabase.client;
+    if (!supabase) return;
+
+    const storagePrefix = getSessionPrefix(sessionId, productId);
+    try {
+      let recorded = files;
+      if (!options.replace) {
+        const { data, error } = await supabase
+          .from(TABLE)
+          .select('files, status')
+          .eq('storage_prefix', storagePrefix)
+          .maybeSingle();
+        if (error) throw new Error(error.message);
+
+        const row = data as Pick<SessionRow, 'files' | 'status'> | null;
+        // Files of a folder set aside for review are still in storage
+        if (row && row.status !== 'deleted') {
+          recorded = [...parseFiles(row.files), ...files];
+        }
+      }
+
+      const { error } = await supabase.from(TABLE).upsert(
+        {
+          session_id: sessionId,
+          product_id: productId,
+          storage_prefix: storagePrefix,
+          files: [...new Set(recorded)].sort(),
+          status: 'active',
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'storage_prefix' },
+      );
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record session ${storagePrefix}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Active folders of a session, optionally narrowed to one product (its folder and
+   * the bare session folder)
+   */
+  async find(sessionId: string, productId?: string): Promise<SessionRecord[]> {
+    const supabase = this.supabase.client;
+    let records: SessionRecord[];
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('status', 'active')
+        .order('storage_prefix', { ascending: true });
+      if (error) {
+        throw new Error(
+          `Failed to look up session ${sessionId}: ${error.message}`,
+        );
+      }
+      records = ((data || []) as SessionRow[]).map((row) => this.fromRow(row));
+    } else {
+      const { data: folders, error } = await listSessionFolders(
+        this.storage,
+        BUCKET,
+        sessionId,
+      );
+      if (error) {
+        throw new Error(`Failed to list session folders: ${error.message}`);
+      }
+      records = folders.map((folder) => ({
+        sessionId,
+        productId:
+          folder.name === sessionId
+            ? null
+            : folder.name.substring(sessionId.length + 1),
+        storagePrefix: `${SESSIONS_ROOT}/${folder.name}`,
+        files: [],
+        status: 'active',
+        createdAt: null,
+        updatedAt: null,
+      }));
+    }
+
+    return productId
+      ? records.filter(
+          (record) =>
+            record.productId === productId || record.productId === null,
+        )
+      : records;
+  }
+
+  /**
+   * Every active session folder, oldest first. Requires Supabase.
+   */
+  async listActive(): Promise<SessionRecord[]> {
+    const supabase = this.supabase.getClient();
+    const records: SessionRecord[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('status', 'active')
+        .order('created_at', { ascending: true })
+        .order('storage_prefix', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) {
+        throw new Error(`Failed to list sessions: ${error.message}`);
+      }
+
+      const rows = (data || []) as SessionRow[];
+      records.push(...rows.map((row) => this.fromRow(row)));
+      if (rows.length < PAGE_SIZE) return records;
+    }
+  }
+
+  /**
+   * Mark a session folder deleted once its files are removed. Failures are logged.
+   */
+  async markDeleted(storagePrefix: string): Promise<void> {
+    const supabase = this.supabase.client;
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from(TABLE)
+      .update({
+        files: [],
+        status: 'deleted',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('storage_prefix', storagePrefix);
+    if (error) {
+      this.logger.error(
+        `Failed to mark session ${storagePrefix} deleted: ${error.message}`,
+      );
+    }
+  }
+
+  private fromRow(row: SessionRow): SessionRecord {
+    return {
+      sessionId: row.session_id,
+      productId: row.product_id,
+      storagePrefix: row.storage_prefix,
+      files: parseFiles(row.files),
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+function parseFiles(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((file): file is string => typeof file === 'string')
+    : [];
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from './local-storage.provider';
+import {
+  ASSETS_BUCKET,
+  AssetUrlService,
+  contentVersion,
+  isPublicBucket,
+} from './asset-url.service';
+
+describe('AssetUrlService', () => {
+  const file = 'customizer/s1-p1/original.png';
+  let root: string;
+  let storage: LocalStorageProvider;
+  let assetUrls: AssetUrlService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'assets-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    process.env.STORAGE_LOCAL_PUBLIC_URL = 'http://files.test';
+    storage = new LocalStorageProvider();
+    assetUrls = new AssetUrlService(storage);
+    await storage.upload(ASSETS_BUCKET, file, Buffer.from('photo'));
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    delete process.env.STORAGE_LOCAL_PUBLIC_URL;
+    delete process.env.CUSTOMIZER_PRIVATE_ASSETS;
+    delete process.env.CUSTOMIZER_ASSET_URL_TTL;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('versions URLs by content', () => {
+    expect(contentVersion(Buffer.from('photo'))).toBe(
+      contentVersion(Buffer.from('photo')),
+    );
+    expect(contentVersion(Buffer.from('photo'))).not.toBe(
+      contentVersion(Buffer.from('other')),
+    );
+    expect(contentVersion(Buffer.from('photo'))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('hands out permanent public URLs by default', async () => {
+    const version = contentVersion(Buffer.from('photo'));
+
+    expect(isPublicBucket(ASSETS_BUCKET)).toBe(true);
+    expect(await assetUrls.url(file, version)).toBe(
+      `http://files.test/storage/customizer-uploads/${file}?v=${version}`,
+    );
+    expect(assetUrls.expiresIn()).toBeNull();
+
+    const stored = assetUrls.publicUrl(file, version);
+    expect(await assetUrls.fromPublicUrl(stored)).toBe(stored);
+  });
+
+  it('signs URLs that expire in private-assets mode', async () => {
+    process.env.CUSTOMIZER_PRIVATE_ASSETS = 'true';
+    process.env.CUSTOMIZER_ASSET_URL_TTL = '600';
+    const version = contentVersion(Buffer.from('photo'));
+
+    expect(isPublicBucket(ASSETS_BUCKET)).toBe(false);
+    expect(assetUrls.expiresIn()).toBe(600);
+
+    const url = new URL(await assetUrls.url(file, version));
+    const expires = url.searchParams.get('expires')!;
+    expect(url.searchParams.get('v')).toBe(version);
+    expect(Number(expires) - Date.now() / 1000).toBeGreaterThan(590);
+    expect(
+      storage.verifySignature(
+        ASSETS_BUCKET,
+        file,
+        expires,
+        url.searchParams.get('token')!,
+      ),
+    ).toBe(true);
+
+    // Stored public URLs are re-signed, keeping their version
+    const renewed = new URL(
+      await assetUrls.fromPublicUrl(assetUrls.publicUrl(file, version)),
+    );
+    expect(renewed.pathname).toBe(url.pathname);
+    expect(renewed.searchParams.get('token')).toBeTruthy();
+    expect(renewed.searchParams.get('v')).toBe(version);
+
+    // Missing files cannot be signed
+    expect(await assetUrls.url('customizer/s1-p1/missing.png')).toBe('');
+  });
+});
@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { StorageProvider } from './storage.provider';
+
+/** Bucket of customer uploads, renders, QR codes and catalog assets */
+export const ASSETS_BUCKET = 'customizer-uploads';
+
+/**
+ * Private-bucket mode (CUSTOMIZER_PRIVATE_ASSETS=true): the assets bucket is not
+ * public and every URL handed out is a signed one that expires.
+ */
+export function isPrivateAssetsMode(): boolean {
+  return process.env.CUSTOMIZER_PRIVATE_ASSETS === 'true';
+}
+
+/**
+ * True for buckets whose files are readable without a signed URL
+ */
+export function isPublicBucket(bucket: string): boolean {
+  return bucket === ASSETS_BUCKET && !isPrivateAssetsMode();
+}
+
+/**
+ * Lifetime in seconds of signed asset URLs in private mode
+ * (CUSTOMIZER_ASSET_URL_TTL, default 1 hour)
+ */
+export function getAssetUrlTtl(): number {
+  const ttl = parseInt(process.env.CUSTOMIZER_ASSET_URL_TTL ?? '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 3600;
+}
+
+/**
+ * Version of a file's content, appended to its URL as `v` so a file replaced under
+ * the same name gets a new URL while an unchanged one stays cacheable
+ */
+export function contentVersion(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex').substring(0, 16);
+}
+
+/**
+ * URLs of files in the assets bucket: public ones, or signed ones valid for
+ * getAssetUrlTtl() seconds in private mode.
+ */
+@Injectable()
+export class AssetUrlService {
+  private readonly logger = new Logger(AssetUrlService.name);
+
+  constructor(private readonly storage: StorageProvider) {}
+
+  /**
+   * URL of an asset, with `version` (see contentVersion) when given.
+   * Empty when a signed URL cannot be created; the failure is logged.
+   */
+  async url(path: string, version?: string): Promise<string> {
+    if (!isPrivateAssetsMode()) {
+      return this.publicUrl(path, version);
+    }
+
+    const { data, error } = await this.storage.signedUrl(
+      ASSETS_BUCKET,
+      path,
+      getAssetUrlTtl(),
+    );
+    if (error) {
+      this.logger.warn(`Failed to sign ${path}: ${error.message}`);
+      return '';
+    }
+    return withVersion(data, version);
+  }
+
+  /**
+   * Unsigned URL of an asset, kept in records that outlive signed URLs
+   * (e.g. `uploads.image_url`); hand it out through fromPublicUrl()
+   */
+  publicUrl(path: string, version?: string): string {
+    return withVersion(this.storage.publicUrl(ASSETS_BUCKET, path), version);
+  }
+
+  /**
+   * Fresh URL for a stored public asset URL (e.g. `uploads.image_url`), signed in
+   * private mode. URLs of other hosts or buckets are returned unchanged.
+   */
+  async fromPublicUrl(publicUrl: string): Promise<string> {
+    const base = this.storage.publicUrl(ASSETS_BUCKET, '');
+    if (!isPrivateAssetsMode() || !publicUrl.startsWith(base)) {
+      return publicUrl;
+    }
+
+    const [encodedPath, query = ''] = publicUrl
+      .substring(base.length)
+      .split('?');
+    const version = new URLSearchParams(query).get('v') ?? undefined;
+    return this.url(decodeURIComponent(encodedPath), version);
+  }
+
+  /**
+   * Seconds until URLs issued now expire; null when they do not
+   */
+  expiresIn(): number | null {
+    return isPrivateAssetsMode() ? getAssetUrlTtl() : null;
+  }
+}
+
+function withVersion(url: string, version?: string): string {
+  if (!url || !version) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}v=${version}`;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageProvider } from './local-storage.provider';
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    process.env.STORAGE_LOCAL_DIR = root;
+    process.env.STORAGE_LOCAL_PUBLIC_URL = 'http://files.test/';
+    storage = new LocalStorageProvider();
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    delete process.env.STORAGE_LOCAL_PUBLIC_URL;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('uploads, lists, copies and removes files like object storage', async () => {
+    const bucket = 'customizer-uploads';
+    await storage.upload(
+      bucket,
+      'customizer/s1-p1/original.png',
+      Buffer.from('a'),
+    );
+    await storage.upload(
+      bucket,
+      'customizer/s1-p1/history/1/x.png',
+      Buffer.from('b'),
+    );
+
+    const { error: existsError } = await storage.upload(
+      bucket,
+      'customizer/s1-p1/original.png',
+      Buffer.from('c'),
+    );
+    expect(existsError?.message).toBe('The resource already exists');
+    await storage.upload(
+      bucket,
+      'customizer/s1-p1/original.png',
+      Buffer.from('c'),
+      { upsert: true },
+    );
+    expect(
+      (await storage.download(bucket, 'customizer/s1-p1/original.png')).data,
+    ).toEqual(Buffer.from('c'));
+
+    const { data: entries } = await storage.list(bucket, 'customizer/s1-p1');
+    expect(entries?.map((e) => [e.name, e.id !== null])).toEqual([
+      ['history', false],
+      ['original.png', true],
+    ]);
+    expect(entries?.[1].metadata).toEqual({ size: 1, mimetype: 'image/png' });
+
+    await storage.copy(
+      bucket,
+      'customizer/s1-p1/original.png',
+      'customizer/s2-p1/original.png',
+    );
+    expect(
+      (await storage.list(bucket, 'customizer')).data?.map((e) => e.name),
+    ).toEqual(['s1-p1', 's2-p1']);
+
+    // Emptied folders disappear and missing files are no error
+    const { data: removed } = await storage.remove(bucket, [
+      'customizer/s2-p1/original.png',
+      'customizer/s2-p1/missing.png',
+    ]);
+    expect(removed).toEqual(['customizer/s2-p1/original.png']);
+    expect(
+      (await storage.list(bucket, 'customizer')).data?.map((e) => e.name),
+    ).toEqual(['s1-p1']);
+    expect((await storage.list(bucket, 'nothing/here')).data).toEqual([]);
+  });
+
+  it('pages through whole folders and narrows by name prefix', async () => {
+    const bucket = 'customizer-uploads';
+    for (const name of ['abc', 'abc-p1', 'ABC-p2', 'abcd-p1', 'xyz-p1']) {
+      await storage.upload(
+        bucket,
+        `customizer/${name}/a.png`,
+        Buffer.from('a'),
+      );
+    }
+
+    expect(
+      (await storage.list(bucket, 'customizer', { limit: 2 })).data?.length,
+    ).toBe(2);
+    expect(
+      (await storage.listAll(bucket, 'customizer', { pageSize: 2 })).data?.map(
+        (e) => e.name,
+      ),
+    ).toEqual(['ABC-p2', 'abc', 'abc-p1', 'abcd-p1', 'xyz-p1']);
+    expect(
+      (
+        await storage.listAll(bucket, 'customizer', {
+          search: 'abc-',
+          pageSize: 1,
+        })
+      ).data?.map((e) => e.name),
+    ).toEqual(['ABC-p2', 'abc-p1']);
+  });
+
+  it('refuses paths outside the bucket', async () => {
+    const { error } = await storage.upload(
+      'customizer-uploads',
+      '../escape.png',
+      Buffer.from('a'),
+    );
+    expect(error?.message).toContain('Invalid path');
+    expect((await storage.download('..', 'x.png')).error).not.toBeNull();
+  });
+
+  it('builds public URLs and verifies signed ones', async () => {
+    expect(storage.publicUrl('customizer-uploads', 'customizer/a b.png')).toBe(
+      'http://files.test/storage/customizer-uploads/customizer/a%20b.png',
+    );
+
+    await storage.upload(
+      'customizer-production',
+      'customizer/print.png',
+      Buffer.from('p'),
+    );
+    const { data: signedUrl } = await storage.signedUrl(
+      'customizer-production',
+      'customizer/print.png',
+      60,
+    );
+    const query = new URL(signedUrl!).searchParams;
+    const expires = query.get('expires') ?? undefined;
+    const token = query.get('token') ?? undefined;
+
+    expect(
+      storage.verifySignature(
+        'customizer-production',
+        'customizer/print.png',
+        expires,
+        token,
+      ),
+    ).toBe(true);
+    expect(
+      storage.verifySignature(
+        'customizer-production',
+        'customizer/other.png',
+        expires,
+        token,
+      ),
+    ).toBe(false);
+    expect(
+      storage.verifySignature(
+        'customizer-production',
+        'customizer/print.png',
+        '1',
+        token,
+      ),
+    ).toBe(false);
+    expect(
+      (await storage.signedUrl('customizer-production', 'missing.png', 60))
+        .error,
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,269 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
+import {
+  StorageEntry,
+  StorageListOptions,
+  StorageProvider,
+  StorageResult,
+  StorageUploadOptions,
+  storageError,
+} from './storage.provider';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json',
+  '.dxf': 'application/dxf',
+  '.pdf': 'application/pdf',
+};
+
+/** Guess a file's content type from its extension */
+export function contentTypeFor(path: string): string {
+  return (
+    CONTENT_TYPES[nodePath.extname(path).toLowerCase()] ||
+    'application/octet-stream'
+  );
+}
+
+/**
+ * Local-disk backend for development and CI. Buckets are directories under
+ * STORAGE_LOCAL_DIR (default `.storage`); files are served by the storage
+ * controller at `<STORAGE_LOCAL_PUBLIC_URL>/storage/<bucket>/<path>`, with signed
+ * URLs carrying an HMAC of the path and expiry (STORAGE_LOCAL_SIGNING_SECRET,
+ * random per process when unset).
+ */
+@Injectable()
+export class LocalStorageProvider extends StorageProvider {
+  private readonly logger = new Logger(LocalStorageProvider.name);
+  private readonly root: string;
+  private readonly baseUrl: string;
+  private readonly secret: string;
+
+  constructor() {
+    super();
+    this.root = nodePath.resolve(process.env.STORAGE_LOCAL_DIR || '.storage');
+    this.baseUrl = (
+      process.env.STORAGE_LOCAL_PUBLIC_URL ||
+      `http://localhost:${process.env.PORT ?? 3000}`
+    ).replace(/\/+$/, '');
+    this.secret =
+      process.env.STORAGE_LOCAL_SIGNING_SECRET ||
+      randomBytes(32).toString('hex');
+    this.logger.log(`Local storage in ${this.root}`);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  assertAvailable(): void {}
+
+  async upload(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: StorageUploadOptions = {},
+  ): Promise<StorageResult<{ path: string }>> {
+    const file = this.resolve(bucket, path);
+    if (!file) return storageError(`Invalid path: ${path}`);
+
+    try {
+      await fs.mkdir(nodePath.dirname(file), { recursive: true });
+      await fs.writeFile(file, body, { flag: options.upsert ? 'w' : 'wx' });
+      return { data: { path }, error: null };
+    } catch (error) {
+      return storageError(
+        (error as NodeJS.ErrnoException).code === 'EEXIST'
+          ? 'The resource already exists'
+          : (error as Error).message,
+      );
+    }
+  }
+
+  async download(bucket: string, path: string): Promise<StorageResult<Buffer>> {
+    const file = this.resolve(bucket, path);
+    if (!file) return storageError(`Invalid path: ${path}`);
+
+    try {
+      return { data: await fs.readFile(file), error: null };
+    } catch (error) {
+      return storageError(
+        (error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? 'Object not found'
+          : (error as Error).message,
+      );
+    }
+  }
+
+  async list(
+    bucket: string,
+    folder: string,
+    options: StorageListOptions = {},
+  ): Promise<StorageResult<StorageEntry[]>> {
+    const dir = this.resolve(bucket, folder);
+    if (!dir) return storageError(`Invalid path: ${folder}`);
+
+    const search = options.search?.toLowerCase();
+    let names: string[];
+    try {
+      names = (await fs.readdir(dir))
+        .filter((name) => !search || name.toLowerCase().startsWith(search))
+        .sort();
+    } catch (error) {
+      // A folder only exists while it holds files, as in object storage
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { data: [], error: null };
+      }
+      return storageError((error as Error).message);
+    }
+
+    const offset = options.offset ?? 0;
+    const entries: StorageEntry[] = [];
+    for (const name of names.slice(offset, offset + (options.limit ?? 100))) {
+      const stat = await fs.stat(nodePath.join(dir, name));
+      entries.push(
+        stat.isDirectory()
+          ? {
+              name,
+              id: null,
+              created_at: null,
+              updated_at: null,
+              metadata: null,
+            }
+          : {
+              name,
+              id: `${bucket}/${folder}/${name}`,
+              created_at: stat.birthtime.toISOString(),
+              updated_at: stat.mtime.toISOString(),
+              metadata: { size: stat.size, mimetype: contentTypeFor(name) },
+            },
+      );
+    }
+    return { data: entries, error: null };
+  }
+
+  async remove(
+    bucket: string,
+    paths: string[],
+  ): Promise<StorageResult<string[]>> {
+    const removed: string[] = [];
+    for (const path of paths) {
+      const file = this.resolve(bucket, path);
+      if (!file) continue;
+      try {
+        await fs.unlink(file);
+        removed.push(path);
+        await this.pruneEmptyFolders(bucket, nodePath.dirname(file));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          return storageError((error as Error).message);
+        }
+      }
+    }
+    return { data: removed, error: null };
+  }
+
+  async copy(
+    bucket: string,
+    fromPath: string,
+    toPath: string,
+  ): Promise<StorageResult<{ path: string }>> {
+    const from = this.resolve(bucket, fromPath);
+    const to = this.resolve(bucket, toPath);
+    if (!from || !to) return storageError(`Invalid path: ${fromPath}`);
+
+    try {
+      await fs.mkdir(nodePath.dirname(to), { recursive: true });
+      await fs.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+      return { data: { path: toPath }, error: null };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      return storageError(
+        code === 'EEXIST'
+          ? 'The resource already exists'
+          : code === 'ENOENT'
+            ? 'Object not found'
+            : (error as Error).message,
+      );
+    }
+  }
+
+  publicUrl(bucket: string, path: string): string {
+    const encoded = path.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/storage/${encodeURIComponent(bucket)}/${encoded}`;
+  }
+
+  async signedUrl(
+    bucket: string,
+    path: string,
+    expiresIn: number,
+  ): Promise<StorageResult<string>> {
+    const file = this.resolve(bucket, path);
+    if (!file) return storageError(`Invalid path: ${path}`);
+    try {
+      await fs.access(file);
+    } catch {
+      return storageError('Object not found');
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const token = this.sign(bucket, path, expires);
+    return {
+      data: `${this.publicUrl(bucket, path)}?expires=${expires}&token=${token}`,
+      error: null,
+    };
+  }
+
+  /** Whether a signed URL's expiry and token are valid for the file */
+  verifySignature(
+    bucket: string,
+    path: string,
+    expires: string | undefined,
+    token: string | undefined,
+  ): boolean {
+    const expiry = Number(expires);
+    if (!token || !Number.isFinite(expiry)) return false;
+    if (expiry < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(bucket, path, expiry));
+    const given = Buffer.from(token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private sign(bucket: string, path: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${bucket}/${path}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Absolute path of a storage path, or null when it would escape the bucket
+   */
+  private resolve(bucket: string, path: string): string | null {
+    if (!bucket || bucket.includes('/') || bucket.startsWith('.')) return null;
+    const bucketDir = nodePath.join(this.root, bucket);
+    const file = nodePath.resolve(bucketDir, path.replace(/^\/+/, ''));
+    if (file !== bucketDir && !file.startsWith(bucketDir + nodePath.sep)) {
+      return null;
+    }
+    return file;
+  }
+
+  /** Drop folders emptied by a removal, up to the bucket directory */
+  private async pruneEmptyFolders(bucket: string, dir: string): Promise<void> {
+    const bucketDir = nodePath.join(this.root, bucket);
+    while (dir !== bucketDir && dir.startsWith(bucketDir)) {
+      try {
+        await fs.rmdir(dir);
+      } catch {
+        return;
+      }
+      dir = nodePath.dirname(dir);
+    }
+  }
+}
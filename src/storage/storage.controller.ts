@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Query,
+  Res,
+} from '@nestjs/common';
+import express from 'express';
+import { StorageProvider } from './storage.provider';
+import { LocalStorageProvider, contentTypeFor } from './local-storage.provider';
+import { isPublicBucket } from './asset-url.service';
+
+@Controller('storage')
+export class StorageController {
+  private readonly logger = new Logger(StorageController.name);
+
+  constructor(private readonly storage: StorageProvider) {}
+
+  /**
+   * Serve a file kept by the local storage backend (STORAGE_DRIVER=local).
+   * GET /storage/:bucket/*path?expires=...&token=...
+   *
+   * Public buckets (see isPublicBucket) are readable as is; other buckets need
+   * the expiry and token of a signed URL. Responds 404 with any other storage
+   * backend.
+   */
+  @Get(':bucket/*path')
+  async getFile(
+    @Param('bucket') bucket: string,
+    @Param('path') path: string | string[],
+    @Query('expires') expires: string,
+    @Query('token') token: string,
+    @Res() res: express.Response,
+  ): Promise<void> {
+    try {
+      if (!(this.storage instanceof LocalStorageProvider)) {
+        throw new NotFoundException('Not found');
+      }
+
+      const filePath = Array.isArray(path) ? path.join('/') : path;
+      if (
+        !isPublicBucket(bucket) &&
+        !this.storage.verifySignature(bucket, filePath, expires, token)
+      ) {
+        throw new HttpException(
+          'Invalid or expired signature',
+          HttpStatus.FORBIDDEN,
+        );
+      }
+
+      const { data, error } = await this.storage.download(bucket, filePath);
+      if (error) {
+        throw new NotFoundException(error.message);
+      }
+
+      res.setHeader('Content-Type', contentTypeFor(filePath));
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(data);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Failed to serve ${bucket} file:`, error);
+      throw new HttpException(
+        error instanceof Error ? error.message : 'Failed to read file',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Logger, Module } from '@nestjs/common';
+import { StorageController } from './storage.controller';
+import { StorageProvider } from './storage.provider';
+import { SupabaseStorageProvider } from './supabase-storage.provider';
+import { LocalStorageProvider } from './local-storage.provider';
+import { AssetUrlService } from './asset-url.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SupabaseService } from '../supabase/supabase.service';
+
+/**
+ * Backend named by STORAGE_DRIVER: `supabase` (default) or `local`
+ */
+export function createStorageProvider(
+  supabase: SupabaseService,
+): StorageProvider {
+  const driver = (process.env.STORAGE_DRIVER || 'supabase').toLowerCase();
+  if (driver === 'local') {
+    return new LocalStorageProvider();
+  }
+  if (driver !== 'supabase') {
+    new Logger('StorageModule').warn(
+      `Unknown STORAGE_DRIVER "${driver}", using supabase`,
+    );
+  }
+  return new SupabaseStorageProvider(supabase);
+}
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: StorageProvider,
+      useFactory: createStorageProvider,
+      inject: [SupabaseService],
+    },
+    AssetUrlService,
+  ],
+  exports: [StorageProvider, AssetUrlService],
+})
+export class StorageModule {}
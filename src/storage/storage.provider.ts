@@ -0,0 +1,130 @@
+/**
+ * Object storage used by every module for uploads, renders and QR codes.
+ * Methods take the bucket explicitly and report failures as `{ data, error }`
+ * results instead of throwing, so callers decide which errors are fatal.
+ *
+ * Pick the backend with STORAGE_DRIVER: `supabase` (default) or `local`, which
+ * keeps files on disk under STORAGE_LOCAL_DIR so the app runs without a
+ * Supabase project.
+ */
+export abstract class StorageProvider {
+  /** False when the backend lacks credentials; every call then fails */
+  abstract isConfigured(): boolean;
+
+  /** Throw the backend's unavailable error (HTTP 503) unless it is configured */
+  abstract assertAvailable(): void;
+
+  abstract upload(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options?: StorageUploadOptions,
+  ): Promise<StorageResult<{ path: string }>>;
+
+  abstract download(
+    bucket: string,
+    path: string,
+  ): Promise<StorageResult<Buffer>>;
+
+  /**
+   * One page of the direct children of a folder (not recursive), sorted by name.
+   * Use listAll() when the folder may hold more entries than one page.
+   */
+  abstract list(
+    bucket: string,
+    folder: string,
+    options?: StorageListOptions,
+  ): Promise<StorageResult<StorageEntry[]>>;
+
+  /** Delete files; missing paths are not an error. Returns the removed paths */
+  abstract remove(
+    bucket: string,
+    paths: string[],
+  ): Promise<StorageResult<string[]>>;
+
+  /** Copy a file within a bucket; fails when the destination exists */
+  abstract copy(
+    bucket: string,
+    fromPath: string,
+    toPath: string,
+  ): Promise<StorageResult<{ path: string }>>;
+
+  /**
+   * Every direct child of a folder, requesting page after page until a short
+   * page. Fails when any page fails, so callers never act on a partial listing.
+   */
+  async listAll(
+    bucket: string,
+    folder: string,
+    options: { search?: string; pageSize?: number } = {},
+  ): Promise<StorageResult<StorageEntry[]>> {
+    const limit = options.pageSize ?? LIST_PAGE_SIZE;
+    const entries: StorageEntry[] = [];
+
+    for (let offset = 0; ; offset += limit) {
+      const { data: page, error } = await this.list(bucket, folder, {
+        limit,
+        offset,
+        search: options.search,
+      });
+      if (error) return { data: null, error };
+
+      entries.push(...page);
+      if (page.length < limit) return { data: entries, error: null };
+    }
+  }
+
+  /** URL of a file in a public bucket (no existence check) */
+  abstract publicUrl(bucket: string, path: string): string;
+
+  /** URL granting read access to a file for `expiresIn` seconds */
+  abstract signedUrl(
+    bucket: string,
+    path: string,
+    expiresIn: number,
+  ): Promise<StorageResult<string>>;
+}
+
+export interface StorageError {
+  message: string;
+}
+
+export type StorageResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: StorageError };
+
+export interface StorageUploadOptions {
+  contentType?: string;
+  cacheControl?: string;
+  /** Replace an existing file instead of failing */
+  upsert?: boolean;
+  /** Custom metadata stored with the file */
+  metadata?: Record<string, string>;
+}
+
+export interface StorageListOptions {
+  /** Default 100 */
+  limit?: number;
+  offset?: number;
+  /** Only names starting with this, ignoring case */
+  search?: string;
+}
+
+/**
+ * A file or subfolder in a listing. Field names follow the Supabase listing so
+ * existing callers read both backends alike; folders have a null `id`.
+ */
+export interface StorageEntry {
+  name: string;
+  id: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  metadata: { size: number; mimetype: string } | null;
+}
+
+/** Page size of listAll() */
+export const LIST_PAGE_SIZE = 1000;
+
+export function storageError<T = never>(message: string): StorageResult<T> {
+  return { data: null, error: { message } };
+}
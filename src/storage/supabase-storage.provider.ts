@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import {
+  SupabaseService,
+  SupabaseUnavailableException,
+} from '../supabase/supabase.service';
+import {
+  StorageEntry,
+  StorageListOptions,
+  StorageProvider,
+  StorageResult,
+  StorageUploadOptions,
+  storageError,
+} from './storage.provider';
+
+/**
+ * Supabase Storage backend on the shared client
+ */
+@Injectable()
+export class SupabaseStorageProvider extends StorageProvider {
+  constructor(private readonly supabase: SupabaseService) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return this.supabase.isConfigured();
+  }
+
+  assertAvailable(): void {
+    this.supabase.getClient();
+  }
+
+  /** Failed result carrying the shared unavailable message */
+  private unavailable<T>(): StorageResult<T> {
+    return storageError(new SupabaseUnavailableException().message);
+  }
+
+  async upload(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: StorageUploadOptions = {},
+  ): Promise<StorageResult<{ path: string }>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { error } = await client.storage
+      .from(bucket)
+      .upload(path, body, options);
+    return error
+      ? storageError(error.message)
+      : { data: { path }, error: null };
+  }
+
+  async download(bucket: string, path: string): Promise<StorageResult<Buffer>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { data, error } = await client.storage.from(bucket).download(path);
+    if (error || !data) {
+      return storageError(error?.message || 'No data returned');
+    }
+    return { data: Buffer.from(await data.arrayBuffer()), error: null };
+  }
+
+  async list(
+    bucket: string,
+    folder: string,
+    options: StorageListOptions = {},
+  ): Promise<StorageResult<StorageEntry[]>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { data, error } = await client.storage
+      .from(bucket)
+      .list(folder, options);
+    if (error || !data) {
+      return storageError(error?.message || 'No data returned');
+    }
+    return {
+      data: data.map((entry) => ({
+        name: entry.name,
+        id: entry.id ?? null,
+        created_at: entry.created_at ?? null,
+        updated_at: entry.updated_at ?? null,
+        metadata: entry.metadata
+          ? {
+              size: Number(entry.metadata.size) || 0,
+              mimetype: String(entry.metadata.mimetype || ''),
+            }
+          : null,
+      })),
+      error: null,
+    };
+  }
+
+  async remove(
+    bucket: string,
+    paths: string[],
+  ): Promise<StorageResult<string[]>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { data, error } = await client.storage.from(bucket).remove(paths);
+    if (error) return storageError(error.message);
+    return { data: (data || []).map((file) => file.name), error: null };
+  }
+
+  async copy(
+    bucket: string,
+    fromPath: string,
+    toPath: string,
+  ): Promise<StorageResult<{ path: string }>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { error } = await client.storage.from(bucket).copy(fromPath, toPath);
+    return error
+      ? storageError(error.message)
+      : { data: { path: toPath }, error: null };
+  }
+
+  publicUrl(bucket: string, path: string): string {
+    const client = this.supabase.client;
+    if (!client) return '';
+    return client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  }
+
+  async signedUrl(
+    bucket: string,
+    path: string,
+    expiresIn: number,
+  ): Promise<StorageResult<string>> {
+    const client = this.supabase.client;
+    if (!client) return this.unavailable();
+
+    const { data, error } = await client.storage
+      .from(bucket)
+      .createSignedUrl(path, expiresIn);
+    if (error || !data?.signedUrl) {
+      return storageError(error?.message || 'No URL returned');
+    }
+    return { data: data.signedUrl, error: null };
+  }
+}
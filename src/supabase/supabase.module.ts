@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { SupabaseService } from './supabase.service';
+
+@Module({
+  providers: [SupabaseService],
+  exports: [SupabaseService],
+})
+export class SupabaseModule {}
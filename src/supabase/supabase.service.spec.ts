@@ -0,0 +1,31 @@
+import { resolveSupabaseConfig } from './supabase.service';
+
+describe('resolveSupabaseConfig', () => {
+  it('prefers the service role key and falls back to the anon key', () => {
+    expect(
+      resolveSupabaseConfig({
+        SUPABASE_URL: 'https://demo.supabase.co',
+        SUPABASE_SERVICE_ROLE_KEY: 'service',
+        SUPABASE_ANON_KEY: 'anon',
+      }),
+    ).toEqual({ url: 'https://demo.supabase.co', key: 'service', error: null });
+    expect(
+      resolveSupabaseConfig({
+        SUPABASE_URL: 'https://demo.supabase.co',
+        SUPABASE_ANON_KEY: 'anon',
+      }).key,
+    ).toBe('anon');
+  });
+
+  it('reports missing credentials and invalid URLs', () => {
+    expect(
+      resolveSupabaseConfig({ SUPABASE_URL: 'https://demo.supabase.co' }).error,
+    ).toContain('not configured');
+    expect(
+      resolveSupabaseConfig({
+        SUPABASE_URL: 'demo.supabase.co',
+        SUPABASE_SERVICE_ROLE_KEY: 'service',
+      }).error,
+    ).toContain('not a valid http(s) URL');
+  });
+});
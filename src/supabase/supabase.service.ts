@@ -0,0 +1,151 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/** Longest wait for the readiness round trip */
+const READINESS_TIMEOUT_MS = 5000;
+/** Bucket listed by the readiness probe */
+const READINESS_BUCKET = 'customizer-uploads';
+
+/**
+ * Thrown by every Supabase-backed feature when no client is available, so callers
+ * see one status (503) and message however the request reached Supabase.
+ */
+export class SupabaseUnavailableException extends ServiceUnavailableException {
+  constructor() {
+    super(
+      'Supabase is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY).',
+    );
+  }
+}
+
+export type SupabaseConfig =
+  | { url: string; key: string; error: null }
+  | { url: null; key: null; error: string };
+
+export interface SupabaseReadiness {
+  status: 'ready' | 'unconfigured' | 'unreachable';
+  latencyMs: number | null;
+  error: string | null;
+}
+
+/**
+ * Credentials from SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, falling back to
+ * SUPABASE_ANON_KEY. The URL must be an absolute http(s) URL.
+ */
+export function resolveSupabaseConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): SupabaseConfig {
+  const url = env.SUPABASE_URL?.trim();
+  const key = (env.SUPABASE_SERVICE_ROLE_KEY || env.SUPABASE_ANON_KEY)?.trim();
+
+  if (!url || !key) {
+    return {
+      url: null,
+      key: null,
+      error:
+        'Supabase credentials not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY).',
+    };
+  }
+
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    protocol = '';
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    return {
+      url: null,
+      key: null,
+      error: `SUPABASE_URL is not a valid http(s) URL: ${url}`,
+    };
+  }
+
+  return { url, key, error: null };
+}
+
+/**
+ * The one Supabase client of the app. Credentials are validated once at startup;
+ * when they are missing or invalid the client is null, optional features fall
+ * back (built-in shapes, default print specs) and required ones throw
+ * SupabaseUnavailableException via getClient().
+ */
+@Injectable()
+export class SupabaseService {
+  private readonly logger = new Logger(SupabaseService.name);
+  /** Configured client, or null when Supabase is not configured */
+  readonly client: SupabaseClient | null;
+
+  constructor() {
+    const config = resolveSupabaseConfig();
+    if (config.error !== null) {
+      this.logger.warn(
+        `${config.error} Supabase-dependent features will be disabled.`,
+      );
+      this.client = null;
+      return;
+    }
+
+    this.client = createClient(config.url, config.key);
+    this.logger.log('Supabase client initialized');
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * The client for features that cannot work without Supabase
+   */
+  getClient(): SupabaseClient {
+    if (!this.client) {
+      throw new SupabaseUnavailableException();
+    }
+    return this.client;
+  }
+
+  /**
+   * Readiness probe: lists one entry of the uploads bucket to confirm the project
+   * is reachable and the key is accepted
+   */
+  async checkReadiness(): Promise<SupabaseReadiness> {
+    if (!this.client) {
+      return { status: 'unconfigured', latencyMs: null, error: null };
+    }
+
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error('Timed out')),
+          READINESS_TIMEOUT_MS,
+        );
+      });
+      const { error } = await Promise.race([
+        this.client.storage.from(READINESS_BUCKET).list('', { limit: 1 }),
+        timeout,
+      ]);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return {
+        status: 'ready',
+        latencyMs: Date.now() - startedAt,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        status: 'unreachable',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
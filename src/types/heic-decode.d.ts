@@ -0,0 +1,14 @@
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    /** RGBA pixels */
+    data: Uint8ClampedArray;
+  }
+
+  function decode(input: {
+    buffer: Buffer | Uint8Array;
+  }): Promise<DecodedImage>;
+
+  export = decode;
+}